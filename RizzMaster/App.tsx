@@ -1,27 +1,52 @@
 import { StatusBar } from 'expo-status-bar';
-import React from 'react';
+import React, { useEffect } from 'react';
 import { StyleSheet } from 'react-native';
-import { NavigationContainer } from '@react-navigation/native';
+import { LinkingOptions, NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import * as Linking from 'expo-linking';
 import Homepage from './components/Homepage';
 import CharacterSelect from './components/CharacterSelect';
 import ChatScreen from './components/ChatScreen';
+import ProfileEditor from './components/ProfileEditor';
+import ProfileImport from './components/ProfileImport';
+import PlayerPreferences from './components/PlayerPreferences';
+import ProfileGenerator from './components/ProfileGenerator';
 import { CharacterProfile } from './types/character';
+import { DailyChallenge } from './services/dailyChallenge';
+import { loadLanguageSetting } from './i18n';
 
 type RootStackParamList = {
   Home: undefined;
   CharacterSelect: undefined;
-  Chat: { profile: CharacterProfile };
+  Chat: { profile: CharacterProfile; daily?: DailyChallenge };
+  ProfileEditor: { profile?: CharacterProfile };
+  ProfileImport: { fileUri?: string; data?: string };
+  Preferences: undefined;
+  ProfileGenerator: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
+// rizzmaster://profile?data=... ouvre l'aperçu d'import
+const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [Linking.createURL('/'), 'rizzmaster://'],
+  config: {
+    screens: {
+      ProfileImport: 'profile',
+    },
+  },
+};
+
 export default function App() {
+  useEffect(() => {
+    loadLanguageSetting();
+  }, []);
+
   return (
     <GestureHandlerRootView style={styles.root}>
-      <NavigationContainer>
+      <NavigationContainer linking={linking}>
         <StatusBar style="auto" />
         <Stack.Navigator screenOptions={{ headerShown: false, gestureEnabled: false }}>
           <Stack.Screen name="Home">
@@ -34,6 +59,11 @@ export default function App() {
               <SafeAreaView style={styles.container}>
                 <CharacterSelect
                   onSelectCharacter={(profile) => navigation.navigate('Chat', { profile })}
+                  onEditProfile={(profile) => navigation.navigate('ProfileEditor', { profile })}
+                  onImportProfile={(fileUri) => navigation.navigate('ProfileImport', { fileUri })}
+                  onEditPreferences={() => navigation.navigate('Preferences')}
+                  onGenerateProfile={() => navigation.navigate('ProfileGenerator')}
+                  onPlayDaily={(profile, daily) => navigation.navigate('Chat', { profile, daily })}
                 />
               </SafeAreaView>
             )}
@@ -44,10 +74,48 @@ export default function App() {
                 <ChatScreen
                   onBack={() => navigation.goBack()}
                   profile={route.params.profile}
+                  daily={route.params.daily}
+                />
+              </SafeAreaView>
+            )}
+          </Stack.Screen>
+          <Stack.Screen name="ProfileEditor">
+            {({ navigation, route }) => (
+              <SafeAreaView style={styles.container}>
+                <ProfileEditor
+                  profile={route.params.profile}
+                  onDone={() => navigation.goBack()}
                 />
               </SafeAreaView>
             )}
           </Stack.Screen>
+          <Stack.Screen name="ProfileImport">
+            {({ navigation, route }) => (
+              <SafeAreaView style={styles.container}>
+                <ProfileImport
+                  fileUri={route.params?.fileUri}
+                  data={route.params?.data}
+                  onDone={() =>
+                    navigation.canGoBack() ? navigation.goBack() : navigation.replace('CharacterSelect')
+                  }
+                />
+              </SafeAreaView>
+            )}
+          </Stack.Screen>
+          <Stack.Screen name="Preferences">
+            {({ navigation }) => (
+              <SafeAreaView style={styles.container}>
+                <PlayerPreferences onDone={() => navigation.goBack()} />
+              </SafeAreaView>
+            )}
+          </Stack.Screen>
+          <Stack.Screen name="ProfileGenerator">
+            {({ navigation }) => (
+              <SafeAreaView style={styles.container}>
+                <ProfileGenerator onDone={() => navigation.goBack()} />
+              </SafeAreaView>
+            )}
+          </Stack.Screen>
         </Stack.Navigator>
       </NavigationContainer>
     </GestureHandlerRootView>
@@ -0,0 +1,80 @@
+import React from 'react';
+import {
+  Image,
+  ImageBackground,
+  ImageStyle,
+  StyleProp,
+  StyleSheet,
+  Text,
+  View,
+  ViewStyle,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Avatar as AvatarData } from '../services/avatars';
+
+type Props = {
+  avatar: AvatarData;
+  style?: StyleProp<ImageStyle>;
+};
+
+type BackgroundProps = {
+  avatar: AvatarData;
+  style?: StyleProp<ViewStyle>;
+  imageStyle?: StyleProp<ImageStyle>;
+  children?: React.ReactNode;
+};
+
+// Les initiales occupent un peu moins de la moitié du cercle
+const INITIALS_RATIO = 0.4;
+const DEFAULT_SIZE = 48;
+
+/** Round (or styled) picture of a character, initials on a gradient when it has no image. */
+const Avatar: React.FC<Props> = ({ avatar, style }) => {
+  if (avatar.kind === 'image') {
+    return <Image source={avatar.source} style={style} />;
+  }
+  const { width } = StyleSheet.flatten(style) ?? {};
+  const size = typeof width === 'number' ? width : DEFAULT_SIZE;
+  return (
+    <LinearGradient colors={avatar.colors} style={[styles.generated, style as StyleProp<ViewStyle>]}>
+      <Text style={[styles.initials, { fontSize: size * INITIALS_RATIO }]}>{avatar.initials}</Text>
+    </LinearGradient>
+  );
+};
+
+/** Full-size picture behind `children`, like the swipe card. */
+export const AvatarBackground: React.FC<BackgroundProps> = ({ avatar, style, imageStyle, children }) => {
+  if (avatar.kind === 'image') {
+    return (
+      <ImageBackground source={avatar.source} style={style} imageStyle={imageStyle}>
+        {children}
+      </ImageBackground>
+    );
+  }
+  return (
+    <View style={style}>
+      <LinearGradient colors={avatar.colors} style={[StyleSheet.absoluteFill, styles.generated, imageStyle]}>
+        <Text style={[styles.initials, styles.backgroundInitials]}>{avatar.initials}</Text>
+      </LinearGradient>
+      {children}
+    </View>
+  );
+};
+
+export default Avatar;
+
+const styles = StyleSheet.create({
+  generated: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    overflow: 'hidden',
+  },
+  initials: {
+    color: '#fff',
+    fontWeight: '800',
+  },
+  backgroundInitials: {
+    fontSize: 120,
+    opacity: 0.9,
+  },
+});
@@ -1,63 +1,79 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import {
+  Alert,
   Animated,
   Dimensions,
-  ImageBackground,
   PanResponder,
+  ScrollView,
   StyleSheet,
   Text,
   TouchableOpacity,
   View,
-  Image,
+  Share,
 } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
 import { BlurView } from 'expo-blur';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useFocusEffect } from '@react-navigation/native';
 import { CharacterProfile, DifficultyLevel } from '../types/character';
 import ConversationList from './ConversationList';
+import DailyChallengeTab from './DailyChallengeTab';
+import LevelCard from './LevelCard';
+import { AvatarBackground } from './Avatar';
+import {
+  CUSTOM_PROFILES_KEY,
+  getAvatar,
+  getPhotos,
+  getProfiles,
+  isCustomProfile,
+  loadCustomProfiles,
+} from '../services/profiles';
+import { buildProfileLink, exportProfile } from '../services/profileTransfer';
+import { prefetchAvatar } from '../services/avatars';
+import { DailyChallenge } from '../services/dailyChallenge';
+import {
+  CampaignProgress,
+  EMPTY_CAMPAIGN,
+  getUnlockRequirement,
+  isProfileUnlocked,
+  loadCampaign,
+} from '../services/campaign';
+import { GAME_SETTINGS_KEY, loadGameSettings, saveGameSettings } from '../services/gameSettings';
+import { applyPreferences, loadPlayerPreferences, PLAYER_PREFERENCES_KEY } from '../services/playerPreferences';
+import {
+  getLanguageSetting,
+  getStrings,
+  LANGUAGE_SETTING_KEY,
+  LanguageSetting,
+  setLanguageSetting,
+  SUPPORTED_LOCALES,
+  useI18n,
+} from '../i18n';
 
 const MATCHED_PROFILES_KEY = 'rizzmaster_matched_profiles';
 const SKIPPED_PROFILES_KEY = 'rizzmaster_skipped_profiles';
 
-const profiles: CharacterProfile[] = [
-  require('../data/profiles/chloe_spontanee.json'),
-  require('../data/profiles/fanny_douce.json'),
-  require('../data/profiles/kilian_bobo.json'),
-  require('../data/profiles/louis_charo.json'),
-  require('../data/profiles/melina_pickme.json'),
-];
-
-export const avatars: { [key: string]: any } = {
-  chloe_avatar: require('../assets/chloeimg.jpg'),
-  fanny_avatar: require('../assets/fannyimg.jpg'),
-  kilian_avatar: require('../assets/kilianimg.jpeg'),
-  louis_avatar: require('../assets/louisimg.webp'),
-  melina_avatar: require('../assets/melinaimg.jpg'),
-};
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 const SWIPE_THRESHOLD = SCREEN_WIDTH * 0.25;
+// Below this distance a release is a tap, which browses the photos
+const TAP_SLOP = 6;
 
-type Tab = 'swipe' | 'messages';
+type Tab = 'swipe' | 'messages' | 'daily';
 
 type Props = {
   onSelectCharacter: (profile: CharacterProfile) => void;
+  onEditProfile: (profile?: CharacterProfile) => void; // no profile: create a new one
+  onImportProfile: (fileUri: string) => void;
+  onEditPreferences: () => void;
+  onGenerateProfile: () => void;
+  onPlayDaily: (profile: CharacterProfile, challenge: DailyChallenge) => void;
 };
 
-const getDifficultyLabel = (level: DifficultyLevel): string => {
-  switch (level) {
-    case 'easy':
-      return 'Facile';
-    case 'medium':
-      return 'Moyen';
-    case 'hard':
-      return 'Difficile';
-    default:
-      return level;
-  }
-};
+export const getDifficultyLabel = (level: DifficultyLevel): string =>
+  getStrings().difficulty[level] ?? level;
 
-const getDifficultyColor = (level: DifficultyLevel): string => {
+export const getDifficultyColor = (level: DifficultyLevel): string => {
   switch (level) {
     case 'easy':
       return '#22c55e';
@@ -70,18 +86,30 @@ const getDifficultyColor = (level: DifficultyLevel): string => {
   }
 };
 
-const CharacterSelect: React.FC<Props> = ({ onSelectCharacter }) => {
+const CharacterSelect: React.FC<Props> = ({
+  onSelectCharacter,
+  onEditProfile,
+  onImportProfile,
+  onEditPreferences,
+  onGenerateProfile,
+  onPlayDaily,
+}) => {
   const [availableProfiles, setAvailableProfiles] = useState<CharacterProfile[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [activeTab, setActiveTab] = useState<Tab>('swipe');
   const [matchedIds, setMatchedIds] = useState<string[]>([]);
   const [skippedIds, setSkippedIds] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
+  const [photoIndex, setPhotoIndex] = useState(0);
+  const [detailsOpen, setDetailsOpen] = useState(false);
+  const [campaign, setCampaign] = useState<CampaignProgress>(EMPTY_CAMPAIGN);
+  const { locale, t } = useI18n();
   const position = useRef(new Animated.ValueXY()).current;
   const availableProfilesRef = useRef<CharacterProfile[]>([]);
   const currentIndexRef = useRef(0);
   const matchedIdsRef = useRef<string[]>([]);
   const skippedIdsRef = useRef<string[]>([]);
+  const campaignRef = useRef<CampaignProgress>(EMPTY_CAMPAIGN);
 
   useEffect(() => {
     availableProfilesRef.current = availableProfiles;
@@ -89,6 +117,9 @@ const CharacterSelect: React.FC<Props> = ({ onSelectCharacter }) => {
 
   useEffect(() => {
     currentIndexRef.current = currentIndex;
+    // Chaque carte s'ouvre sur sa première photo, détails repliés
+    setPhotoIndex(0);
+    setDetailsOpen(false);
   }, [currentIndex]);
 
   useEffect(() => {
@@ -99,29 +130,42 @@ const CharacterSelect: React.FC<Props> = ({ onSelectCharacter }) => {
     skippedIdsRef.current = skippedIds;
   }, [skippedIds]);
 
+  useEffect(() => {
+    campaignRef.current = campaign;
+  }, [campaign]);
+
   const loadSwipeData = useCallback(async () => {
     try {
-      const [matchedData, skippedData] = await Promise.all([
+      const [matchedData, skippedData, preferences, progress] = await Promise.all([
         AsyncStorage.getItem(MATCHED_PROFILES_KEY),
         AsyncStorage.getItem(SKIPPED_PROFILES_KEY),
+        loadPlayerPreferences(),
+        loadCampaign(),
+        loadCustomProfiles(),
       ]);
 
       const matched = matchedData ? JSON.parse(matchedData) : [];
       const skipped = skippedData ? JSON.parse(skippedData) : [];
       setMatchedIds(matched);
       setSkippedIds(skipped);
-      const available = profiles.filter(
+      setCampaign(progress);
+      const available = applyPreferences(getProfiles(), preferences).filter(
         (p) => !matched.includes(p.id) && !skipped.includes(p.id)
       );
-      setAvailableProfiles(available);
+      // Les profils verrouillés passent en fin de deck, en teaser
+      setAvailableProfiles([
+        ...available.filter((p) => isProfileUnlocked(progress, p)),
+        ...available.filter((p) => !isProfileUnlocked(progress, p)),
+      ]);
       setCurrentIndex(0);
     } catch (error) {
       console.warn('Error loading swipe data:', error);
-      setAvailableProfiles(profiles);
+      setAvailableProfiles(getProfiles());
     } finally {
       setLoading(false);
     }
-  }, []);
+    // getProfiles() suit la langue : le deck est rechargé quand elle change
+  }, [locale]);
 
   useFocusEffect(
     useCallback(() => {
@@ -137,12 +181,7 @@ const CharacterSelect: React.FC<Props> = ({ onSelectCharacter }) => {
   }, [activeTab, loadSwipeData]);
 
   useEffect(() => {
-    availableProfiles.forEach((profile) => {
-      const avatar = avatars[profile.avatarKey];
-      if (avatar) {
-        Image.prefetch(Image.resolveAssetSource(avatar).uri);
-      }
-    });
+    availableProfiles.forEach((profile) => prefetchAvatar(getAvatar(profile)));
   }, [availableProfiles]);
 
   const resetAllSwipes = async () => {
@@ -157,18 +196,76 @@ const CharacterSelect: React.FC<Props> = ({ onSelectCharacter }) => {
   const resetAllData = async () => {
     try {
       const keys = await AsyncStorage.getAllKeys();
-      const rizzMasterKeys = keys.filter(key => key.startsWith('rizzmaster_'));
+      // Les personnages créés dans l'app et les options ne font pas partie de la progression
+      const keptKeys = [CUSTOM_PROFILES_KEY, LANGUAGE_SETTING_KEY, GAME_SETTINGS_KEY, PLAYER_PREFERENCES_KEY];
+      const rizzMasterKeys = keys.filter(
+        key => key.startsWith('rizzmaster_') && !keptKeys.includes(key)
+      );
       await AsyncStorage.multiRemove(rizzMasterKeys);
-
-      setMatchedIds([]);
-      setSkippedIds([]);
-      setAvailableProfiles(profiles);
-      setCurrentIndex(0);
+      // Le deck repart de zéro, toujours selon les préférences
+      await loadSwipeData();
     } catch (error) {
       console.warn('Error resetting all data:', error);
     }
   };
 
+  const importProfileFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain', '*/*'],
+        copyToCacheDirectory: true,
+      });
+      if (!result.canceled && result.assets[0]) {
+        onImportProfile(result.assets[0].uri);
+      }
+    } catch (error) {
+      console.warn('Error picking profile file:', error);
+    }
+  };
+
+  const shareProfile = (profile: CharacterProfile) => {
+    const share = (task: () => Promise<unknown>) => {
+      task().catch((error) => console.warn('Error sharing profile:', error));
+    };
+    Alert.alert(t.select.share(profile.name), undefined, [
+      { text: t.select.shareFileWithPhoto, onPress: () => share(() => exportProfile(profile, { includeAvatar: true })) },
+      { text: t.select.shareFileWithoutPhoto, onPress: () => share(() => exportProfile(profile, { includeAvatar: false })) },
+      { text: t.select.shareLink, onPress: () => share(() => Share.share({ message: buildProfileLink(profile) })) },
+      { text: t.common.cancel, style: 'cancel' },
+    ]);
+  };
+
+  const pickLanguage = () => {
+    const current = getLanguageSetting();
+    const choices: { setting: LanguageSetting; label: string }[] = [
+      { setting: 'system', label: t.language.system },
+      ...SUPPORTED_LOCALES.map((code) => ({ setting: code, label: t.language.names[code] })),
+    ];
+    Alert.alert(t.language.title, undefined, [
+      ...choices.map(({ setting, label }) => ({
+        text: setting === current ? `✓ ${label}` : label,
+        onPress: () => setLanguageSetting(setting),
+      })),
+      { text: t.common.cancel, style: 'cancel' as const },
+    ]);
+  };
+
+  const openSettings = async () => {
+    const settings = await loadGameSettings();
+    Alert.alert(t.settings.title, undefined, [
+      { text: `🌐 ${t.language.title}`, onPress: pickLanguage },
+      {
+        text: t.settings.characterOpens(settings.characterOpens),
+        onPress: () => { saveGameSettings({ characterOpens: !settings.characterOpens }); },
+      },
+      {
+        text: t.settings.timedMode(settings.timedMode),
+        onPress: () => { saveGameSettings({ timedMode: !settings.timedMode }); },
+      },
+      { text: t.common.cancel, style: 'cancel' },
+    ]);
+  };
+
   const rotate = position.x.interpolate({
     inputRange: [-SCREEN_WIDTH / 2, 0, SCREEN_WIDTH / 2],
     outputRange: ['-15deg', '0deg', '15deg'],
@@ -211,6 +308,17 @@ const CharacterSelect: React.FC<Props> = ({ onSelectCharacter }) => {
     });
   };
 
+  const showLockedHint = () => {
+    const profile = availableProfilesRef.current[currentIndexRef.current];
+    const requirement = profile && getUnlockRequirement(campaignRef.current, profile.difficulty.level);
+    resetPosition();
+    if (requirement) {
+      // Appelé depuis le PanResponder créé au premier rendu : textes lus à l'instant
+      const strings = getStrings().campaign;
+      Alert.alert(strings.locked, strings.unlockHint(requirement.wins, getDifficultyLabel(requirement.level)));
+    }
+  };
+
   const swipeRight = async () => {
     const profile = availableProfilesRef.current[currentIndexRef.current];
     if (!profile) return;
@@ -223,9 +331,11 @@ const CharacterSelect: React.FC<Props> = ({ onSelectCharacter }) => {
       try {
         const chatKey = `rizzmaster_chat_${profile.id}`;
         const flagsKey = `rizzmaster_flags_${profile.id}`;
+        const summaryKey = `rizzmaster_summary_${profile.id}`;
         await Promise.all([
           AsyncStorage.removeItem(chatKey),
           AsyncStorage.removeItem(flagsKey),
+          AsyncStorage.removeItem(summaryKey),
         ]);
 
         position.setValue({ x: 0, y: 0 });
@@ -237,14 +347,37 @@ const CharacterSelect: React.FC<Props> = ({ onSelectCharacter }) => {
     });
   };
 
+  // Tap on the right half: next photo, on the left half: previous one
+  const browsePhotos = (step: number) => {
+    const profile = availableProfilesRef.current[currentIndexRef.current];
+    // Un profil verrouillé ne montre qu'une photo floutée
+    const count = profile && isProfileUnlocked(campaignRef.current, profile) ? getPhotos(profile).length : 0;
+    if (count > 1) {
+      setPhotoIndex((prev) => Math.min(count - 1, Math.max(0, prev + step)));
+    }
+  };
+
+  // Une carte verrouillée ne se swipe pas : ni match, ni passée pour s'en débarrasser
+  const isCurrentLocked = () => {
+    const profile = availableProfilesRef.current[currentIndexRef.current];
+    return !!profile && !isProfileUnlocked(campaignRef.current, profile);
+  };
+
   const panResponder = useRef(
     PanResponder.create({
       onStartShouldSetPanResponder: () => true,
       onPanResponderMove: (_, gesture) => {
-        position.setValue({ x: gesture.dx, y: gesture.dy });
+        if (!isCurrentLocked()) {
+          position.setValue({ x: gesture.dx, y: gesture.dy });
+        }
       },
       onPanResponderRelease: (_, gesture) => {
-        if (gesture.dx > SWIPE_THRESHOLD) {
+        if (Math.abs(gesture.dx) < TAP_SLOP && Math.abs(gesture.dy) < TAP_SLOP) {
+          browsePhotos(gesture.x0 < SCREEN_WIDTH / 2 ? -1 : 1);
+          resetPosition();
+        } else if (isCurrentLocked()) {
+          showLockedHint();
+        } else if (gesture.dx > SWIPE_THRESHOLD) {
           swipeRight();
         } else if (gesture.dx < -SWIPE_THRESHOLD) {
           swipeLeft();
@@ -275,10 +408,10 @@ const CharacterSelect: React.FC<Props> = ({ onSelectCharacter }) => {
           {...panResponder.panHandlers}
         >
           <Animated.View style={[styles.likeLabel, { opacity: likeOpacity }]}>
-            <Text style={styles.likeLabelText}>LIKE 💚</Text>
+            <Text style={styles.likeLabelText}>{t.select.like}</Text>
           </Animated.View>
           <Animated.View style={[styles.nopeLabel, { opacity: nopeOpacity }]}>
-            <Text style={styles.nopeLabelText}>NEXT ❌</Text>
+            <Text style={styles.nopeLabelText}>{t.select.next}</Text>
           </Animated.View>
           {renderCardContent(profile)}
         </Animated.View>
@@ -286,16 +419,15 @@ const CharacterSelect: React.FC<Props> = ({ onSelectCharacter }) => {
     }
 
     if (index === currentIndex + 1) {
-      const avatar = avatars[profile.avatarKey];
       return (
         <View key={profile.id} style={[styles.card, styles.nextCard]}>
-          <ImageBackground
-            source={avatar}
+          <AvatarBackground
+            avatar={getAvatar(profile)}
             style={styles.cardBackground}
             imageStyle={styles.cardBackgroundImage}
           >
           <BlurView intensity={40} style={StyleSheet.absoluteFill}></BlurView>
-          </ImageBackground>
+          </AvatarBackground>
         </View>
       );
     }
@@ -303,18 +435,113 @@ const CharacterSelect: React.FC<Props> = ({ onSelectCharacter }) => {
     return null;
   };
 
+  const renderDetails = (profile: CharacterProfile) => (
+    <ScrollView style={styles.details} contentContainerStyle={styles.detailsContent}>
+      <Text style={styles.archetype}>{profile.personality.archetype}</Text>
+      <Text style={styles.bio}>{profile.personality.shortBio}</Text>
+      {profile.interests && profile.interests.length > 0 && (
+        <>
+          <Text style={styles.detailsTitle}>{t.select.interests}</Text>
+          <View style={styles.interests}>
+            {profile.interests.map((interest) => (
+              <View key={interest} style={styles.interest}>
+                <Text style={styles.interestText}>{interest}</Text>
+              </View>
+            ))}
+          </View>
+        </>
+      )}
+      {profile.prompts?.map((prompt) => (
+        <View key={prompt.question} style={styles.prompt}>
+          <Text style={styles.promptQuestion}>{prompt.question}</Text>
+          <Text style={styles.promptAnswer}>{prompt.answer}</Text>
+        </View>
+      ))}
+    </ScrollView>
+  );
+
+  const renderLockedCard = (profile: CharacterProfile) => {
+    const requirement = getUnlockRequirement(campaign, profile.difficulty.level);
+    return (
+      <AvatarBackground
+        avatar={getAvatar(profile)}
+        style={styles.cardBackground}
+        imageStyle={styles.cardBackgroundImage}
+      >
+        <BlurView intensity={90} style={StyleSheet.absoluteFill} />
+        <View style={styles.lockedContent}>
+          <Text style={styles.lockedIcon}>🔒</Text>
+          <Text style={styles.lockedName}>{profile.name}</Text>
+          <View
+            style={[
+              styles.difficultyBadge,
+              { backgroundColor: getDifficultyColor(profile.difficulty.level) + '40' },
+            ]}
+          >
+            <Text style={[styles.difficultyText, { color: '#fff' }]}>
+              {getDifficultyLabel(profile.difficulty.level)}
+            </Text>
+          </View>
+          {requirement && (
+            <Text style={styles.lockedHint}>
+              {t.campaign.unlockHint(requirement.wins, getDifficultyLabel(requirement.level))}
+            </Text>
+          )}
+          {/* Les cartes verrouillées ferment le deck et ne se swipent pas : on repart du début */}
+          <TouchableOpacity accessibilityRole="button" style={styles.resetButton} onPress={resetAllSwipes}>
+            <Text style={styles.resetButtonText}>{t.select.restart}</Text>
+          </TouchableOpacity>
+        </View>
+      </AvatarBackground>
+    );
+  };
+
   const renderCardContent = (profile: CharacterProfile) => {
-    const avatar = avatars[profile.avatarKey];
+    if (!isProfileUnlocked(campaign, profile)) {
+      return renderLockedCard(profile);
+    }
+    const photos = getPhotos(profile);
+    const photo = photos[Math.min(photoIndex, photos.length - 1)];
     return (
-      <ImageBackground
-        source={avatar}
+      <AvatarBackground
+        avatar={photo}
         style={styles.cardBackground}
         imageStyle={styles.cardBackgroundImage}
       >
+        {photos.length > 1 && (
+          <View style={styles.photoBars}>
+            {photos.map((_, index) => (
+              <View
+                key={index}
+                style={[styles.photoBar, index === photoIndex && styles.photoBarActive]}
+              />
+            ))}
+          </View>
+        )}
         <View style={styles.cardGradient}>
           <View style={styles.cardInfo}>
             <View style={styles.cardHeader}>
-              <Text style={styles.name}>{profile.name}</Text>
+              <Text style={styles.name}>
+                {profile.name}
+                {profile.age !== undefined && <Text style={styles.age}>, {profile.age}</Text>}
+              </Text>
+              <TouchableOpacity
+                accessibilityRole="button"
+                accessibilityLabel={t.select.share(profile.name)}
+                onPress={() => shareProfile(profile)}
+                style={[styles.editBadge, styles.shareBadge]}
+              >
+                <Text style={styles.editBadgeText}>📤</Text>
+              </TouchableOpacity>
+              {isCustomProfile(profile.id) && (
+                <TouchableOpacity
+                  accessibilityRole="button"
+                  onPress={() => onEditProfile(profile)}
+                  style={styles.editBadge}
+                >
+                  <Text style={styles.editBadgeText}>{t.select.edit}</Text>
+                </TouchableOpacity>
+              )}
               <View
                 style={[
                   styles.difficultyBadge,
@@ -331,9 +558,20 @@ const CharacterSelect: React.FC<Props> = ({ onSelectCharacter }) => {
                 </Text>
               </View>
             </View>
+            {!!profile.city && <Text style={styles.city}>📍 {profile.city}</Text>}
+            {detailsOpen && renderDetails(profile)}
+            <TouchableOpacity
+              accessibilityRole="button"
+              onPress={() => setDetailsOpen((open) => !open)}
+              style={styles.detailsToggle}
+            >
+              <Text style={styles.detailsToggleText}>
+                {detailsOpen ? t.select.hideDetails : t.select.showDetails}
+              </Text>
+            </TouchableOpacity>
           </View>
         </View>
-      </ImageBackground>
+      </AvatarBackground>
     );
   };
 
@@ -341,7 +579,7 @@ const CharacterSelect: React.FC<Props> = ({ onSelectCharacter }) => {
     if (loading) {
       return (
         <View style={styles.emptyContainer}>
-          <Text style={styles.emptyText}>Chargement...</Text>
+          <Text style={styles.emptyText}>{t.common.loading}</Text>
         </View>
       );
     }
@@ -349,12 +587,42 @@ const CharacterSelect: React.FC<Props> = ({ onSelectCharacter }) => {
     if (currentIndex >= availableProfiles.length) {
       return (
         <View style={styles.emptyContainer}>
-          <Text style={styles.emptyText}>Plus de profils disponibles !</Text>
+          <Text style={styles.emptyText}>{t.select.noMoreProfiles}</Text>
           <TouchableOpacity
             style={styles.resetButton}
             onPress={resetAllSwipes}
           >
-            <Text style={styles.resetButtonText}>Recommencer</Text>
+            <Text style={styles.resetButtonText}>{t.select.restart}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.createButton}
+            onPress={() => onEditProfile()}
+          >
+            <Text style={styles.createButtonText}>{t.select.createCharacter}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.createButton}
+            onPress={onGenerateProfile}
+          >
+            <Text style={styles.createButtonText}>{t.select.generateCharacter}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.createButton}
+            onPress={importProfileFile}
+          >
+            <Text style={styles.createButtonText}>{t.select.importCharacter}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.createButton}
+            onPress={onEditPreferences}
+          >
+            <Text style={styles.createButtonText}>{t.preferences.open}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.createButton}
+            onPress={openSettings}
+          >
+            <Text style={styles.createButtonText}>{t.settings.title}</Text>
           </TouchableOpacity>
         </View>
       );
@@ -362,12 +630,46 @@ const CharacterSelect: React.FC<Props> = ({ onSelectCharacter }) => {
 
     return (
       <>
+        <View style={styles.createButtonTop}>
+          <TouchableOpacity
+            style={styles.createButton}
+            onPress={() => onEditProfile()}
+          >
+            <Text style={styles.createButtonText}>{t.select.create}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.createButton}
+            onPress={onGenerateProfile}
+          >
+            <Text style={styles.createButtonText}>{t.select.generate}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.createButton}
+            onPress={importProfileFile}
+          >
+            <Text style={styles.createButtonText}>{t.select.import}</Text>
+          </TouchableOpacity>
+        </View>
         <View style={styles.resetButtonTop}>
           <TouchableOpacity
             style={styles.resetAllButton}
             onPress={resetAllData}
           >
-            <Text style={styles.resetAllButtonText}>🔄 Réinitialiser tout</Text>
+            <Text style={styles.resetAllButtonText}>{t.select.resetAll}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            accessibilityRole="button"
+            style={styles.resetAllButton}
+            onPress={onEditPreferences}
+          >
+            <Text style={styles.resetAllButtonText}>{t.preferences.open}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            accessibilityRole="button"
+            style={styles.resetAllButton}
+            onPress={openSettings}
+          >
+            <Text style={styles.resetAllButtonText}>{t.settings.title}</Text>
           </TouchableOpacity>
         </View>
         <View style={styles.cardsContainer}>
@@ -379,25 +681,31 @@ const CharacterSelect: React.FC<Props> = ({ onSelectCharacter }) => {
 
   return (
     <View style={styles.screen}>
-      {activeTab === 'swipe' ? (
-        renderSwipeContent()
-      ) : (
-        <ConversationList onSelectConversation={onSelectCharacter} />
-      )}
+      {activeTab === 'swipe' && renderSwipeContent()}
+      {activeTab === 'messages' && <ConversationList onSelectConversation={onSelectCharacter} />}
+      {activeTab === 'daily' && <DailyChallengeTab onPlay={onPlayDaily} />}
 
       <View style={styles.tabBarContainer}>
+        {/* Progression relue à chaque retour sur l'écran, avec le deck */}
+        {activeTab === 'swipe' && <LevelCard xp={campaign.xp} />}
         <View style={styles.tabBar}>
           <TouchableOpacity
             style={[styles.tabItem, activeTab === 'swipe' && styles.tabItemActive]}
             onPress={() => setActiveTab('swipe')}
           >
-            <Text style={[styles.tabLabel, activeTab === 'swipe' && styles.tabLabelActive]}>Swipe</Text>
+            <Text style={[styles.tabLabel, activeTab === 'swipe' && styles.tabLabelActive]}>{t.select.tabSwipe}</Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={[styles.tabItem, activeTab === 'messages' && styles.tabItemActive]}
             onPress={() => setActiveTab('messages')}
           >
-            <Text style={[styles.tabLabel, activeTab === 'messages' && styles.tabLabelActive]}>Messages</Text>
+            <Text style={[styles.tabLabel, activeTab === 'messages' && styles.tabLabelActive]}>{t.select.tabMessages}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.tabItem, activeTab === 'daily' && styles.tabItemActive]}
+            onPress={() => setActiveTab('daily')}
+          >
+            <Text style={[styles.tabLabel, activeTab === 'daily' && styles.tabLabelActive]}>{t.select.tabDaily}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -416,6 +724,42 @@ const styles = StyleSheet.create({
     top: 50,
     right: 16,
     zIndex: 100,
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  createButtonTop: {
+    position: 'absolute',
+    top: 50,
+    left: 16,
+    zIndex: 100,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  createButton: {
+    backgroundColor: '#0ea5e9',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+  },
+  createButtonText: {
+    color: '#fff',
+    fontWeight: '700',
+    fontSize: 13,
+  },
+  shareBadge: {
+    marginLeft: 'auto',
+  },
+  editBadge: {
+    marginRight: 8,
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+  },
+  editBadgeText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#fff',
   },
   resetAllButton: {
     backgroundColor: '#ef4444',
@@ -485,6 +829,27 @@ const styles = StyleSheet.create({
     fontWeight: '800',
     color: '#fff',
   },
+  lockedContent: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 12,
+  },
+  lockedIcon: {
+    fontSize: 56,
+  },
+  lockedName: {
+    fontSize: 28,
+    fontWeight: '900',
+    color: '#fff',
+  },
+  lockedHint: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+    textAlign: 'center',
+  },
   difficultyBadge: {
     paddingVertical: 5,
     paddingHorizontal: 10,
@@ -508,6 +873,84 @@ const styles = StyleSheet.create({
     color: 'rgba(255,255,255,0.9)',
     lineHeight: 20,
   },
+  age: {
+    fontWeight: '400',
+  },
+  city: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.85)',
+    marginBottom: 4,
+  },
+  photoBars: {
+    position: 'absolute',
+    top: 10,
+    left: 12,
+    right: 12,
+    flexDirection: 'row',
+    gap: 4,
+  },
+  photoBar: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255,255,255,0.35)',
+  },
+  photoBarActive: {
+    backgroundColor: '#fff',
+  },
+  details: {
+    maxHeight: SCREEN_HEIGHT * 0.32,
+    marginTop: 8,
+  },
+  detailsContent: {
+    gap: 8,
+  },
+  detailsTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: 'rgba(255,255,255,0.7)',
+    textTransform: 'uppercase',
+  },
+  interests: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  interest: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+  },
+  interestText: {
+    fontSize: 13,
+    color: '#fff',
+  },
+  prompt: {
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.12)',
+  },
+  promptQuestion: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: 'rgba(255,255,255,0.75)',
+    marginBottom: 4,
+  },
+  promptAnswer: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  detailsToggle: {
+    alignSelf: 'flex-start',
+    marginTop: 8,
+  },
+  detailsToggleText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#fff',
+  },
   likeLabel: {
     position: 'absolute',
     top: 40,
@@ -573,6 +1016,7 @@ const styles = StyleSheet.create({
     bottom: 24,
     left: 16,
     right: 16,
+    gap: 8,
   },
   tabBar: {
     flexDirection: 'row',
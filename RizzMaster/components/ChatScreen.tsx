@@ -1,7 +1,6 @@
-import { useCallback, useMemo, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
-  Image,
   KeyboardAvoidingView,
   NativeScrollEvent,
   NativeSyntheticEvent,
@@ -16,34 +15,108 @@ import {
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { LinearGradient } from 'expo-linear-gradient';
 import { CharacterProfile } from '../types/character';
+import { Message } from '../types/chat';
+import Avatar from './Avatar';
+import GameDebrief from './GameDebrief';
 import GameResultScreen from './GameResultScreen';
-import { useGameState } from '../hooks/useGameState';
-import { useChat, parseAssistantMessage } from '../hooks/useChat';
-import { avatars } from './CharacterSelect';
+import { GameSession, useGameState } from '../hooks/useGameState';
+import { useChat, parseAssistantMessage, splitBubbles } from '../hooks/useChat';
+import { useReplyTimer } from '../hooks/useReplyTimer';
+import { useCoach } from '../hooks/useCoach';
+import { CoachVerdict } from '../services/coach';
+import { DailyChallenge, recordDailyResult } from '../services/dailyChallenge';
+import { summarizeTriggeredFlags } from '../services/flags';
+import { getScoringRules } from '../services/gameRules';
+import { getAvatar } from '../services/profiles';
+import { localizeProfile } from '../services/profileLocale';
+import { useI18n } from '../i18n';
 
 const MATCHED_PROFILES_KEY = 'rizzmaster_matched_profiles';
 
+const getCoachColor = (verdict: CoachVerdict): string => {
+  switch (verdict) {
+    case 'good':
+      return '#15803d';
+    case 'risky':
+      return '#dc2626';
+    default:
+      return '#6b7280';
+  }
+};
+
 type Props = {
   onBack?: () => void;
   profile: CharacterProfile;
+  daily?: DailyChallenge; // played as the daily challenge, apart from the regular conversation
 };
 
-const ChatScreen: React.FC<Props> = ({ onBack, profile }) => {
+const ChatScreen: React.FC<Props> = ({ onBack, profile: selectedProfile, daily }) => {
+  const { locale, t } = useI18n();
+  const profile = useMemo(() => localizeProfile(selectedProfile, locale), [selectedProfile, locale]);
+  const session = useMemo<GameSession | undefined>(
+    () => daily && { id: `daily_${daily.date}`, scenario: daily.scenario },
+    [daily]
+  );
   const [input, setInput] = useState('');
   const scrollRef = useRef<ScrollView | null>(null);
   const [isAtBottom, setIsAtBottom] = useState(true);
+  const [coachEnabled, setCoachEnabled] = useState(false);
+  const [showDebrief, setShowDebrief] = useState(false);
 
-  const { flagStats, gameStatus, updateFlags, resetGameState } = useGameState(profile);
+  const {
+    flagStats,
+    gameStatus,
+    reward,
+    ghosted,
+    coached,
+    updateFlags,
+    registerGhosting,
+    markCoached,
+    resetGameState,
+  } = useGameState(profile, session);
 
   const {
     messages,
     sending,
+    typingLines,
     loadingPrompt,
     promptError,
     networkError,
+    timedMode,
     sendMessage,
+    resendMessage,
     resetChat,
-  } = useChat(profile, flagStats, gameStatus, updateFlags);
+  } = useChat(profile, flagStats, gameStatus, updateFlags, session);
+
+  const replyTimer = useReplyTimer({
+    enabled: timedMode,
+    messages,
+    flagStats,
+    gameStatus,
+    onGhosted: registerGhosting,
+  });
+
+  const coach = useCoach({
+    enabled: coachEnabled && gameStatus === null && !sending,
+    profile,
+    messages,
+    draft: input,
+    locale,
+    onTip: markCoached,
+  });
+
+  // Le défi du jour se joue une fois : son résultat est remplacé tant que la partie évolue
+  useEffect(() => {
+    if (!daily || !gameStatus) {
+      return;
+    }
+    recordDailyResult(daily, profile, {
+      won: gameStatus === 'GAME_WON',
+      exchanges: messages.filter((msg) => msg.role === 'user' && !msg.failed).length,
+      stats: flagStats,
+      coached,
+    });
+  }, [daily, gameStatus, profile, messages, flagStats, coached]);
 
   const hasContent = messages.length > 0;
   const isSendDisabled = sending || loadingPrompt || !input.trim() || gameStatus !== null;
@@ -54,31 +127,56 @@ const ChatScreen: React.FC<Props> = ({ onBack, profile }) => {
     setInput('');
   }, [input, isSendDisabled, sendMessage]);
 
-  const renderMessage = useCallback((message: { role: 'user' | 'assistant'; content: string }, index: number) => {
-    const isUser = message.role === 'user';
-    const prettyText = isUser ? message.content : parseAssistantMessage(message.content);
-
-    return (
-      <View
-        key={`${message.role}-${index}`}
-        style={[styles.bubble, isUser ? styles.userBubble : styles.assistantBubble]}
-      >
+  const renderBubble = useCallback((isUser: boolean, text: string, key: string, showLabel: boolean) => (
+    <View
+      key={key}
+      style={[styles.bubble, isUser ? styles.userBubble : styles.assistantBubble]}
+    >
+      {showLabel && (
         <Text style={[styles.bubbleLabel, isUser ? styles.userBubbleLabel : styles.assistantBubbleLabel]}>
-          {isUser ? 'Toi' : profile.name}
-        </Text>
-        <Text style={[styles.bubbleText, isUser ? styles.userBubbleText : styles.assistantBubbleText]}>
-          {prettyText}
+          {isUser ? t.common.you : profile.name}
         </Text>
-      </View>
+      )}
+      <Text style={[styles.bubbleText, isUser ? styles.userBubbleText : styles.assistantBubbleText]}>
+        {text}
+      </Text>
+    </View>
+  ), [profile.name, t]);
+
+  const renderMessage = useCallback((message: Message, index: number) => {
+    if (message.role === 'user' && message.failed) {
+      return (
+        <TouchableOpacity
+          key={`user-${index}`}
+          accessibilityRole="button"
+          accessibilityLabel={t.chat.resend}
+          onPress={resendMessage}
+          disabled={sending}
+          style={styles.failedMessage}
+        >
+          {renderBubble(true, message.content, `user-${index}-bubble`, true)}
+          <Text style={styles.failedLabel}>{t.chat.notSent}</Text>
+        </TouchableOpacity>
+      );
+    }
+    if (message.role === 'user') {
+      return renderBubble(true, message.content, `user-${index}`, true);
+    }
+
+    // Le personnage peut envoyer plusieurs messages d'affilée : une bulle par ligne
+    const lines = splitBubbles(parseAssistantMessage(message.content));
+    return lines.map((line, lineIndex) =>
+      renderBubble(false, line, `assistant-${index}-${lineIndex}`, lineIndex === 0)
     );
-  }, [profile.name]);
+  }, [renderBubble, resendMessage, sending, t]);
 
   const helperText = useMemo(() => {
     if (promptError) return promptError;
-    if (loadingPrompt) return 'Chargement du script...';
-    if (!hasContent) return 'Commence la discussion en écrivant ton premier message.';
+    if (loadingPrompt) return t.chat.loadingScript;
+    // Le personnage peut être en train d'écrire le premier message
+    if (!hasContent && !sending) return t.chat.start;
     return null;
-  }, [hasContent, loadingPrompt, promptError]);
+  }, [hasContent, loadingPrompt, promptError, sending, t]);
 
   const handleScroll = useCallback((event: NativeSyntheticEvent<NativeScrollEvent>) => {
     const { layoutMeasurement, contentOffset, contentSize } = event.nativeEvent;
@@ -89,6 +187,7 @@ const ChatScreen: React.FC<Props> = ({ onBack, profile }) => {
   const showScrollDownButton = !isAtBottom && messages.length > 0;
 
   const resetGame = useCallback(async () => {
+    setShowDebrief(false);
     await resetChat();
     await resetGameState();
   }, [resetChat, resetGameState]);
@@ -112,12 +211,14 @@ const ChatScreen: React.FC<Props> = ({ onBack, profile }) => {
     onBack?.();
   }, [resetGame, onBack, profile.id]);
 
+  // Le centre de la jauge est un score nul ; chaque bord correspond au seuil
+  // de victoire ou de défaite du profil.
   const indicatorPosition = useMemo(() => {
-    const balance = flagStats.green - flagStats.red;
-    const maxRange = 5;
-    const percentage = 50 + (balance / maxRange) * 50;
+    const { winPoints, losePoints } = getScoringRules(profile);
+    const range = flagStats.score >= 0 ? winPoints : losePoints;
+    const percentage = 50 + (flagStats.score / Math.max(range, 1)) * 50;
     return Math.max(0, Math.min(100, percentage));
-  }, [flagStats.green, flagStats.red]);
+  }, [flagStats.score, profile]);
 
   const indicatorColor = useMemo(() => {
     if (indicatorPosition < 33) return '#ef4444';
@@ -138,21 +239,42 @@ const ChatScreen: React.FC<Props> = ({ onBack, profile }) => {
           greenFlags={flagStats.green}
           redFlags={flagStats.red}
           hardNo={flagStats.hardNo}
-          onPlayAgain={handlePlayAgain}
+          ghosted={ghosted}
+          coached={coached}
+          triggeredFlags={summarizeTriggeredFlags(messages, profile)}
+          reward={reward}
+          onShowDebrief={() => setShowDebrief(true)}
+          onPlayAgain={daily ? undefined : handlePlayAgain}
           onBackToMenu={handleBackToMenu}
         />
       )}
 
+      {gameStatus && showDebrief && (
+        <GameDebrief profile={profile} messages={messages} onClose={() => setShowDebrief(false)} />
+      )}
+
       <View style={styles.header}>
         {onBack && (
           <TouchableOpacity accessibilityRole="button" onPress={onBack} style={styles.backButton}>
             <Text style={styles.backLabel}>←</Text>
           </TouchableOpacity>
         )}
-        <Image source={avatars[profile.avatarKey]} style={styles.headerAvatar} />
+        <Avatar avatar={getAvatar(profile)} style={styles.headerAvatar} />
         <Text style={styles.title}>{profile.name}</Text>
+        <TouchableOpacity
+          accessibilityRole="switch"
+          accessibilityState={{ checked: coachEnabled }}
+          onPress={() => setCoachEnabled((prev) => !prev)}
+          style={[styles.coachToggle, coachEnabled && styles.coachToggleOn]}
+        >
+          <Text style={[styles.coachToggleLabel, coachEnabled && styles.coachToggleLabelOn]}>
+            {coachEnabled ? t.chat.coachOn : t.chat.coachOff}
+          </Text>
+        </TouchableOpacity>
       </View>
 
+      {daily && <Text style={styles.dailyBanner}>{t.daily.banner(t.daily.scenarios[daily.scenario])}</Text>}
+
       <View style={styles.flagsBar}>
         <View style={styles.gaugeContainer}>
           <View style={styles.gaugeTrack}>
@@ -199,10 +321,13 @@ const ChatScreen: React.FC<Props> = ({ onBack, profile }) => {
           ) : (
             messages.map(renderMessage)
           )}
+          {typingLines.map((line, lineIndex) =>
+            renderBubble(false, line, `typing-${lineIndex}`, lineIndex === 0)
+          )}
           {sending && (
             <View style={styles.loadingRow}>
               <ActivityIndicator size="small" color="#0ea5e9" />
-              <Text style={styles.loadingText}>{profile.name} écrit...</Text>
+              <Text style={styles.loadingText}>{t.chat.typing(profile.name)}</Text>
             </View>
           )}
         </ScrollView>
@@ -213,16 +338,29 @@ const ChatScreen: React.FC<Props> = ({ onBack, profile }) => {
             onPress={() => scrollRef.current?.scrollToEnd({ animated: true })}
             style={styles.toBottom}
           >
-            <Text style={styles.toBottomLabel}>Retour en bas</Text>
+            <Text style={styles.toBottomLabel}>{t.chat.toBottom}</Text>
           </TouchableOpacity>
         )}
 
         {networkError && <Text style={styles.errorText}>{networkError}</Text>}
 
+        {replyTimer.active && !sending && (
+          <Text style={[styles.timerText, replyTimer.late && styles.timerLate]}>
+            {replyTimer.late ? t.chat.timerLate : t.chat.timer(Math.ceil(replyTimer.remainingMs / 1000))}
+          </Text>
+        )}
+
+        {coach.reviewing && <Text style={styles.coachText}>{t.chat.coachReviewing}</Text>}
+        {coach.tip && !coach.reviewing && (
+          <Text style={[styles.coachText, styles.coachTip, { color: getCoachColor(coach.tip.verdict) }]}>
+            🎓 {coach.tip.text}
+          </Text>
+        )}
+
         <View style={styles.inputRow}>
           <TextInput
             multiline
-            placeholder={loadingPrompt ? 'Chargement...' : 'Écris ton message ici...'}
+            placeholder={loadingPrompt ? t.common.loading : t.chat.placeholder}
             placeholderTextColor="#9ca3af"
             style={styles.input}
             value={input}
@@ -235,7 +373,7 @@ const ChatScreen: React.FC<Props> = ({ onBack, profile }) => {
             disabled={isSendDisabled}
             style={[styles.sendButton, isSendDisabled && styles.sendDisabled]}
           >
-            <Text style={styles.sendLabel}>{sending ? '...' : 'Envoyer'}</Text>
+            <Text style={styles.sendLabel}>{sending ? '...' : t.chat.send}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -314,6 +452,16 @@ const styles = StyleSheet.create({
     alignSelf: 'flex-end',
     backgroundColor: '#0ea5e9',
   },
+  failedMessage: {
+    alignSelf: 'stretch',
+    alignItems: 'flex-end',
+    opacity: 0.7,
+  },
+  failedLabel: {
+    marginTop: 4,
+    color: '#ef4444',
+    fontSize: 12,
+  },
   assistantBubble: {
     alignSelf: 'flex-start',
     backgroundColor: '#f3f4f6',
@@ -354,6 +502,44 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontSize: 13,
   },
+  timerText: {
+    marginTop: 8,
+    color: '#0ea5e9',
+    textAlign: 'center',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  timerLate: {
+    color: '#f97316',
+  },
+  coachToggle: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  coachToggleOn: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  coachToggleLabel: {
+    color: '#6b7280',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  coachToggleLabelOn: {
+    color: '#fff',
+  },
+  coachText: {
+    marginTop: 8,
+    color: '#6b7280',
+    textAlign: 'center',
+    fontSize: 13,
+  },
+  coachTip: {
+    fontWeight: '600',
+  },
   inputRow: {
     marginTop: 10,
     flexDirection: 'row',
@@ -407,6 +593,15 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontSize: 12,
   },
+  dailyBanner: {
+    backgroundColor: '#e0f2fe',
+    color: '#0369a1',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 13,
+    fontWeight: '600',
+  },
   flagsBar: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -1,7 +1,6 @@
 import React, { useCallback, useEffect, useState } from 'react';
 import {
   Dimensions,
-  Image,
   ScrollView,
   StyleSheet,
   Text,
@@ -11,24 +10,14 @@ import {
 import { useFocusEffect } from '@react-navigation/native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { CharacterProfile } from '../types/character';
+import Avatar from './Avatar';
 import { parseAssistantMessage } from '../hooks/useChat';
-
-const profiles: CharacterProfile[] = [
-  require('../data/profiles/chloe_spontanee.json'),
-  require('../data/profiles/fanny_douce.json'),
-  require('../data/profiles/kilian_bobo.json'),
-  require('../data/profiles/louis_charo.json'),
-];
-
-const avatars: { [key: string]: any } = {
-  chloe_avatar: require('../assets/chloeimg.jpg'),
-  fanny_avatar: require('../assets/fannyimg.jpg'),
-  kilian_avatar: require('../assets/kilianimg.jpeg'),
-  louis_avatar: require('../assets/louisimg.webp'),
-};
+import { getAvatar, getProfiles, loadCustomProfiles } from '../services/profiles';
+import { useI18n } from '../i18n';
 
 const CHAT_STORAGE_KEY_PREFIX = 'rizzmaster_chat_';
 const FLAGS_STORAGE_KEY_PREFIX = 'rizzmaster_flags_';
+const SUMMARY_STORAGE_KEY_PREFIX = 'rizzmaster_summary_';
 const MATCHED_PROFILES_KEY = 'rizzmaster_matched_profiles';
 
 type Props = {
@@ -46,12 +35,14 @@ type ConversationPreview = {
 const ConversationList: React.FC<Props> = ({ onSelectConversation }) => {
   const [conversations, setConversations] = useState<ConversationPreview[]>([]);
   const [loading, setLoading] = useState(true);
+  const { locale, t } = useI18n();
 
   const loadConversations = useCallback(async () => {
     try {
       const convos: ConversationPreview[] = [];
+      await loadCustomProfiles();
 
-      for (const profile of profiles) {
+      for (const profile of getProfiles()) {
         const key = `${CHAT_STORAGE_KEY_PREFIX}${profile.id}`;
         const raw = await AsyncStorage.getItem(key);
 
@@ -80,15 +71,18 @@ const ConversationList: React.FC<Props> = ({ onSelectConversation }) => {
     } finally {
       setLoading(false);
     }
-  }, []);
+    // getProfiles() suit la langue : la liste est rechargée quand elle change
+  }, [locale]);
 
   const deleteConversation = useCallback(async (profileId: string) => {
     try {
       const chatKey = `${CHAT_STORAGE_KEY_PREFIX}${profileId}`;
       const flagsKey = `${FLAGS_STORAGE_KEY_PREFIX}${profileId}`;
+      const summaryKey = `${SUMMARY_STORAGE_KEY_PREFIX}${profileId}`;
       await Promise.all([
         AsyncStorage.removeItem(chatKey),
         AsyncStorage.removeItem(flagsKey),
+        AsyncStorage.removeItem(summaryKey),
       ]);
       const matchedData = await AsyncStorage.getItem(MATCHED_PROFILES_KEY);
       if (matchedData) {
@@ -112,7 +106,7 @@ const ConversationList: React.FC<Props> = ({ onSelectConversation }) => {
   if (loading) {
     return (
       <View style={styles.container}>
-        <Text style={styles.loadingText}>Chargement...</Text>
+        <Text style={styles.loadingText}>{t.common.loading}</Text>
       </View>
     );
   }
@@ -120,12 +114,12 @@ const ConversationList: React.FC<Props> = ({ onSelectConversation }) => {
   if (conversations.length === 0) {
     return (
       <View style={styles.container}>
-        <Text style={styles.title}>Messages</Text>
+        <Text style={styles.title}>{t.conversations.title}</Text>
         <View style={styles.emptyContainer}>
           <View style={styles.emptyCard}>
-            <Text style={styles.emptyTitle}>Pas encore de matchs</Text>
+            <Text style={styles.emptyTitle}>{t.conversations.emptyTitle}</Text>
             <Text style={styles.emptyText}>
-              Swipe à droite sur quelqu'un qui te plaît pour commencer à discuter !
+              {t.conversations.emptyText}
             </Text>
           </View>
         </View>
@@ -135,7 +129,7 @@ const ConversationList: React.FC<Props> = ({ onSelectConversation }) => {
 
   return (
     <View style={styles.container}>
-      <Text style={styles.title}>Messages</Text>
+      <Text style={styles.title}>{t.conversations.title}</Text>
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
         {conversations.map((convo) => (
           <TouchableOpacity
@@ -144,8 +138,8 @@ const ConversationList: React.FC<Props> = ({ onSelectConversation }) => {
             onPress={() => onSelectConversation(convo.profile)}
             activeOpacity={0.8}
           >
-            <Image
-              source={avatars[convo.profile.avatarKey]}
+            <Avatar
+              avatar={getAvatar(convo.profile)}
               style={[styles.avatar, convo.hasUnread && styles.avatarUnread]}
             />
 
@@ -154,12 +148,12 @@ const ConversationList: React.FC<Props> = ({ onSelectConversation }) => {
                 <Text style={[styles.name, convo.hasUnread && styles.nameUnread]}>{convo.profile.name}</Text>
                 {convo.hasUnread && (
                   <View style={styles.newBadge}>
-                    <Text style={styles.newBadgeText}>NEW</Text>
+                    <Text style={styles.newBadgeText}>{t.conversations.newBadge}</Text>
                   </View>
                 )}
               </View>
               <Text style={[styles.lastMessage, convo.hasUnread && styles.lastMessageUnread]} numberOfLines={1}>
-                {convo.isFromUser ? 'Toi: ' : `${convo.profile.name}: `}{convo.lastMessage}
+                {convo.isFromUser ? t.conversations.youPrefix : `${convo.profile.name}: `}{convo.lastMessage}
               </Text>
             </View>
 
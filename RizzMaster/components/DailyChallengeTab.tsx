@@ -0,0 +1,292 @@
+import React, { useCallback, useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { CharacterProfile } from '../types/character';
+import Avatar from './Avatar';
+import { getDifficultyColor, getDifficultyLabel } from './CharacterSelect';
+import {
+  buildLeaderboard,
+  DailyChallenge,
+  DailyResult,
+  getDailyResult,
+  getStreaks,
+  getTodayChallenge,
+  loadDailyResults,
+} from '../services/dailyChallenge';
+import { getAvatar, getProfiles, loadCustomProfiles } from '../services/profiles';
+import { useI18n } from '../i18n';
+
+type Props = {
+  onPlay: (profile: CharacterProfile, challenge: DailyChallenge) => void;
+};
+
+const DailyChallengeTab: React.FC<Props> = ({ onPlay }) => {
+  const { locale, t } = useI18n();
+  const [loading, setLoading] = useState(true);
+  const [challenge, setChallenge] = useState<DailyChallenge | null>(null);
+  const [profile, setProfile] = useState<CharacterProfile | null>(null);
+  const [results, setResults] = useState<DailyResult[]>([]);
+
+  const loadChallenge = useCallback(async () => {
+    try {
+      await loadCustomProfiles();
+      const profiles = getProfiles();
+      const [today, saved] = await Promise.all([
+        getTodayChallenge(profiles, t.daily.scenarios.length),
+        loadDailyResults(),
+      ]);
+      setChallenge(today);
+      setProfile(profiles.find((candidate) => candidate.id === today?.profileId) ?? null);
+      setResults(saved);
+    } catch (error) {
+      console.warn('Error loading daily challenge:', error);
+    } finally {
+      setLoading(false);
+    }
+    // getProfiles() suit la langue : le défi est rechargé quand elle change
+  }, [locale, t]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadChallenge();
+    }, [loadChallenge])
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.loadingText}>{t.common.loading}</Text>
+      </View>
+    );
+  }
+
+  const todayResult = challenge ? getDailyResult(results, challenge.date) : undefined;
+  const streaks = getStreaks(results);
+  const leaderboard = buildLeaderboard(results);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{t.daily.title}</Text>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        {challenge && profile ? (
+          <View style={styles.challengeCard}>
+            <View style={styles.profileRow}>
+              <Avatar avatar={getAvatar(profile)} style={styles.avatar} />
+              <View style={styles.profileInfo}>
+                <Text style={styles.name}>
+                  {profile.name}{profile.age !== undefined ? `, ${profile.age}` : ''}
+                </Text>
+                <Text style={styles.archetype}>{profile.personality.archetype}</Text>
+              </View>
+              <View style={[styles.difficultyBadge, { backgroundColor: getDifficultyColor(profile.difficulty.level) }]}>
+                <Text style={styles.difficultyText}>{getDifficultyLabel(profile.difficulty.level)}</Text>
+              </View>
+            </View>
+            <Text style={styles.scenarioLabel}>{t.daily.scenarioLabel}</Text>
+            <Text style={styles.scenarioText}>{t.daily.scenarios[challenge.scenario]}</Text>
+
+            {todayResult ? (
+              <View style={styles.doneContainer}>
+                <Text style={[styles.doneTitle, todayResult.won ? styles.wonText : styles.lostText]}>
+                  {todayResult.won ? t.daily.doneWon : t.daily.doneLost}
+                </Text>
+                {todayResult.coached && <Text style={styles.mutedText}>{t.daily.coached}</Text>}
+                <Text style={styles.mutedText}>{t.daily.comeBack}</Text>
+              </View>
+            ) : (
+              <TouchableOpacity
+                accessibilityRole="button"
+                style={styles.playButton}
+                onPress={() => onPlay(profile, challenge)}
+              >
+                <Text style={styles.playButtonText}>{t.daily.play}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ) : (
+          <Text style={styles.mutedText}>{t.daily.noProfile}</Text>
+        )}
+
+        <View style={styles.streakRow}>
+          <Text style={styles.streakText}>{t.daily.streak(streaks.current)}</Text>
+          <Text style={styles.mutedText}>{t.daily.bestStreak(streaks.best)}</Text>
+        </View>
+
+        <Text style={styles.sectionTitle}>{t.daily.leaderboard}</Text>
+        {leaderboard.length === 0 ? (
+          <Text style={styles.mutedText}>{t.daily.emptyLeaderboard}</Text>
+        ) : (
+          leaderboard.map((result, index) => (
+            <View key={result.date} style={styles.entry}>
+              <Text style={styles.rank}>{index + 1}</Text>
+              <View style={styles.entryInfo}>
+                <Text style={styles.entryName}>{result.profileName}</Text>
+                <Text style={styles.mutedText}>
+                  {t.daily.entry({ date: result.date, exchanges: result.exchanges, green: result.green, red: result.red })}
+                </Text>
+              </View>
+              <Text style={[styles.entryOutcome, result.won ? styles.wonText : styles.lostText]}>
+                {result.won ? t.daily.won : t.daily.lost}
+              </Text>
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+export default DailyChallengeTab;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingBottom: 80,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 16,
+  },
+  loadingText: {
+    fontSize: 15,
+    color: '#9ca3af',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  challengeCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    gap: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  profileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    marginRight: 12,
+  },
+  profileInfo: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  archetype: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  difficultyBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  difficultyText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  scenarioLabel: {
+    marginTop: 4,
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#374151',
+  },
+  scenarioText: {
+    fontSize: 15,
+    lineHeight: 21,
+    color: '#111827',
+  },
+  playButton: {
+    marginTop: 8,
+    backgroundColor: '#0ea5e9',
+    paddingVertical: 12,
+    borderRadius: 18,
+    alignItems: 'center',
+  },
+  playButtonText: {
+    color: '#fff',
+    fontWeight: '800',
+    fontSize: 15,
+  },
+  doneContainer: {
+    marginTop: 8,
+    alignItems: 'center',
+    gap: 4,
+  },
+  doneTitle: {
+    fontSize: 16,
+    fontWeight: '800',
+  },
+  wonText: {
+    color: '#15803d',
+  },
+  lostText: {
+    color: '#dc2626',
+  },
+  mutedText: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  streakRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  streakText: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#f97316',
+  },
+  sectionTitle: {
+    marginTop: 20,
+    marginBottom: 10,
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    padding: 12,
+    marginBottom: 8,
+    gap: 12,
+  },
+  rank: {
+    width: 24,
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#0ea5e9',
+    textAlign: 'center',
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  entryOutcome: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,358 @@
+import React, { useMemo } from 'react';
+import { ScrollView, StyleSheet, Text, TextStyle, TouchableOpacity, View } from 'react-native';
+import { CharacterProfile } from '../types/character';
+import { Message } from '../types/chat';
+import { parseAssistantMessage, splitBubbles } from '../hooks/useChat';
+import { buildBalanceTimeline, FlagKind, summarizeTriggeredFlags, TurnBalance } from '../services/flags';
+import { getScoringRules } from '../services/gameRules';
+import { getFlagIcon } from './GameResultScreen';
+import { useI18n } from '../i18n';
+
+type Props = {
+  profile: CharacterProfile;
+  messages: Message[];
+  onClose: () => void;
+};
+
+const CHART_HEIGHT = 140;
+const HIDDEN_FLAG_KINDS: FlagKind[] = ['green', 'red', 'hardNo'];
+
+/**
+ * End of game debrief: the balance after each turn, the transcript with the
+ * flags each player message triggered, then every flag of the profile.
+ * Only shown once the game is over.
+ */
+const GameDebrief: React.FC<Props> = ({ profile, messages, onClose }) => {
+  const { t } = useI18n();
+  const timeline = useMemo(() => buildBalanceTimeline(messages, profile), [messages, profile]);
+  const turnsByMessage = useMemo(
+    () => new Map(timeline.map((turn, index) => [turn.messageIndex, { ...turn, number: index + 1 }])),
+    [timeline]
+  );
+  const triggeredCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    summarizeTriggeredFlags(messages, profile).forEach((flag) => counts.set(`${flag.kind}:${flag.index}`, flag.count));
+    return counts;
+  }, [messages, profile]);
+
+  // Le graphique est centré sur un score nul et couvre au moins les deux seuils
+  const { winPoints, losePoints } = getScoringRules(profile);
+  const scale = Math.max(winPoints, losePoints, ...timeline.map((turn) => Math.abs(turn.score)), 1);
+  const offsetOf = (score: number) => (score / scale) * (CHART_HEIGHT / 2);
+
+  const hiddenTitles: Record<FlagKind, string> = {
+    green: t.debrief.green,
+    red: t.debrief.red,
+    hardNo: t.debrief.hardNo,
+  };
+
+  const flagStyles: Record<FlagKind, TextStyle> = {
+    green: styles.greenFlag,
+    red: styles.redFlag,
+    hardNo: styles.hardNoFlag,
+  };
+
+  const renderTurnFlags = (turn: TurnBalance & { number: number }) => (
+    <View style={styles.turnFlags}>
+      {turn.flags.map((flag) => (
+        <Text key={`${flag.kind}-${flag.index}`} style={[styles.turnFlag, flagStyles[flag.kind]]}>
+          {getFlagIcon(flag.kind)} {flag.text}
+        </Text>
+      ))}
+      {turn.penalty > 0 && <Text style={[styles.turnFlag, styles.redFlag]}>{t.debrief.penalty(turn.penalty)}</Text>}
+      {turn.flags.length === 0 && turn.penalty === 0 && <Text style={styles.turnNoFlag}>{t.debrief.noFlag}</Text>}
+      <Text style={styles.turnScore}>
+        {t.debrief.turn(turn.number)} · {t.debrief.score(turn.score.toFixed(1))}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.overlay}>
+      <View style={styles.sheet}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t.debrief.title}</Text>
+          <TouchableOpacity accessibilityRole="button" onPress={onClose}>
+            <Text style={styles.closeLabel}>{t.debrief.close}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          {timeline.length > 0 && (
+            <View>
+              <Text style={styles.sectionTitle}>{t.debrief.balance}</Text>
+              <View style={styles.chart}>
+                <View style={[styles.threshold, styles.winThreshold, { top: CHART_HEIGHT / 2 - offsetOf(winPoints) }]}>
+                  <Text style={[styles.thresholdLabel, styles.winLabel]}>{t.debrief.winLine}</Text>
+                </View>
+                <View style={[styles.threshold, styles.loseThreshold, { top: CHART_HEIGHT / 2 + offsetOf(losePoints) }]}>
+                  <Text style={[styles.thresholdLabel, styles.loseLabel]}>{t.debrief.loseLine}</Text>
+                </View>
+                <View style={[styles.zeroLine, { top: CHART_HEIGHT / 2 }]} />
+                {timeline.map((turn) => (
+                  <View key={turn.messageIndex} style={styles.barSlot}>
+                    <View style={styles.barHalf}>
+                      {turn.score > 0 && <View style={[styles.bar, styles.positiveBar, { height: offsetOf(turn.score) }]} />}
+                    </View>
+                    <View style={[styles.barHalf, styles.negativeHalf]}>
+                      {turn.score < 0 && <View style={[styles.bar, styles.negativeBar, { height: -offsetOf(turn.score) }]} />}
+                    </View>
+                  </View>
+                ))}
+              </View>
+              <View style={styles.chartAxis}>
+                {timeline.map((turn, index) => (
+                  <Text key={turn.messageIndex} style={styles.axisLabel}>{t.debrief.turn(index + 1)}</Text>
+                ))}
+              </View>
+            </View>
+          )}
+
+          <Text style={styles.sectionTitle}>{t.debrief.transcript}</Text>
+          {messages.map((message, index) => {
+            if (message.role === 'assistant') {
+              return (
+                <View key={`assistant-${index}`} style={[styles.bubble, styles.assistantBubble]}>
+                  <Text style={styles.bubbleLabel}>{profile.name}</Text>
+                  <Text style={styles.bubbleText}>{splitBubbles(parseAssistantMessage(message.content)).join('\n')}</Text>
+                </View>
+              );
+            }
+            const turn = turnsByMessage.get(index);
+            if (!turn) return null;
+            return (
+              <View key={`user-${index}`} style={styles.playerTurn}>
+                <View style={[styles.bubble, styles.userBubble]}>
+                  <Text style={[styles.bubbleText, styles.userBubbleText]}>{message.content}</Text>
+                </View>
+                {renderTurnFlags(turn)}
+              </View>
+            );
+          })}
+
+          <Text style={styles.sectionTitle}>{t.debrief.hiddenFlags(profile.name)}</Text>
+          {HIDDEN_FLAG_KINDS.map((kind) => (
+            <View key={kind} style={styles.hiddenGroup}>
+              <Text style={styles.hiddenTitle}>{getFlagIcon(kind)} {hiddenTitles[kind]}</Text>
+              {profile.flags[kind].map((text, index) => {
+                const count = triggeredCounts.get(`${kind}:${index}`);
+                return (
+                  <View key={`${kind}-${index}`} style={styles.hiddenRow}>
+                    <Text style={[styles.hiddenText, count !== undefined && styles.hiddenTriggered]}>{text}</Text>
+                    {count !== undefined && <Text style={styles.hiddenCount}>×{count}</Text>}
+                  </View>
+                );
+              })}
+            </View>
+          ))}
+        </ScrollView>
+      </View>
+    </View>
+  );
+};
+
+export default GameDebrief;
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(17, 24, 39, 0.4)',
+    padding: 12,
+    zIndex: 110,
+  },
+  sheet: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 24,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 18,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '900',
+    color: '#111827',
+  },
+  closeLabel: {
+    color: '#0ea5e9',
+    fontWeight: '700',
+    fontSize: 14,
+  },
+  content: {
+    padding: 18,
+    gap: 10,
+  },
+  sectionTitle: {
+    marginTop: 8,
+    marginBottom: 4,
+    fontSize: 15,
+    fontWeight: '800',
+    color: '#374151',
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: 'row',
+    gap: 4,
+    position: 'relative',
+  },
+  zeroLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 1,
+    backgroundColor: '#9ca3af',
+  },
+  threshold: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    borderTopWidth: 1,
+    borderStyle: 'dashed',
+  },
+  winThreshold: {
+    borderTopColor: '#22c55e',
+  },
+  loseThreshold: {
+    borderTopColor: '#ef4444',
+  },
+  thresholdLabel: {
+    position: 'absolute',
+    right: 0,
+    top: -14,
+    fontSize: 10,
+    fontWeight: '700',
+  },
+  winLabel: {
+    color: '#15803d',
+  },
+  loseLabel: {
+    color: '#dc2626',
+  },
+  barSlot: {
+    flex: 1,
+  },
+  barHalf: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  negativeHalf: {
+    justifyContent: 'flex-start',
+  },
+  bar: {
+    marginHorizontal: 2,
+  },
+  positiveBar: {
+    backgroundColor: '#22c55e',
+    borderTopLeftRadius: 4,
+    borderTopRightRadius: 4,
+  },
+  negativeBar: {
+    backgroundColor: '#ef4444',
+    borderBottomLeftRadius: 4,
+    borderBottomRightRadius: 4,
+  },
+  chartAxis: {
+    flexDirection: 'row',
+    gap: 4,
+    marginTop: 4,
+  },
+  axisLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 10,
+    color: '#6b7280',
+  },
+  bubble: {
+    padding: 10,
+    borderRadius: 16,
+    maxWidth: '85%',
+  },
+  assistantBubble: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#f3f4f6',
+  },
+  userBubble: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#0ea5e9',
+  },
+  bubbleLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    marginBottom: 3,
+    color: '#6b7280',
+  },
+  bubbleText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#111827',
+  },
+  userBubbleText: {
+    color: '#fff',
+  },
+  playerTurn: {
+    gap: 4,
+  },
+  turnFlags: {
+    alignSelf: 'flex-end',
+    alignItems: 'flex-end',
+    maxWidth: '85%',
+    gap: 2,
+  },
+  turnFlag: {
+    fontSize: 12,
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  greenFlag: {
+    color: '#15803d',
+  },
+  redFlag: {
+    color: '#dc2626',
+  },
+  hardNoFlag: {
+    color: '#7f1d1d',
+  },
+  turnNoFlag: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  turnScore: {
+    fontSize: 11,
+    color: '#6b7280',
+  },
+  hiddenGroup: {
+    gap: 4,
+  },
+  hiddenTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#374151',
+  },
+  hiddenRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  hiddenText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+    color: '#9ca3af',
+  },
+  hiddenTriggered: {
+    color: '#111827',
+    fontWeight: '600',
+  },
+  hiddenCount: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#6b7280',
+  },
+});
@@ -1,5 +1,9 @@
 import React from 'react';
-import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { TriggeredFlag } from '../services/flags';
+import { CampaignReward } from '../services/campaign';
+import { getDifficultyLabel } from './CharacterSelect';
+import { useI18n } from '../i18n';
 
 type Props = {
   isWin: boolean;
@@ -7,67 +11,130 @@ type Props = {
   greenFlags: number;
   redFlags: number;
   hardNo: boolean;
-  onPlayAgain: () => void;
+  ghosted: boolean; // timed mode: the game ended because the player stopped answering
+  coached: boolean; // the coach reviewed a draft: no XP, unranked
+  triggeredFlags: TriggeredFlag[];
+  reward: CampaignReward | null; // wins only, once the campaign is saved
+  onShowDebrief: () => void;
+  onPlayAgain?: () => void; // none when the game cannot be replayed, like the daily challenge
   onBackToMenu: () => void;
 };
 
+export const getFlagIcon = (kind: TriggeredFlag['kind']): string => {
+  switch (kind) {
+    case 'green':
+      return '💚';
+    case 'red':
+      return '🚩';
+    default:
+      return '⛔';
+  }
+};
+
 const GameResultScreen: React.FC<Props> = ({
   isWin,
   characterName,
   greenFlags,
   redFlags,
   hardNo,
+  ghosted,
+  coached,
+  triggeredFlags,
+  reward,
+  onShowDebrief,
   onPlayAgain,
   onBackToMenu,
 }) => {
+  const { t } = useI18n();
+
   return (
     <View style={styles.overlay}>
       <View style={[styles.card, isWin ? styles.winCard : styles.loseCard]}>
         <Text style={styles.emoji}>{isWin ? '❤️' : '💔'}</Text>
         <Text style={[styles.title, isWin ? styles.winTitle : styles.loseTitle]}>
-          {isWin ? 'C\'est gagné !' : 'Match annulé'}
+          {isWin ? t.result.won : t.result.lost}
         </Text>
         <Text style={styles.subtitle}>
           {isWin
-            ? `${characterName} veut un second date avec toi !`
-            : hardNo
-              ? `${characterName} a posé une limite claire...`
-              : `${characterName} n'est plus intéressé(e)...`
+            ? t.result.wonSubtitle(characterName)
+            : ghosted
+              ? t.result.ghostedSubtitle(characterName)
+              : hardNo
+              ? t.result.hardNoSubtitle(characterName)
+              : t.result.lostSubtitle(characterName)
           }
         </Text>
 
+        {reward && (
+          <View style={styles.rewardContainer}>
+            <Text style={styles.rewardXp}>{t.campaign.xpGained(reward.xp)}</Text>
+            {reward.repeat && <Text style={styles.rewardText}>{t.campaign.repeatWin}</Text>}
+            {reward.levelUp && <Text style={styles.rewardText}>{t.campaign.levelUp(reward.level)}</Text>}
+            {reward.unlocked && (
+              <Text style={styles.rewardText}>{t.campaign.unlocked(getDifficultyLabel(reward.unlocked))}</Text>
+            )}
+          </View>
+        )}
+
+        {coached && <Text style={styles.coachedText}>{t.result.coached}</Text>}
+
         <View style={styles.statsContainer}>
           <View style={styles.statRow}>
-            <Text style={styles.statLabel}>Green Flags</Text>
+            <Text style={styles.statLabel}>{t.result.greenFlags}</Text>
             <Text style={[styles.statValue, styles.greenValue]}>{greenFlags}</Text>
           </View>
           <View style={styles.statRow}>
-            <Text style={styles.statLabel}>Red Flags</Text>
+            <Text style={styles.statLabel}>{t.result.redFlags}</Text>
             <Text style={[styles.statValue, styles.redValue]}>{redFlags}</Text>
           </View>
           {hardNo && (
             <View style={styles.hardNoRow}>
-              <Text style={styles.hardNoText}>Hard No</Text>
+              <Text style={styles.hardNoText}>{t.result.hardNo}</Text>
             </View>
           )}
         </View>
 
+        {triggeredFlags.length > 0 && (
+          <View style={styles.flagsContainer}>
+            <Text style={styles.flagsTitle}>{t.result.whatMattered}</Text>
+            <ScrollView style={styles.flagsList} contentContainerStyle={styles.flagsListContent}>
+              {triggeredFlags.map((flag) => (
+                <View key={`${flag.kind}-${flag.index}`} style={styles.flagRow}>
+                  <Text style={styles.flagIcon}>{getFlagIcon(flag.kind)}</Text>
+                  <Text style={styles.flagText}>{flag.text}</Text>
+                  {flag.count > 1 && <Text style={styles.flagCount}>×{flag.count}</Text>}
+                </View>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
         <View style={styles.buttonContainer}>
           <TouchableOpacity
             accessibilityRole="button"
             activeOpacity={0.9}
-            style={[styles.button, styles.primaryButton]}
-            onPress={onPlayAgain}
+            style={[styles.button, styles.secondaryButton]}
+            onPress={onShowDebrief}
           >
-            <Text style={styles.primaryButtonText}>Rejouer</Text>
+            <Text style={styles.secondaryButtonText}>{t.result.debrief}</Text>
           </TouchableOpacity>
+          {onPlayAgain && (
+            <TouchableOpacity
+              accessibilityRole="button"
+              activeOpacity={0.9}
+              style={[styles.button, styles.primaryButton]}
+              onPress={onPlayAgain}
+            >
+              <Text style={styles.primaryButtonText}>{t.result.playAgain}</Text>
+            </TouchableOpacity>
+          )}
           <TouchableOpacity
             accessibilityRole="button"
             activeOpacity={0.9}
             style={[styles.button, styles.secondaryButton]}
             onPress={onBackToMenu}
           >
-            <Text style={styles.secondaryButtonText}>Menu principal</Text>
+            <Text style={styles.secondaryButtonText}>{t.result.mainMenu}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -130,6 +197,30 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 24,
   },
+  rewardContainer: {
+    alignItems: 'center',
+    gap: 4,
+    marginTop: -12,
+    marginBottom: 20,
+  },
+  rewardXp: {
+    fontSize: 22,
+    fontWeight: '900',
+    color: '#ca8a04',
+  },
+  rewardText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#15803d',
+  },
+  coachedText: {
+    marginTop: -12,
+    marginBottom: 20,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6b7280',
+    textAlign: 'center',
+  },
   statsContainer: {
     width: '100%',
     backgroundColor: '#fff',
@@ -171,6 +262,42 @@ const styles = StyleSheet.create({
     color: '#dc2626',
     textAlign: 'center',
   },
+  flagsContainer: {
+    width: '100%',
+    marginTop: -12,
+    marginBottom: 20,
+  },
+  flagsTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  flagsList: {
+    maxHeight: 160,
+  },
+  flagsListContent: {
+    gap: 8,
+  },
+  flagRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  flagIcon: {
+    fontSize: 14,
+  },
+  flagText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#4b5563',
+    lineHeight: 18,
+  },
+  flagCount: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#6b7280',
+  },
   buttonContainer: {
     width: '100%',
     gap: 12,
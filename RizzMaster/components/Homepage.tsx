@@ -7,6 +7,7 @@ import {
   Text,
   View,
 } from 'react-native';
+import { useI18n } from '../i18n';
 
 type HomepageProps = {
   onPlay: () => void;
@@ -18,6 +19,7 @@ const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const LOADING_DURATION = 3000;
 
 const Homepage: React.FC<HomepageProps> = ({ onPlay }) => {
+  const { t } = useI18n();
   const [progress, setProgress] = useState(0);
   const animatedWidth = useRef(new Animated.Value(0)).current;
 
@@ -49,7 +51,7 @@ const Homepage: React.FC<HomepageProps> = ({ onPlay }) => {
   return (
     <ImageBackground source={wallpaper} style={styles.background} resizeMode="cover">
       <View style={styles.loadingContainer}>
-        <Text style={styles.loadingText}>Chargement... {progress}%</Text>
+        <Text style={styles.loadingText}>{t.home.loading(progress)}</Text>
         <View style={styles.progressBarBackground}>
           <Animated.View
             style={[styles.progressBarFill, { width: progressBarWidth }]}
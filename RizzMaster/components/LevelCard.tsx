@@ -0,0 +1,64 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { getLevelProgress } from '../services/campaign';
+import { useI18n } from '../i18n';
+
+type Props = {
+  xp: number;
+};
+
+// Player level and XP towards the next one, above the deck
+const LevelCard: React.FC<Props> = ({ xp }) => {
+  const { t } = useI18n();
+  const { level, xpIntoLevel, xpForNextLevel } = getLevelProgress(xp);
+
+  return (
+    <View style={styles.levelCard}>
+      <Text style={styles.levelText}>{t.campaign.level(level)}</Text>
+      <View style={styles.xpBarBackground}>
+        <View style={[styles.xpBarFill, { width: `${(xpIntoLevel / xpForNextLevel) * 100}%` }]} />
+      </View>
+      <Text style={styles.xpText}>{t.campaign.xp(xpIntoLevel, xpForNextLevel)}</Text>
+    </View>
+  );
+};
+
+export default LevelCard;
+
+const styles = StyleSheet.create({
+  levelCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  levelText: {
+    color: '#111827',
+    fontWeight: '900',
+    fontSize: 15,
+  },
+  xpBarBackground: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#e5e7eb',
+    overflow: 'hidden',
+  },
+  xpBarFill: {
+    height: '100%',
+    backgroundColor: '#facc15',
+  },
+  xpText: {
+    color: '#6b7280',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
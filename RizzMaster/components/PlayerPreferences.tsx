@@ -0,0 +1,249 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { CharacterProfile, DifficultyLevel } from '../types/character';
+import { getProfiles, loadCustomProfiles } from '../services/profiles';
+import {
+  DEFAULT_PREFERENCES,
+  DIFFICULTY_LEVELS,
+  getArchetypes,
+  loadPlayerPreferences,
+  PlayerPreferences as Preferences,
+  savePlayerPreferences,
+} from '../services/playerPreferences';
+import { getDifficultyLabel } from './CharacterSelect';
+import { useI18n } from '../i18n';
+
+type Props = {
+  onDone: () => void;
+};
+
+const GENDERS: CharacterProfile['gender'][] = ['female', 'male'];
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+const PlayerPreferences: React.FC<Props> = ({ onDone }) => {
+  const { locale, t } = useI18n();
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const [profiles, setProfiles] = useState<CharacterProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    Promise.all([loadPlayerPreferences(), loadCustomProfiles()])
+      .then(([stored]) => setPreferences(stored))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Les archétypes suivent la langue de l'app
+  useEffect(() => {
+    if (!loading) {
+      setProfiles(getProfiles());
+    }
+  }, [loading, locale]);
+
+  // One chip per archetype of the deck, whatever its gender or difficulty
+  const archetypeProfiles = useMemo(() => {
+    const seen = new Set<string>();
+    return profiles.filter((profile) => {
+      const key = normalize(profile.personality.archetype);
+      if (!key || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }, [profiles]);
+
+  const isFavourite = (profile: CharacterProfile) => {
+    const favourites = new Set(preferences.archetypes.map(normalize));
+    return getArchetypes(profile).some((archetype) => favourites.has(normalize(archetype)));
+  };
+
+  const toggleGender = (gender: CharacterProfile['gender']) => {
+    setPreferences((prev) => {
+      const genders = prev.genders.includes(gender)
+        ? prev.genders.filter((value) => value !== gender)
+        : [...prev.genders, gender];
+      // Toujours au moins un genre, sinon le deck serait vide
+      return genders.length > 0 ? { ...prev, genders } : prev;
+    });
+  };
+
+  const setLevel = (bound: 'minLevel' | 'maxLevel', level: DifficultyLevel) => {
+    setPreferences((prev) => {
+      const next = { ...prev, [bound]: level };
+      const min = DIFFICULTY_LEVELS.indexOf(next.minLevel);
+      const max = DIFFICULTY_LEVELS.indexOf(next.maxLevel);
+      if (min <= max) {
+        return next;
+      }
+      // La borne modifiée pousse l'autre
+      return bound === 'minLevel' ? { ...next, maxLevel: level } : { ...next, minLevel: level };
+    });
+  };
+
+  const toggleArchetype = (profile: CharacterProfile) => {
+    const archetypes = getArchetypes(profile).map(normalize);
+    setPreferences((prev) => ({
+      ...prev,
+      archetypes: isFavourite(profile)
+        ? prev.archetypes.filter((archetype) => !archetypes.includes(normalize(archetype)))
+        : [...prev.archetypes, profile.personality.archetype],
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    await savePlayerPreferences(preferences);
+    setSaving(false);
+    onDone();
+  };
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void, wrap = false) => (
+    <TouchableOpacity
+      key={key}
+      accessibilityRole="button"
+      accessibilityState={{ selected: active }}
+      style={[styles.choice, wrap && styles.choiceWrap, active && styles.choiceActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.choiceLabel, active && styles.choiceLabelActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderLevels = (label: string, bound: 'minLevel' | 'maxLevel') => (
+    <View style={styles.field}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.choiceRow}>
+        {DIFFICULTY_LEVELS.map((level) =>
+          renderChip(level, getDifficultyLabel(level), preferences[bound] === level, () => setLevel(bound, level))
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.screen}>
+      <View style={styles.header}>
+        <TouchableOpacity accessibilityRole="button" onPress={onDone}>
+          <Text style={styles.headerAction}>{t.common.cancel}</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{t.preferences.title}</Text>
+        <TouchableOpacity accessibilityRole="button" onPress={handleSave} disabled={loading || saving}>
+          <Text style={[styles.headerAction, styles.saveAction, (loading || saving) && styles.actionDisabled]}>
+            {saving ? '...' : t.preferences.save}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.section}>{t.preferences.genders}</Text>
+        <View style={styles.choiceRow}>
+          {GENDERS.map((gender) =>
+            renderChip(
+              gender,
+              gender === 'female' ? t.preferences.women : t.preferences.men,
+              preferences.genders.includes(gender),
+              () => toggleGender(gender)
+            )
+          )}
+        </View>
+
+        <Text style={styles.section}>{t.preferences.difficulty}</Text>
+        {renderLevels(t.preferences.from, 'minLevel')}
+        {renderLevels(t.preferences.to, 'maxLevel')}
+
+        <Text style={styles.section}>{t.preferences.archetypes}</Text>
+        <Text style={styles.hint}>{t.preferences.archetypesHint}</Text>
+        <View style={[styles.choiceRow, styles.choiceRowWrap]}>
+          {archetypeProfiles.map((profile) =>
+            renderChip(profile.id, profile.personality.archetype, isFavourite(profile), () => toggleArchetype(profile), true)
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+export default PlayerPreferences;
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '800',
+    color: '#111827',
+  },
+  headerAction: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  saveAction: {
+    color: '#0ea5e9',
+    fontWeight: '700',
+  },
+  actionDisabled: {
+    opacity: 0.4,
+  },
+  content: {
+    paddingBottom: 48,
+  },
+  section: {
+    marginTop: 16,
+    marginBottom: 8,
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#111827',
+  },
+  field: {
+    marginBottom: 12,
+  },
+  label: {
+    marginBottom: 6,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4b5563',
+  },
+  hint: {
+    marginBottom: 8,
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  choiceRowWrap: {
+    flexWrap: 'wrap',
+  },
+  choice: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#f3f4f6',
+    alignItems: 'center',
+  },
+  choiceWrap: {
+    flex: 0,
+    paddingHorizontal: 14,
+  },
+  choiceActive: {
+    backgroundColor: '#0ea5e9',
+  },
+  choiceLabel: {
+    fontWeight: '700',
+    color: '#6b7280',
+  },
+  choiceLabelActive: {
+    color: '#fff',
+  },
+});
@@ -0,0 +1,511 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  Alert,
+  Image,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { CharacterProfile, DifficultyLevel, ProfilePrompt } from '../types/character';
+import { formatIssue, hasErrors, ProfileIssue } from '../services/profileSchema';
+import {
+  createProfileId,
+  deleteCustomProfile,
+  getAvatar,
+  getCustomAvatarUri,
+  saveCustomProfile,
+  validateCustomProfile,
+} from '../services/profiles';
+import { getProfileLanguage } from '../services/profileLocale';
+import { DIFFICULTY_LEVELS } from '../services/playerPreferences';
+import { getDifficultyLabel } from './CharacterSelect';
+import { Locale, useI18n } from '../i18n';
+
+type Props = {
+  profile?: CharacterProfile; // custom profile to edit; a new one is created otherwise
+  onDone: () => void;
+};
+
+// Every field is edited as text, then converted back on each change
+type ProfileForm = {
+  name: string;
+  gender: CharacterProfile['gender'];
+  archetype: string;
+  shortBio: string;
+  tone: string;
+  age: string;       // optional
+  city: string;      // optional
+  interests: string; // optional, comma separated
+  prompts: string;   // optional, one "question | answer" per line
+  green: string;  // one flag per line
+  red: string;
+  hardNo: string;
+  level: DifficultyLevel;
+  toleranceRed: string;
+  minGreenForSecondDate: string;
+  winPoints: string;   // optional
+  losePoints: string;  // optional
+  greenWeights: string; // optional, comma separated
+  redWeights: string;
+  momentum: string;
+  opens: 'default' | 'character' | 'player'; // who sends the first message
+};
+
+const toForm = (profile?: CharacterProfile): ProfileForm => ({
+  name: profile?.name ?? '',
+  gender: profile?.gender ?? 'female',
+  archetype: profile?.personality.archetype ?? '',
+  shortBio: profile?.personality.shortBio ?? '',
+  tone: profile?.personality.tone ?? '',
+  age: profile?.age?.toString() ?? '',
+  city: profile?.city ?? '',
+  interests: profile?.interests?.join(', ') ?? '',
+  prompts: profile?.prompts?.map((prompt) => `${prompt.question} | ${prompt.answer}`).join('\n') ?? '',
+  green: profile?.flags.green.join('\n') ?? '',
+  red: profile?.flags.red.join('\n') ?? '',
+  hardNo: profile?.flags.hardNo.join('\n') ?? '',
+  level: profile?.difficulty.level ?? 'medium',
+  toleranceRed: String(profile?.difficulty.toleranceRed ?? 3),
+  minGreenForSecondDate: String(profile?.difficulty.minGreenForSecondDate ?? 4),
+  winPoints: profile?.difficulty.winPoints?.toString() ?? '',
+  losePoints: profile?.difficulty.losePoints?.toString() ?? '',
+  greenWeights: profile?.scoring?.greenWeights?.join(', ') ?? '',
+  redWeights: profile?.scoring?.redWeights?.join(', ') ?? '',
+  momentum: profile?.scoring?.momentum?.toString() ?? '',
+  opens: profile?.opensConversation === undefined ? 'default' : profile.opensConversation ? 'character' : 'player',
+});
+
+const lines = (text: string) => text.split('\n').map((line) => line.trim()).filter(Boolean);
+
+const optionalNumber = (text: string): number | undefined =>
+  text.trim() ? Number(text.replace(',', '.')) : undefined;
+
+const optionalList = (text: string): number[] | undefined =>
+  text.trim() ? text.split(/[,;\s]+/).filter(Boolean).map(Number) : undefined;
+
+const optionalTexts = (text: string): string[] | undefined => {
+  const items = text.split(',').map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+};
+
+// A line without "|" keeps an empty answer, which validation reports
+const optionalPrompts = (text: string): ProfilePrompt[] | undefined => {
+  const prompts = lines(text).map((line) => {
+    const [question, ...answer] = line.split('|');
+    return { question: question.trim(), answer: answer.join('|').trim() };
+  });
+  return prompts.length > 0 ? prompts : undefined;
+};
+
+// Texts are written in `language`; translations, avatar key, photos and script sections of the edited profile are kept
+const toProfile = (
+  id: string,
+  form: ProfileForm,
+  language: Locale,
+  edited?: Pick<CharacterProfile, 'avatarKey' | 'locales' | 'photoKeys' | 'promptSections'>
+): CharacterProfile => {
+  const winPoints = optionalNumber(form.winPoints);
+  const losePoints = optionalNumber(form.losePoints);
+  const greenWeights = optionalList(form.greenWeights);
+  const redWeights = optionalList(form.redWeights);
+  const momentum = optionalNumber(form.momentum);
+  const age = optionalNumber(form.age);
+  const interests = optionalTexts(form.interests);
+  const prompts = optionalPrompts(form.prompts);
+  const hasScoring = greenWeights || redWeights || momentum !== undefined;
+  // The form replaces the texts of `language` itself
+  const locales = edited?.locales;
+  const translations = locales && Object.fromEntries(Object.entries(locales).filter(([code]) => code !== language));
+  return {
+    id,
+    name: form.name.trim(),
+    gender: form.gender,
+    avatarKey: edited?.avatarKey ?? `${id}_avatar`,
+    language,
+    ...(translations && Object.keys(translations).length > 0 ? { locales: translations } : {}),
+    ...(form.opens !== 'default' ? { opensConversation: form.opens === 'character' } : {}),
+    ...(age !== undefined ? { age } : {}),
+    ...(form.city.trim() ? { city: form.city.trim() } : {}),
+    ...(interests ? { interests } : {}),
+    ...(prompts ? { prompts } : {}),
+    ...(edited?.photoKeys ? { photoKeys: edited.photoKeys } : {}),
+    ...(edited?.promptSections ? { promptSections: edited.promptSections } : {}),
+    personality: {
+      archetype: form.archetype.trim(),
+      shortBio: form.shortBio.trim(),
+      tone: form.tone.trim(),
+    },
+    flags: {
+      green: lines(form.green),
+      red: lines(form.red),
+      hardNo: lines(form.hardNo),
+    },
+    difficulty: {
+      level: form.level,
+      toleranceRed: Number(form.toleranceRed),
+      minGreenForSecondDate: Number(form.minGreenForSecondDate),
+      ...(winPoints !== undefined ? { winPoints } : {}),
+      ...(losePoints !== undefined ? { losePoints } : {}),
+    },
+    ...(hasScoring
+      ? {
+          scoring: {
+            ...(greenWeights ? { greenWeights } : {}),
+            ...(redWeights ? { redWeights } : {}),
+            ...(momentum !== undefined ? { momentum } : {}),
+          },
+        }
+      : {}),
+  };
+};
+
+const ProfileEditor: React.FC<Props> = ({ profile, onDone }) => {
+  const { locale, t } = useI18n();
+  // Un nouveau personnage est écrit dans la langue de l'app
+  const [language] = useState<Locale>(() => (profile ? getProfileLanguage(profile) : locale));
+  // A new profile gets its final id, built from its name, when saved
+  const [draftId] = useState(() => profile?.id ?? createProfileId(''));
+  const [form, setForm] = useState<ProfileForm>(() => toForm(profile));
+  const [pickedImageUri, setPickedImageUri] = useState<string | undefined>();
+  const [saving, setSaving] = useState(false);
+
+  const draft = useMemo(
+    () => toProfile(draftId, form, language, profile),
+    [draftId, form, language, profile]
+  );
+  const avatar = profile && getAvatar(profile);
+  // Les initiales générées ne sont pas une photo : le joueur est invité à en choisir une
+  const currentAvatar = pickedImageUri
+    ? { uri: pickedImageUri }
+    : avatar?.kind === 'image' ? avatar.source : undefined;
+  const hasAvatar = !!pickedImageUri || !!(profile && getCustomAvatarUri(profile.id));
+  const issues = useMemo(() => validateCustomProfile(draft, hasAvatar), [draft, hasAvatar]);
+  const canSave = !saving && !hasErrors(issues);
+
+  const update = useCallback(<K extends keyof ProfileForm>(field: K, value: ProfileForm[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  }, []);
+
+  const pickImage = useCallback(async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [3, 4],
+      quality: 0.8,
+    });
+    if (!result.canceled && result.assets[0]) {
+      setPickedImageUri(result.assets[0].uri);
+    }
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    if (!canSave) return;
+    setSaving(true);
+    try {
+      const saved = profile ? draft : toProfile(createProfileId(form.name), form, language);
+      const saveIssues = await saveCustomProfile(saved, pickedImageUri);
+      if (!hasErrors(saveIssues)) {
+        onDone();
+      }
+    } catch (error) {
+      console.warn('Profile saving error', error);
+      Alert.alert(t.common.error, t.editor.saveError);
+    } finally {
+      setSaving(false);
+    }
+  }, [canSave, draft, form, language, profile, pickedImageUri, onDone, t]);
+
+  const handleDelete = useCallback(() => {
+    if (!profile) return;
+    Alert.alert(t.editor.deleteTitle, t.editor.deleteMessage, [
+      { text: t.common.cancel, style: 'cancel' },
+      {
+        text: t.editor.delete,
+        style: 'destructive',
+        onPress: async () => {
+          await deleteCustomProfile(profile.id);
+          onDone();
+        },
+      },
+    ]);
+  }, [profile, onDone, t]);
+
+  const renderInput = (
+    label: string,
+    field: keyof ProfileForm,
+    options: { multiline?: boolean; numeric?: boolean; placeholder?: string } = {}
+  ) => (
+    <View style={styles.field}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={[styles.input, options.multiline && styles.inputMultiline]}
+        value={form[field]}
+        onChangeText={(text) => update(field, text as ProfileForm[typeof field])}
+        multiline={options.multiline}
+        keyboardType={options.numeric ? 'decimal-pad' : 'default'}
+        placeholder={options.placeholder}
+        placeholderTextColor="#9ca3af"
+      />
+    </View>
+  );
+
+  const renderChoice = <T extends string>(
+    value: T,
+    choices: { value: T; label: string }[],
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.choiceRow}>
+      {choices.map((choice) => (
+        <TouchableOpacity
+          key={choice.value}
+          accessibilityRole="button"
+          style={[styles.choice, value === choice.value && styles.choiceActive]}
+          onPress={() => onSelect(choice.value)}
+        >
+          <Text style={[styles.choiceLabel, value === choice.value && styles.choiceLabelActive]}>
+            {choice.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderIssue = (issue: ProfileIssue, index: number) => (
+    <Text
+      key={`${issue.field}-${index}`}
+      style={issue.severity === 'error' ? styles.issueError : styles.issueWarning}
+    >
+      {issue.severity === 'error' ? '⛔' : '⚠️'} {formatIssue(issue)}
+    </Text>
+  );
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.screen}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity accessibilityRole="button" onPress={onDone}>
+          <Text style={styles.headerAction}>{t.common.cancel}</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{profile ? t.editor.titleEdit : t.editor.titleNew}</Text>
+        <TouchableOpacity accessibilityRole="button" onPress={handleSave} disabled={!canSave}>
+          <Text style={[styles.headerAction, styles.saveAction, !canSave && styles.actionDisabled]}>
+            {saving ? '...' : t.editor.save}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <TouchableOpacity accessibilityRole="button" onPress={pickImage} style={styles.avatarPicker}>
+          {currentAvatar ? (
+            <Image source={currentAvatar} style={styles.avatar} />
+          ) : (
+            <View style={[styles.avatar, styles.avatarEmpty]}>
+              <Text style={styles.avatarEmptyText}>📷</Text>
+            </View>
+          )}
+          <Text style={styles.avatarLabel}>{currentAvatar ? t.editor.changePhoto : t.editor.choosePhoto}</Text>
+        </TouchableOpacity>
+
+        {renderInput(t.editor.name, 'name')}
+        <View style={styles.field}>
+          <Text style={styles.label}>{t.editor.gender}</Text>
+          {renderChoice(form.gender, [
+            { value: 'female', label: t.editor.female },
+            { value: 'male', label: t.editor.male },
+          ], (value) => update('gender', value))}
+        </View>
+        <View style={styles.field}>
+          <Text style={styles.label}>{t.editor.opener}</Text>
+          {renderChoice(form.opens, [
+            { value: 'default', label: t.editor.openerDefault },
+            { value: 'character', label: t.editor.openerCharacter },
+            { value: 'player', label: t.editor.openerPlayer },
+          ], (value) => update('opens', value))}
+        </View>
+
+        <Text style={styles.section}>{t.editor.personality}</Text>
+        {renderInput(t.editor.archetype, 'archetype', { placeholder: t.editor.archetypePlaceholder })}
+        {renderInput(t.editor.bio, 'shortBio', { multiline: true })}
+        {renderInput(t.editor.tone, 'tone', { placeholder: t.editor.tonePlaceholder })}
+
+        <Text style={styles.section}>{t.editor.card}</Text>
+        {renderInput(t.editor.age, 'age', { numeric: true })}
+        {renderInput(t.editor.city, 'city')}
+        {renderInput(t.editor.interests, 'interests', { placeholder: t.editor.interestsPlaceholder })}
+        {renderInput(t.editor.prompts, 'prompts', { multiline: true, placeholder: t.editor.promptsPlaceholder })}
+
+        <Text style={styles.section}>{t.editor.flags}</Text>
+        {renderInput(t.editor.greenFlags, 'green', { multiline: true })}
+        {renderInput(t.editor.redFlags, 'red', { multiline: true })}
+        {renderInput(t.editor.hardNo, 'hardNo', { multiline: true })}
+
+        <Text style={styles.section}>{t.editor.difficulty}</Text>
+        <View style={styles.field}>
+          {renderChoice(
+            form.level,
+            DIFFICULTY_LEVELS.map((level) => ({ value: level, label: getDifficultyLabel(level) })),
+            (value) => update('level', value)
+          )}
+        </View>
+        {renderInput(t.editor.toleranceRed, 'toleranceRed', { numeric: true })}
+        {renderInput(t.editor.minGreen, 'minGreenForSecondDate', { numeric: true })}
+        {renderInput(t.editor.winPoints, 'winPoints', { numeric: true })}
+        {renderInput(t.editor.losePoints, 'losePoints', { numeric: true })}
+
+        <Text style={styles.section}>{t.editor.scoring}</Text>
+        {renderInput(t.editor.greenWeights, 'greenWeights', { placeholder: t.editor.weightsPlaceholder })}
+        {renderInput(t.editor.redWeights, 'redWeights', { placeholder: t.editor.weightsPlaceholder })}
+        {renderInput(t.editor.momentum, 'momentum', { numeric: true, placeholder: '0.9' })}
+
+        {issues.length > 0 && <View style={styles.issues}>{issues.map(renderIssue)}</View>}
+
+        {profile && (
+          <TouchableOpacity accessibilityRole="button" onPress={handleDelete} style={styles.deleteButton}>
+            <Text style={styles.deleteLabel}>{t.editor.deleteCharacter}</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+export default ProfileEditor;
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '800',
+    color: '#111827',
+  },
+  headerAction: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  saveAction: {
+    color: '#0ea5e9',
+    fontWeight: '700',
+  },
+  actionDisabled: {
+    opacity: 0.4,
+  },
+  content: {
+    paddingBottom: 48,
+  },
+  avatarPicker: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  avatar: {
+    width: 120,
+    height: 160,
+    borderRadius: 16,
+  },
+  avatarEmpty: {
+    backgroundColor: '#e5e7eb',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  avatarEmptyText: {
+    fontSize: 32,
+  },
+  avatarLabel: {
+    marginTop: 8,
+    color: '#0ea5e9',
+    fontWeight: '600',
+  },
+  section: {
+    marginTop: 16,
+    marginBottom: 8,
+    fontSize: 16,
+    fontWeight: '800',
+    color: '#111827',
+  },
+  field: {
+    marginBottom: 12,
+  },
+  label: {
+    marginBottom: 6,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4b5563',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#fff',
+    fontSize: 15,
+    color: '#111827',
+  },
+  inputMultiline: {
+    minHeight: 90,
+    textAlignVertical: 'top',
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  choice: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#f3f4f6',
+    alignItems: 'center',
+  },
+  choiceActive: {
+    backgroundColor: '#0ea5e9',
+  },
+  choiceLabel: {
+    fontWeight: '700',
+    color: '#6b7280',
+  },
+  choiceLabelActive: {
+    color: '#fff',
+  },
+  issues: {
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#fef2f2',
+    gap: 4,
+  },
+  issueError: {
+    color: '#b91c1c',
+    fontSize: 13,
+  },
+  issueWarning: {
+    color: '#b45309',
+    fontSize: 13,
+  },
+  deleteButton: {
+    marginTop: 24,
+    paddingVertical: 14,
+    borderRadius: 14,
+    backgroundColor: '#fee2e2',
+    alignItems: 'center',
+  },
+  deleteLabel: {
+    color: '#ef4444',
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,426 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { getLLMConfig, requiresApiKey } from '../config/llm';
+import { CharacterProfile } from '../types/character';
+import { createModelProvider, isAbortError, LLMHttpError } from '../services/llm';
+import { formatIssue, hasErrors } from '../services/profileSchema';
+import { getAvatar, getProfiles, loadCustomProfiles, saveCustomProfile } from '../services/profiles';
+import { DIFFICULTY_LEVELS } from '../services/playerPreferences';
+import {
+  GeneratedProfile,
+  generateProfile,
+  GeneratorSeeds,
+  ProfileGenerationError,
+} from '../services/profileGenerator';
+import { AvatarBackground } from './Avatar';
+import { getDifficultyColor, getDifficultyLabel } from './CharacterSelect';
+import { Strings, useI18n } from '../i18n';
+
+type Props = {
+  onDone: () => void;
+};
+
+const llmConfig = getLLMConfig();
+
+const GENDERS: CharacterProfile['gender'][] = ['female', 'male'];
+
+const describeError = (error: unknown, t: Strings): string => {
+  if (error instanceof ProfileGenerationError) {
+    return t.generator.invalidReply;
+  }
+  if (error instanceof LLMHttpError && error.status >= 500) {
+    return t.chat.serverError(error.status);
+  }
+  return t.chat.requestError;
+};
+
+const ProfileGenerator: React.FC<Props> = ({ onDone }) => {
+  const { locale, t } = useI18n();
+  const [seeds, setSeeds] = useState<GeneratorSeeds>({ archetype: '', level: 'medium', gender: 'female' });
+  const [result, setResult] = useState<GeneratedProfile | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [archetypes, setArchetypes] = useState<string[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  const provider = useMemo(() => createModelProvider(llmConfig), []);
+
+  // Quitter l'écran annule la génération en cours
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Archétypes du deck proposés comme point de départ
+  useEffect(() => {
+    loadCustomProfiles()
+      .then(() => setArchetypes(Array.from(new Set(getProfiles().map((p) => p.personality.archetype)))))
+      .catch((loadError) => console.warn('Custom profiles loading error', loadError));
+  }, [locale]);
+
+  const handleGenerate = useCallback(async () => {
+    if (!provider) {
+      setError(t.generator.unavailable);
+      return;
+    }
+    if (requiresApiKey(llmConfig) && !llmConfig.apiKey) {
+      setError(t.chat.missingApiKey(llmConfig.apiKeyEnvName ?? 'EXPO_PUBLIC_LLM_API_KEY'));
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setGenerating(true);
+    setError(null);
+    setResult(null);
+    try {
+      // Un nouveau personnage est écrit dans la langue de l'app
+      setResult(await generateProfile(provider, seeds, locale, controller.signal));
+    } catch (generationError) {
+      if (!isAbortError(generationError)) {
+        console.warn(`Profile generation error (${provider.id})`, generationError);
+        setError(describeError(generationError, t));
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+      setGenerating(false);
+    }
+  }, [provider, seeds, locale, t]);
+
+  const handleSave = useCallback(async (generated: GeneratedProfile) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const issues = await saveCustomProfile(generated.profile);
+      if (hasErrors(issues)) {
+        setResult({ ...generated, issues });
+        return;
+      }
+      onDone();
+    } catch (saveError) {
+      console.warn('Generated profile saving error', saveError);
+      setError(t.generator.saveError);
+    } finally {
+      setSaving(false);
+    }
+  }, [onDone, t]);
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void, wrap = false) => (
+    <TouchableOpacity
+      key={key}
+      accessibilityRole="button"
+      accessibilityState={{ selected: active }}
+      style={[styles.choice, wrap && styles.choiceWrap, active && styles.choiceActive]}
+      onPress={onPress}
+      disabled={generating}
+    >
+      <Text style={[styles.choiceLabel, active && styles.choiceLabelActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderPreview = (generated: GeneratedProfile) => {
+    const { profile, issues } = generated;
+    const blocked = hasErrors(issues);
+    return (
+      <>
+        <View style={styles.card}>
+          <AvatarBackground avatar={getAvatar(profile)} style={styles.avatar} />
+          <View style={styles.cardInfo}>
+            <View style={styles.cardHeader}>
+              <Text style={styles.name}>
+                {profile.name}{profile.age !== undefined ? `, ${profile.age}` : ''}
+              </Text>
+              <View
+                style={[
+                  styles.difficultyBadge,
+                  { backgroundColor: getDifficultyColor(profile.difficulty.level) },
+                ]}
+              >
+                <Text style={styles.difficultyText}>{getDifficultyLabel(profile.difficulty.level)}</Text>
+              </View>
+            </View>
+            <Text style={styles.archetype}>
+              {profile.personality.archetype}{profile.city ? ` · 📍 ${profile.city}` : ''}
+            </Text>
+            <Text style={styles.bio}>{profile.personality.shortBio}</Text>
+            <Text style={styles.tone}>{profile.personality.tone}</Text>
+            <Text style={styles.flagCounts}>
+              💚 {profile.flags.green.length}  🚩 {profile.flags.red.length}  ⛔ {profile.flags.hardNo.length}
+            </Text>
+          </View>
+        </View>
+
+        {issues.map((issue, index) => (
+          <Text
+            key={`${issue.field}-${index}`}
+            style={issue.severity === 'error' ? styles.errorText : styles.warning}
+          >
+            {issue.severity === 'error' ? '⛔' : '⚠️'} {formatIssue(issue)}
+          </Text>
+        ))}
+
+        {!blocked && (
+          <TouchableOpacity
+            accessibilityRole="button"
+            disabled={saving}
+            onPress={() => handleSave(generated)}
+            style={[styles.primaryButton, saving && styles.buttonDisabled]}
+          >
+            <Text style={styles.primaryLabel}>{t.generator.save}</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          accessibilityRole="button"
+          disabled={saving}
+          onPress={handleGenerate}
+          style={styles.secondaryButton}
+        >
+          <Text style={styles.secondaryLabel}>{t.generator.regenerate}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity accessibilityRole="button" onPress={() => setResult(null)} style={styles.cancelButton}>
+          <Text style={styles.cancelLabel}>{t.generator.discard}</Text>
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  const renderSeeds = () => (
+    <>
+      <View style={styles.choiceRow}>
+        {GENDERS.map((gender) =>
+          renderChip(
+            gender,
+            gender === 'female' ? t.editor.female : t.editor.male,
+            seeds.gender === gender,
+            () => setSeeds((prev) => ({ ...prev, gender }))
+          )
+        )}
+      </View>
+      <View style={styles.choiceRow}>
+        {DIFFICULTY_LEVELS.map((level) =>
+          renderChip(level, getDifficultyLabel(level), seeds.level === level, () =>
+            setSeeds((prev) => ({ ...prev, level }))
+          )
+        )}
+      </View>
+
+      <Text style={styles.label}>{t.generator.archetype}</Text>
+      <TextInput
+        value={seeds.archetype}
+        onChangeText={(archetype) => setSeeds((prev) => ({ ...prev, archetype }))}
+        placeholder={t.generator.archetypePlaceholder}
+        placeholderTextColor="#9ca3af"
+        editable={!generating}
+        style={styles.input}
+      />
+      <View style={[styles.choiceRow, styles.choiceRowWrap]}>
+        {archetypes.map((archetype) =>
+          renderChip(archetype, archetype, seeds.archetype === archetype, () =>
+            setSeeds((prev) => ({ ...prev, archetype })), true
+          )
+        )}
+      </View>
+
+      {generating ? (
+        <View style={styles.generating}>
+          <ActivityIndicator color="#0ea5e9" />
+          <Text style={styles.generatingText}>{t.generator.generating}</Text>
+        </View>
+      ) : (
+        <TouchableOpacity accessibilityRole="button" onPress={handleGenerate} style={styles.primaryButton}>
+          <Text style={styles.primaryLabel}>{t.generator.generate}</Text>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity accessibilityRole="button" onPress={onDone} style={styles.cancelButton}>
+        <Text style={styles.cancelLabel}>{t.common.cancel}</Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  return (
+    <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <Text style={styles.title}>{t.generator.title}</Text>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+      {result && !generating ? renderPreview(result) : renderSeeds()}
+    </ScrollView>
+  );
+};
+
+export default ProfileGenerator;
+
+const styles = StyleSheet.create({
+  content: {
+    paddingVertical: 16,
+    gap: 12,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: '#111827',
+    textAlign: 'center',
+  },
+  label: {
+    marginTop: 4,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4b5563',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#fff',
+    fontSize: 15,
+    color: '#111827',
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  choiceRowWrap: {
+    flexWrap: 'wrap',
+  },
+  choice: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#f3f4f6',
+    alignItems: 'center',
+  },
+  choiceWrap: {
+    flex: 0,
+    paddingHorizontal: 14,
+  },
+  choiceActive: {
+    backgroundColor: '#0ea5e9',
+  },
+  choiceLabel: {
+    fontWeight: '700',
+    color: '#6b7280',
+  },
+  choiceLabelActive: {
+    color: '#fff',
+  },
+  generating: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 14,
+  },
+  generatingText: {
+    color: '#6b7280',
+    fontWeight: '600',
+  },
+  card: {
+    borderRadius: 20,
+    overflow: 'hidden',
+    backgroundColor: '#fff',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.15,
+    shadowRadius: 24,
+    elevation: 10,
+  },
+  avatar: {
+    width: '100%',
+    height: 240,
+    backgroundColor: '#e5e7eb',
+  },
+  cardInfo: {
+    padding: 16,
+    gap: 6,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  name: {
+    fontSize: 26,
+    fontWeight: '800',
+    color: '#111827',
+  },
+  difficultyBadge: {
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+  },
+  difficultyText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  archetype: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#4b5563',
+  },
+  bio: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#374151',
+  },
+  tone: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: '#6b7280',
+  },
+  flagCounts: {
+    marginTop: 4,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  warning: {
+    fontSize: 13,
+    color: '#b45309',
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+    fontSize: 14,
+  },
+  primaryButton: {
+    backgroundColor: '#0ea5e9',
+    paddingVertical: 14,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  primaryLabel: {
+    color: '#fff',
+    fontWeight: '700',
+    fontSize: 15,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  secondaryButton: {
+    backgroundColor: '#e0f2fe',
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  secondaryLabel: {
+    color: '#0369a1',
+    fontWeight: '700',
+    fontSize: 15,
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  cancelLabel: {
+    color: '#6b7280',
+    fontWeight: '600',
+  },
+});
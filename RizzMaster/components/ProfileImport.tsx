@@ -0,0 +1,277 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { formatIssue, hasErrors } from '../services/profileSchema';
+import { resolveAvatar } from '../services/avatars';
+import { getAvatar, loadCustomProfiles } from '../services/profiles';
+import { localizeProfile } from '../services/profileLocale';
+import {
+  importProfile,
+  ImportPreview,
+  ImportResult,
+  readProfileFile,
+  readProfileLinkData,
+} from '../services/profileTransfer';
+import { AvatarBackground } from './Avatar';
+import { getDifficultyColor, getDifficultyLabel } from './CharacterSelect';
+import { useI18n } from '../i18n';
+
+type Props = {
+  fileUri?: string; // picked .rizz.json file
+  data?: string;    // `data` parameter of a rizzmaster://profile link
+  onDone: () => void;
+};
+
+const ProfileImport: React.FC<Props> = ({ fileUri, data, onDone }) => {
+  const { locale, t } = useI18n();
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      // Les collisions d'id se calculent avec les personnages déjà créés
+      await loadCustomProfiles();
+      setResult(fileUri ? await readProfileFile(fileUri) : readProfileLinkData(data));
+    };
+    load().catch((error) => {
+      console.warn('Profile import error', error);
+      setResult({ ok: false, error: t.importer.readError });
+    });
+  }, [fileUri, data, t]);
+
+  const handleImport = useCallback(async (preview: ImportPreview, replace: boolean) => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const issues = await importProfile(preview, replace);
+      if (hasErrors(issues)) {
+        setSaveError(issues.map(formatIssue).join('\n'));
+        return;
+      }
+      onDone();
+    } catch (error) {
+      console.warn('Profile import error', error);
+      setSaveError(t.importer.addError);
+    } finally {
+      setSaving(false);
+    }
+  }, [onDone, t]);
+
+  if (!result) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color="#0ea5e9" />
+      </View>
+    );
+  }
+
+  if (!result.ok) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.title}>{t.importer.failedTitle}</Text>
+        <Text style={styles.errorText}>{result.error}</Text>
+        <TouchableOpacity accessibilityRole="button" onPress={onDone} style={styles.secondaryButton}>
+          <Text style={styles.secondaryLabel}>{t.common.back}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const { preview } = result;
+  const profile = localizeProfile(preview.profile, locale);
+  const avatar = preview.avatarBase64
+    ? resolveAvatar(profile, `data:image/jpeg;base64,${preview.avatarBase64}`)
+    : getAvatar(profile);
+
+  return (
+    <ScrollView contentContainerStyle={styles.content}>
+      <Text style={styles.title}>{t.importer.title}</Text>
+
+      <View style={styles.card}>
+        <AvatarBackground avatar={avatar} style={styles.avatar} />
+        <View style={styles.cardInfo}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.name}>{profile.name}</Text>
+            <View
+              style={[
+                styles.difficultyBadge,
+                { backgroundColor: getDifficultyColor(profile.difficulty.level) },
+              ]}
+            >
+              <Text style={styles.difficultyText}>{getDifficultyLabel(profile.difficulty.level)}</Text>
+            </View>
+          </View>
+          <Text style={styles.archetype}>{profile.personality.archetype}</Text>
+          <Text style={styles.bio}>{profile.personality.shortBio}</Text>
+          <Text style={styles.flagCounts}>
+            💚 {profile.flags.green.length}  🚩 {profile.flags.red.length}  ⛔ {profile.flags.hardNo.length}
+          </Text>
+        </View>
+      </View>
+
+      {preview.collision === 'bundled' && (
+        <Text style={styles.notice}>{t.importer.bundledCollision}</Text>
+      )}
+      {preview.collision === 'custom' && (
+        <Text style={styles.notice}>{t.importer.customCollision}</Text>
+      )}
+      {preview.issues.map((issue, index) => (
+        <Text key={`${issue.field}-${index}`} style={styles.warning}>⚠️ {formatIssue(issue)}</Text>
+      ))}
+      {saveError && <Text style={styles.errorText}>{saveError}</Text>}
+
+      {preview.collision === 'custom' && (
+        <TouchableOpacity
+          accessibilityRole="button"
+          disabled={saving}
+          onPress={() => handleImport(preview, true)}
+          style={styles.secondaryButton}
+        >
+          <Text style={styles.secondaryLabel}>{t.importer.replace}</Text>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity
+        accessibilityRole="button"
+        disabled={saving}
+        onPress={() => handleImport(preview, false)}
+        style={[styles.primaryButton, saving && styles.buttonDisabled]}
+      >
+        <Text style={styles.primaryLabel}>
+          {preview.collision === 'custom' ? t.importer.addCopy : t.importer.add}
+        </Text>
+      </TouchableOpacity>
+      <TouchableOpacity accessibilityRole="button" onPress={onDone} style={styles.cancelButton}>
+        <Text style={styles.cancelLabel}>{t.common.cancel}</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+export default ProfileImport;
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  content: {
+    paddingVertical: 16,
+    gap: 12,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: '#111827',
+    textAlign: 'center',
+  },
+  card: {
+    borderRadius: 20,
+    overflow: 'hidden',
+    backgroundColor: '#fff',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.15,
+    shadowRadius: 24,
+    elevation: 10,
+  },
+  avatar: {
+    width: '100%',
+    height: 320,
+  },
+  cardInfo: {
+    padding: 16,
+    gap: 6,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  name: {
+    fontSize: 26,
+    fontWeight: '800',
+    color: '#111827',
+  },
+  difficultyBadge: {
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+  },
+  difficultyText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  archetype: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#4b5563',
+  },
+  bio: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#374151',
+  },
+  flagCounts: {
+    marginTop: 4,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  notice: {
+    fontSize: 14,
+    color: '#0369a1',
+    textAlign: 'center',
+  },
+  warning: {
+    fontSize: 13,
+    color: '#b45309',
+  },
+  errorText: {
+    color: '#ef4444',
+    textAlign: 'center',
+    fontSize: 14,
+  },
+  primaryButton: {
+    backgroundColor: '#0ea5e9',
+    paddingVertical: 14,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  primaryLabel: {
+    color: '#fff',
+    fontWeight: '700',
+    fontSize: 15,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  secondaryButton: {
+    backgroundColor: '#e0f2fe',
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  secondaryLabel: {
+    color: '#0369a1',
+    fontWeight: '700',
+    fontSize: 15,
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  cancelLabel: {
+    color: '#6b7280',
+    fontWeight: '600',
+  },
+});
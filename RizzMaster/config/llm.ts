@@ -0,0 +1,81 @@
+export type LLMProviderId = 'proxy' | 'openai' | 'anthropic' | 'local' | 'offline' | 'fake';
+
+export type LLMConfig = {
+  provider: LLMProviderId;
+  model: string;
+  baseUrl: string;
+  apiKey?: string;
+  apiKeyEnvName?: string; // env variable to mention when the key is missing
+  temperature: number;
+  stream: boolean; // stream completions (SSE) when the provider supports it
+  structuredOutput: boolean; // use provider-side JSON mode / JSON schema
+  contextBudget: number; // max estimated tokens per chat request before older turns get summarized
+};
+
+const PROVIDER_DEFAULTS: Record<LLMProviderId, { model: string; baseUrl: string }> = {
+  // Serveur compagnon (server/) : la clé reste côté serveur
+  proxy: { model: 'server-default', baseUrl: 'http://localhost:8787' },
+  openai: { model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1' },
+  anthropic: { model: 'claude-3-5-haiku-latest', baseUrl: 'https://api.anthropic.com/v1' },
+  // Ollama / llama.cpp exposent tous les deux un endpoint compatible OpenAI
+  local: { model: 'llama3.1', baseUrl: 'http://localhost:11434/v1' },
+  offline: { model: 'rule-based-judge', baseUrl: '' },
+  fake: { model: 'fake', baseUrl: '' },
+};
+
+const isProviderId = (value: string | undefined): value is LLMProviderId =>
+  value === 'proxy' ||
+  value === 'openai' ||
+  value === 'anthropic' ||
+  value === 'local' ||
+  value === 'offline' ||
+  value === 'fake';
+
+// Expo only inlines static `process.env.EXPO_PUBLIC_*` accesses, so every
+// variable has to be read explicitly.
+const resolveApiKey = (provider: LLMProviderId): Pick<LLMConfig, 'apiKey' | 'apiKeyEnvName'> => {
+  const genericKey = process.env.EXPO_PUBLIC_LLM_API_KEY;
+  switch (provider) {
+    case 'openai':
+      return {
+        apiKey: genericKey || process.env.EXPO_PUBLIC_OPENAI_API_KEY,
+        apiKeyEnvName: 'EXPO_PUBLIC_OPENAI_API_KEY',
+      };
+    case 'anthropic':
+      return {
+        apiKey: genericKey || process.env.EXPO_PUBLIC_ANTHROPIC_API_KEY,
+        apiKeyEnvName: 'EXPO_PUBLIC_ANTHROPIC_API_KEY',
+      };
+    case 'local':
+      return { apiKey: genericKey };
+    default:
+      return {};
+  }
+};
+
+export const getLLMConfig = (): LLMConfig => {
+  const requested = process.env.EXPO_PUBLIC_LLM_PROVIDER;
+  const provider: LLMProviderId = isProviderId(requested) ? requested : 'proxy';
+  const defaults = PROVIDER_DEFAULTS[provider];
+  const temperature = parseFloat(process.env.EXPO_PUBLIC_LLM_TEMPERATURE ?? '');
+  const contextBudget = parseInt(process.env.EXPO_PUBLIC_LLM_CONTEXT_BUDGET ?? '', 10);
+
+  return {
+    provider,
+    model: process.env.EXPO_PUBLIC_LLM_MODEL || defaults.model,
+    baseUrl: (process.env.EXPO_PUBLIC_LLM_BASE_URL || defaults.baseUrl).replace(/\/+$/, ''),
+    temperature: Number.isFinite(temperature) ? temperature : 0.8,
+    stream: process.env.EXPO_PUBLIC_LLM_STREAM !== 'false',
+    structuredOutput: process.env.EXPO_PUBLIC_LLM_STRUCTURED_OUTPUT !== 'false',
+    contextBudget: contextBudget > 0 ? contextBudget : 6000,
+    ...resolveApiKey(provider),
+  };
+};
+
+export const requiresApiKey = (config: LLMConfig): boolean =>
+  config.provider === 'openai' || config.provider === 'anthropic';
+
+// The offline judge and the fake provider run in the app: no context window,
+// and the judge needs the whole history to recompute the totals.
+export const hasContextWindow = (config: LLMConfig): boolean =>
+  config.provider !== 'offline' && config.provider !== 'fake';
@@ -1,86 +1,134 @@
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Asset } from 'expo-asset';
 import { File } from 'expo-file-system/next';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { CharacterProfile } from '../types/character';
-import { FlagStats, GameStatus } from './useGameState';
+import { Message, ParsedAssistantResponse } from '../types/chat';
+import { getLLMConfig, hasContextWindow, requiresApiKey } from '../config/llm';
+import { CompletionRequest, createLLMProvider, isAbortError, LLMHttpError, LLMProvider } from '../services/llm';
+import {
+  ASSISTANT_RESPONSE_SCHEMA,
+  extractJsonObject,
+  parseAssistantContract,
+  repairAssistantResponse,
+  sanitizeFlagIds,
+} from '../services/llm/contract';
+import { buildTaskSystem, TurnContext } from '../services/llm/tasks';
+import { countDiagnostic, recordDiagnostic } from '../services/diagnostics';
+import { buildSystemPrompt, parsePromptTemplate } from '../services/prompt';
+import { getProfileLanguage } from '../services/profileLocale';
+import { Locale, Strings, useI18n } from '../i18n';
+import {
+  ConversationSummary,
+  estimateTokens,
+  planContext,
+  summarizeConversation,
+} from '../services/context';
+import { FlagDelta } from '../services/gameRules';
+import { characterOpensConversation, GameSettings, loadGameSettings } from '../services/gameSettings';
+import { getPendingReply, latePenalty } from '../services/replyTimer';
+import { FlagStats, GameSession, GameStatus, GameTurn } from './useGameState';
 
-export type Message = {
-  role: 'user' | 'assistant';
-  content: string;
-};
-
-type ParsedAssistantResponse = {
-  message: string;
-  flagsDetected: {
-    green: number;
-    red: number;
-    hardNo: boolean;
-  };
-  gameStatus: GameStatus;
-};
+export type { Message, ParsedAssistantResponse } from '../types/chat';
 
-const OPENAI_MODEL = 'gpt-4o-mini';
-const OPENAI_CHAT_ENDPOINT = 'https://api.openai.com/v1/chat/completions';
+const llmConfig = getLLMConfig();
 const CHAT_STORAGE_KEY_PREFIX = 'rizzmaster_chat_';
+const SUMMARY_STORAGE_KEY_PREFIX = 'rizzmaster_summary_';
+const MATCHED_PROFILES_KEY = 'rizzmaster_matched_profiles';
+// Latest messages always sent verbatim, whatever the context budget
+const KEEP_RECENT_MESSAGES = 6;
+const TYPING_MS_PER_CHAR = 40;
+const TYPING_MIN_MS = 500;
+const TYPING_MAX_MS = 2500;
 
-const promptAsset = require('../data/scripts/script.txt');
+// Script template of each conversation language (cf. SCRIPT_FILES)
+const SCRIPT_ASSETS: Record<Locale, number> = {
+  fr: require('../data/scripts/script.txt'),
+  en: require('../data/scripts/script.en.txt'),
+};
 
 export const useChat = (
   profile: CharacterProfile,
   flagStats: FlagStats,
   gameStatus: GameStatus,
-  onFlagsDetected: (flags: { green: number; red: number; hardNo: boolean }) => void
+  onFlagsDetected: (flags: FlagDelta, turn: GameTurn) => FlagStats,
+  session?: GameSession
 ) => {
-  const CHAT_STORAGE_KEY = `${CHAT_STORAGE_KEY_PREFIX}${profile.id}`;
+  const gameId = session?.id ?? profile.id;
+  const CHAT_STORAGE_KEY = `${CHAT_STORAGE_KEY_PREFIX}${gameId}`;
+  const SUMMARY_STORAGE_KEY = `${SUMMARY_STORAGE_KEY_PREFIX}${gameId}`;
 
   const [systemPrompt, setSystemPrompt] = useState<string>('');
+  const [promptVersion, setPromptVersion] = useState<string | undefined>(undefined);
   const [promptError, setPromptError] = useState<string | null>(null);
   const [loadingPrompt, setLoadingPrompt] = useState<boolean>(true);
   const [messages, setMessages] = useState<Message[]>([]);
   const [sending, setSending] = useState(false);
   const [networkError, setNetworkError] = useState<string | null>(null);
+  const [typingLines, setTypingLines] = useState<string[]>([]);
+  const [summary, setSummary] = useState<ConversationSummary | null>(null);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [settings, setSettings] = useState<GameSettings | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Une seule tentative d'ouverture par conversation vide affichée
+  const openerRequestedRef = useRef(false);
+  const { t } = useI18n();
+  // Le personnage parle la langue de ses textes : un profil non traduit garde la sienne
+  const language = getProfileLanguage(profile);
+
+  const provider = useMemo(() => createLLMProvider(llmConfig, profile), [profile]);
+
+  // Quitter l'écran annule la requête en cours (retries compris)
+  useEffect(() => () => abortRef.current?.abort(), [profile]);
 
   useEffect(() => {
     const loadPrompt = async () => {
       try {
-        const asset = Asset.fromModule(promptAsset);
+        const asset = Asset.fromModule(SCRIPT_ASSETS[language]);
         await asset.downloadAsync();
         if (!asset.localUri) {
           throw new Error('Aucun chemin local pour le script.');
         }
         const file = new File(asset.localUri);
-        const basePromptText = await file.text();
+        const template = parsePromptTemplate(await file.text());
+        const prompt = buildSystemPrompt(template, profile);
 
-        const profileJson = JSON.stringify(profile, null, 2);
-        const combinedPrompt = `${basePromptText.trim()}\n\n---\n\nPROFIL DU PERSONNAGE À INCARNER:\n${profileJson}`;
-
-        setSystemPrompt(combinedPrompt);
+        setSystemPrompt(prompt.text);
+        setPromptVersion(prompt.version);
       } catch (error) {
         console.warn('Prompt loading error', error);
-        setPromptError("Impossible de charger le prompt (script.txt).");
+        setPromptError(t.chat.promptError);
       } finally {
         setLoadingPrompt(false);
       }
     };
 
     const loadHistory = async () => {
+      setHistoryLoaded(false);
       try {
-        const raw = await AsyncStorage.getItem(CHAT_STORAGE_KEY);
+        const [raw, rawSummary] = await Promise.all([
+          AsyncStorage.getItem(CHAT_STORAGE_KEY),
+          AsyncStorage.getItem(SUMMARY_STORAGE_KEY),
+        ]);
         if (raw) {
           const parsed = JSON.parse(raw);
           if (Array.isArray(parsed)) {
-            setMessages(parsed);
+            setMessages(markUnansweredTurn(parsed));
           }
         }
+        setSummary(rawSummary ? JSON.parse(rawSummary) : null);
       } catch (error) {
         console.warn('History loading error', error);
+      } finally {
+        setHistoryLoaded(true);
       }
     };
 
+    openerRequestedRef.current = false;
     loadPrompt();
     loadHistory();
-  }, [profile, CHAT_STORAGE_KEY]);
+    loadGameSettings().then(setSettings);
+  }, [profile, language, t, CHAT_STORAGE_KEY, SUMMARY_STORAGE_KEY]);
 
   useEffect(() => {
     const persistHistory = async () => {
@@ -93,134 +141,382 @@ export const useChat = (
     persistHistory();
   }, [messages, CHAT_STORAGE_KEY]);
 
+  /**
+   * Sends `request` and reveals the character's reply bubble by bubble.
+   * Once the reply is validated, bubbles shown from the stream that differ
+   * from the final message are replaced, so the screen matches what is saved.
+   * Resolves with null when the screen was left before the reply was shown.
+   */
+  const requestReply = useCallback(async (
+    request: CompletionRequest,
+    controller: AbortController
+  ): Promise<{ content: string; parsed: ParsedAssistantResponse; promptVersion?: string } | null> => {
+    // Chaque ligne du champ "message" devient une bulle, révélée après un
+    // délai de frappe réaliste pendant que la suite arrive encore.
+    const scheduledLines: string[] = [];
+    let delivery = Promise.resolve();
+    const scheduleBubbles = (text: string, isFinal: boolean) => {
+      const lines = splitBubbles(text);
+      const readyLines = isFinal ? lines : lines.slice(0, -1);
+      for (let index = scheduledLines.length; index < readyLines.length; index += 1) {
+        const line = readyLines[index];
+        scheduledLines.push(line);
+        delivery = delivery.then(async () => {
+          await wait(typingDelay(line));
+          if (!controller.signal.aborted) {
+            setTypingLines((prev) => [...prev, line]);
+          }
+        });
+      }
+    };
+
+    const reply = llmConfig.stream && provider.stream
+      ? await provider.stream(request, (contentSoFar) =>
+          scheduleBubbles(extractStreamingMessage(contentSoFar), false)
+        )
+      : await provider.complete(request);
+    const resolved = await resolveAssistantReply(provider, reply.content, profile, t, controller.signal);
+    const finalLines = splitBubbles(resolved.parsed.message);
+    if (scheduledLines.some((line, index) => finalLines[index] !== line)) {
+      // Réponse réparée ou remplacée : les bulles tirées du flux brut laissent
+      // la place à celles du message validé, le seul qui est enregistré
+      await delivery;
+      const shownLines = finalLines.slice(0, scheduledLines.length);
+      scheduledLines.splice(0, scheduledLines.length, ...shownLines);
+      if (!controller.signal.aborted) {
+        setTypingLines(shownLines);
+      }
+    }
+    scheduleBubbles(resolved.parsed.message, true);
+    await delivery;
+    // Le proxy construit lui-même le prompt et annonce sa version
+    return controller.signal.aborted ? null : { ...resolved, promptVersion: reply.promptVersion ?? promptVersion };
+  }, [provider, profile.id, promptVersion, t]);
+
+  const checkApiKey = useCallback((): boolean => {
+    if (requiresApiKey(llmConfig) && !llmConfig.apiKey) {
+      setNetworkError(t.chat.missingApiKey(llmConfig.apiKeyEnvName ?? 'EXPO_PUBLIC_LLM_API_KEY'));
+      return false;
+    }
+    return true;
+  }, [t]);
+
+  // Premier message du personnage, envoyé avant que le joueur n'écrive
+  const openConversation = useCallback(async () => {
+    if (!checkApiKey()) {
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setSending(true);
+    setNetworkError(null);
+    try {
+      const resolved = await requestReply({
+        persona: { profile, prompt: systemPrompt },
+        task: { kind: 'opener', scenario: session?.scenario },
+        messages: [],
+        temperature: llmConfig.temperature,
+        responseSchema: ASSISTANT_RESPONSE_SCHEMA,
+        signal: controller.signal,
+      }, controller);
+      if (!resolved) {
+        return;
+      }
+
+      // L'ouverture ne compte aucun flag et ne peut pas terminer la partie
+      const opener: ParsedAssistantResponse = {
+        message: resolved.parsed.message,
+        flagsDetected: { green: 0, red: 0, hardNo: false },
+        gameStatus: null,
+      };
+      setMessages((prev) =>
+        prev.length === 0
+          ? [{
+              role: 'assistant',
+              content: toContent(opener),
+              opener: true,
+              promptVersion: resolved.promptVersion,
+              sentAt: Date.now(),
+            }]
+          : prev
+      );
+      if (!session) {
+        await rememberMatch(profile.id);
+      }
+    } catch (error) {
+      // Sans ouverture, le joueur peut toujours écrire en premier
+      if (!isAbortError(error)) {
+        console.warn(`LLM error (${provider.id})`, error);
+        setNetworkError(describeError(error, profile, t));
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+      setTypingLines([]);
+      setSending(false);
+    }
+  }, [checkApiKey, requestReply, profile, session, systemPrompt, provider, t]);
+
+  useEffect(() => {
+    if (!historyLoaded || !settings || !systemPrompt || openerRequestedRef.current) {
+      return;
+    }
+    // Une conversation déjà commencée (ou terminée) n'est jamais rouverte
+    if (messages.length > 0 || gameStatus !== null || !characterOpensConversation(profile, settings)) {
+      return;
+    }
+    openerRequestedRef.current = true;
+    openConversation();
+  }, [historyLoaded, settings, systemPrompt, messages.length, gameStatus, profile, openConversation]);
+
   const sendMessage = useCallback(async (input: string) => {
     if (!input.trim() || sending || loadingPrompt || !systemPrompt || gameStatus !== null) {
       return;
     }
 
     // Vérifier la clé API avant de commencer
-    const apiKey = process.env.EXPO_PUBLIC_OPENAI_API_KEY;
-    if (!apiKey) {
-      setNetworkError(
-        'EXPO_PUBLIC_OPENAI_API_KEY est manquant. Ajoute ta clé OpenAI dans ton environnement Expo.'
-      );
+    if (!checkApiKey()) {
       return;
     }
 
     const trimmed = input.trim();
-    const updatedMessages: Message[] = [...messages, { role: 'user', content: trimmed }];
+    // Un message en échec est toujours le dernier : en envoyer un nouveau le remplace
+    const failed = messages.find((msg) => msg.failed);
+    const history = messages.filter((msg) => !msg.failed);
+    // Mode chrono : le joueur a répondu au premier envoi, un échec réseau ne le met pas en retard
+    const pending = settings?.timedMode ? getPendingReply(history) : null;
+    const replyDelayMs = pending ? (failed?.sentAt ?? Date.now()) - pending.sentAt : 0;
+    const penalty = latePenalty(replyDelayMs);
+    const updatedMessages: Message[] = [
+      ...history,
+      { role: 'user', content: trimmed, sentAt: Date.now(), ...(penalty > 0 ? { penalty } : {}) },
+    ];
+    const playerIndex = updatedMessages.length - 1;
     setMessages(updatedMessages);
     setSending(true);
     setNetworkError(null);
 
-    // Si c'est le premier message, ajouter le profil aux matchés
-    if (messages.length === 0) {
-      try {
-        const MATCHED_PROFILES_KEY = 'rizzmaster_matched_profiles';
-        const matchedData = await AsyncStorage.getItem(MATCHED_PROFILES_KEY);
-        const matched = matchedData ? JSON.parse(matchedData) : [];
-        if (!matched.includes(profile.id)) {
-          matched.push(profile.id);
-          await AsyncStorage.setItem(MATCHED_PROFILES_KEY, JSON.stringify(matched));
-        }
-      } catch (error) {
-        console.warn('Error saving match on first message:', error);
-      }
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // Si c'est le premier message du joueur, ajouter le profil aux matchés (hors défi du jour)
+    if (!session && !history.some((msg) => msg.role === 'user')) {
+      await rememberMatch(profile.id);
     }
 
     try {
 
-      const contextMessage = `[CONTEXTE INTERNE - NE PAS MENTIONNER: Green flags cumulés: ${flagStats.green}, Red flags cumulés: ${flagStats.red}, Tolérance red: ${profile.difficulty.toleranceRed}, Min green pour gagner: ${profile.difficulty.minGreenForSecondDate}, Échanges: ${Math.floor(updatedMessages.length / 2)}]`;
-
-      const response = await fetch(OPENAI_CHAT_ENDPOINT, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model: OPENAI_MODEL,
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'system', content: contextMessage },
-            ...updatedMessages.map((msg) => ({
-              role: msg.role,
-              content: msg.content,
-            })),
-          ],
-          temperature: 0.8,
-        }),
-      });
+      const context: TurnContext = {
+        green: flagStats.green,
+        red: flagStats.red,
+        score: flagStats.score,
+        exchanges: updatedMessages.filter((msg) => msg.role === 'user').length,
+      };
+      const contextMessage = buildTaskSystem({ kind: 'turn', context }, profile).join('\n\n');
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`HTTP ${response.status}: ${errorText}`);
+      // Au-delà du budget, les anciens échanges sont remplacés par un résumé
+      // écrit par le personnage ; les totaux passent toujours par le contexte interne.
+      let activeSummary = summary;
+      let firstSentIndex = summary?.coveredCount ?? 0;
+      if (hasContextWindow(llmConfig)) {
+        const plan = planContext({
+          systemTokens: estimateTokens(systemPrompt) + estimateTokens(contextMessage),
+          messages: updatedMessages,
+          summary,
+          budget: llmConfig.contextBudget,
+          keepRecent: KEEP_RECENT_MESSAGES,
+        });
+        if (plan.summaryUpdate) {
+          try {
+            const text = await summarizeConversation(
+              provider, profile, summary, plan.summaryUpdate.toSummarize, parseAssistantMessage, controller.signal
+            );
+            activeSummary = { text, coveredCount: plan.summaryUpdate.coveredCount };
+            setSummary(activeSummary);
+            await AsyncStorage.setItem(SUMMARY_STORAGE_KEY, JSON.stringify(activeSummary));
+            countDiagnostic('context_summarized');
+          } catch (error) {
+            if (isAbortError(error)) throw error;
+            // Sans résumé, les plus anciens échanges sont simplement laissés de côté
+            recordDiagnostic('context_summary_failed', {
+              provider: provider.id,
+              profileId: profile.id,
+              estimatedTokens: plan.estimatedTokens,
+              error: String(error),
+            });
+          }
+          firstSentIndex = plan.summaryUpdate.coveredCount;
+        }
       }
 
-      const payload = await response.json();
-      const assistantContent: string =
-        payload?.choices?.[0]?.message?.content ??
-        '{"message": "Impossible de lire la réponse.", "flagsDetected": {"green": 0, "red": 0, "hardNo": false}, "gameStatus": null}';
+      const resolved = await requestReply({
+        persona: { profile, prompt: systemPrompt },
+        task: {
+          kind: 'turn',
+          context,
+          summary: activeSummary?.text,
+          lateReplySeconds: penalty > 0 ? Math.round(replyDelayMs / 1000) : undefined,
+          scenario: session?.scenario,
+        },
+        messages: updatedMessages.slice(firstSentIndex),
+        temperature: llmConfig.temperature,
+        responseSchema: ASSISTANT_RESPONSE_SCHEMA,
+        signal: controller.signal,
+      }, controller);
+      // Écran quitté pendant la frappe : rien n'est compté, le tour reste à renvoyer
+      if (!resolved) {
+        return;
+      }
+      const { content: assistantContent, parsed: parsedResponse, promptVersion: replyVersion } = resolved;
 
-      const parsedResponse = parseAssistantResponse(assistantContent);
-      onFlagsDetected(parsedResponse.flagsDetected);
+      const matched = sanitizeFlagIds(parsedResponse.flagsDetected.matched, profile);
+      const totals = onFlagsDetected({ ...parsedResponse.flagsDetected, matched, ...(penalty > 0 ? { penalty } : {}) }, {
+        modelStatus: parsedResponse.gameStatus,
+        exchanges: updatedMessages.filter((msg) => msg.role === 'user').length,
+        promptVersion: replyVersion,
+      });
 
-      setMessages((prev) => [...prev, { role: 'assistant', content: assistantContent }]);
+      // Les flags déclenchés et le score du tour sont rattachés au message du joueur qui les a provoqués
+      setMessages((prev) => [
+        ...prev.map((msg, index) =>
+          index === playerIndex ? { ...msg, ...(matched ? { flags: matched } : {}), score: totals.score } : msg
+        ),
+        { role: 'assistant', content: assistantContent, promptVersion: replyVersion, sentAt: Date.now() },
+      ]);
     } catch (error) {
-      console.warn('OpenAI error', error);
-      setNetworkError(
-        "Erreur lors de l'appel à ChatGPT. Vérifie ta connexion et ta clé EXPO_PUBLIC_OPENAI_API_KEY."
+      // Le tour n'a pas abouti : aucun flag compté, le message du joueur reste à renvoyer
+      setMessages((prev) =>
+        prev.map((msg, index) => (index === playerIndex ? { ...msg, failed: true } : msg))
       );
+      if (!isAbortError(error)) {
+        console.warn(`LLM error (${provider.id})`, error);
+        setNetworkError(describeError(error, profile, t));
+      }
     } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+      setTypingLines([]);
       setSending(false);
     }
-  }, [messages, sending, loadingPrompt, systemPrompt, gameStatus, flagStats, profile.difficulty, onFlagsDetected]);
+  }, [messages, sending, loadingPrompt, systemPrompt, gameStatus, flagStats, profile, session, language, t, checkApiKey, requestReply, onFlagsDetected, provider, summary, settings, SUMMARY_STORAGE_KEY]);
+
+  const resendMessage = useCallback(() => {
+    const last = messages[messages.length - 1];
+    if (last?.failed) {
+      sendMessage(last.content);
+    }
+  }, [messages, sendMessage]);
 
   const resetChat = useCallback(async () => {
+    // Une nouvelle partie commence par une nouvelle ouverture
+    openerRequestedRef.current = false;
     setMessages([]);
+    setSummary(null);
     try {
-      await AsyncStorage.removeItem(CHAT_STORAGE_KEY);
+      await Promise.all([
+        AsyncStorage.removeItem(CHAT_STORAGE_KEY),
+        AsyncStorage.removeItem(SUMMARY_STORAGE_KEY),
+      ]);
     } catch (error) {
       console.warn('Reset chat error', error);
     }
-  }, [CHAT_STORAGE_KEY]);
+  }, [CHAT_STORAGE_KEY, SUMMARY_STORAGE_KEY]);
 
   return {
     messages,
     sending,
+    typingLines,
     loadingPrompt,
     promptError,
     networkError,
+    timedMode: !!settings?.timedMode,
     sendMessage,
+    resendMessage,
     resetChat,
   };
 };
 
-const parseAssistantResponse = (raw: string): ParsedAssistantResponse => {
-  const defaultResponse: ParsedAssistantResponse = {
-    message: '',
-    flagsDetected: { green: 0, red: 0, hardNo: false },
-    gameStatus: null,
-  };
+// Conversations started, listed in the Messages tab
+const rememberMatch = async (profileId: string) => {
+  try {
+    const matchedData = await AsyncStorage.getItem(MATCHED_PROFILES_KEY);
+    const matched = matchedData ? JSON.parse(matchedData) : [];
+    if (!matched.includes(profileId)) {
+      matched.push(profileId);
+      await AsyncStorage.setItem(MATCHED_PROFILES_KEY, JSON.stringify(matched));
+    }
+  } catch (error) {
+    console.warn('Error saving match:', error);
+  }
+};
 
-  if (!raw) {
-    return defaultResponse;
+/**
+ * A player message left without a reply belongs to a turn that never
+ * finished (app closed or screen left mid-request): it is shown as failed.
+ */
+const markUnansweredTurn = (history: Message[]): Message[] => {
+  const last = history[history.length - 1];
+  return last?.role === 'user' && !last.failed
+    ? [...history.slice(0, -1), { ...last, failed: true }]
+    : history;
+};
+
+const describeError = (error: unknown, profile: CharacterProfile, t: Strings): string => {
+  if (error instanceof LLMHttpError && error.status === 429) {
+    return t.chat.rateLimited(profile.name);
   }
+  if (error instanceof LLMHttpError && error.status >= 500) {
+    return t.chat.serverError(error.status);
+  }
+  return t.chat.requestError;
+};
 
-  try {
-    const parsed = JSON.parse(raw);
-    return {
-      message: parsed.message || '',
-      flagsDetected: {
-        green: parsed.flagsDetected?.green || 0,
-        red: parsed.flagsDetected?.red || 0,
-        hardNo: parsed.flagsDetected?.hardNo || false,
-      },
-      gameStatus: parsed.gameStatus || null,
-    };
-  } catch {
-    return { ...defaultResponse, message: raw.trim() };
+const toContent = (parsed: ParsedAssistantResponse): string => JSON.stringify(parsed);
+
+/**
+ * Validates a raw model reply against the JSON contract. An invalid reply gets
+ * one repair request; if that fails too, the turn counts zero flags. Every
+ * failure is recorded in the diagnostics.
+ */
+const resolveAssistantReply = async (
+  provider: LLMProvider,
+  raw: string,
+  profile: CharacterProfile,
+  t: Strings,
+  signal: AbortSignal
+): Promise<{ content: string; parsed: ParsedAssistantResponse }> => {
+  const firstPass = parseAssistantContract(raw);
+  if (firstPass.ok) {
+    countDiagnostic('contract_valid');
+    return { content: toContent(firstPass.value), parsed: firstPass.value };
   }
+
+  const context = { provider: provider.id, model: provider.model, profileId: profile.id, raw: raw.slice(0, 500) };
+  recordDiagnostic('contract_invalid', { ...context, errors: firstPass.errors });
+
+  if (raw.trim()) {
+    try {
+      const repair = await repairAssistantResponse(provider, profile, raw, firstPass.errors, signal);
+      if (repair.result.ok) {
+        recordDiagnostic('contract_repaired', context);
+        return { content: toContent(repair.result.value), parsed: repair.result.value };
+      }
+      recordDiagnostic('contract_repair_failed', { ...context, errors: repair.result.errors });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      recordDiagnostic('contract_repair_failed', { ...context, errors: [String(error)] });
+    }
+  }
+
+  const fallback: ParsedAssistantResponse = {
+    message: parseAssistantMessage(raw) || t.chat.unreadableReply,
+    flagsDetected: { green: 0, red: 0, hardNo: false },
+    gameStatus: null,
+  };
+  return { content: toContent(fallback), parsed: fallback };
 };
 
 export const parseAssistantMessage = (raw: string): string => {
@@ -229,12 +525,61 @@ export const parseAssistantMessage = (raw: string): string => {
   }
 
   try {
-    const parsed = JSON.parse(raw);
+    const parsed = JSON.parse(extractJsonObject(raw) ?? raw);
     if (parsed && typeof parsed.message === 'string') {
       return parsed.message.trim();
     }
   } catch {
   }
 
-  return raw.trim();
+  return raw.replace(/```(?:json)?/gi, '').trim();
+};
+
+export const splitBubbles = (text: string): string[] =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+const typingDelay = (line: string): number =>
+  Math.min(TYPING_MAX_MS, Math.max(TYPING_MIN_MS, line.length * TYPING_MS_PER_CHAR));
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const JSON_ESCAPES: { [key: string]: string } = {
+  n: '\n', t: '\t', r: '', b: '', f: '', '"': '"', '\\': '\\', '/': '/',
+};
+
+/**
+ * Best-effort extraction of the "message" field from a JSON reply that is
+ * still being streamed. Returns what has been received so far, or nothing
+ * until the field shows up (fences or prose before the JSON are skipped).
+ */
+const extractStreamingMessage = (partial: string): string => {
+  const start = partial.match(/"message"\s*:\s*"/);
+  if (!start || start.index === undefined) {
+    return '';
+  }
+
+  let result = '';
+  for (let i = start.index + start[0].length; i < partial.length; i += 1) {
+    const char = partial[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      result += char;
+      continue;
+    }
+    const next = partial[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = partial.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      result += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      result += JSON_ESCAPES[next] ?? next;
+      i += 1;
+    }
+  }
+  return result;
 };
@@ -0,0 +1,87 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { getLLMConfig } from '../config/llm';
+import { Locale } from '../i18n/locales';
+import { CharacterProfile } from '../types/character';
+import { Message } from '../types/chat';
+import { CoachTip, judgeDraft, reviewDraft } from '../services/coach';
+import { createModelProvider, isAbortError } from '../services/llm';
+import { parseAssistantMessage } from './useChat';
+
+const llmConfig = getLLMConfig();
+// The coach reads the draft once the player stops typing
+const REVIEW_DELAY_MS = 1200;
+const MIN_DRAFT_LENGTH = 3;
+
+/**
+ * Coach mode: reviews the draft in the input box against `profile` and
+ * calls `onTip` for every tip shown, so the game can be marked as coached.
+ */
+export const useCoach = ({
+  enabled,
+  profile,
+  messages,
+  draft,
+  locale,
+  onTip,
+}: {
+  enabled: boolean;
+  profile: CharacterProfile;
+  messages: Message[];
+  draft: string;
+  locale: Locale;
+  onTip: () => void;
+}) => {
+  const provider = useMemo(() => createModelProvider(llmConfig), []);
+  const [tip, setTip] = useState<CoachTip | null>(null);
+  const [reviewing, setReviewing] = useState(false);
+  // L'historique est lu au moment de la relecture, sans la relancer à chaque message
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  const text = draft.trim();
+
+  useEffect(() => {
+    setTip(null);
+    if (!enabled || text.length < MIN_DRAFT_LENGTH) {
+      setReviewing(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setReviewing(true);
+      try {
+        const review = await reviewDraft(
+          provider,
+          profile,
+          messagesRef.current,
+          text,
+          locale,
+          parseAssistantMessage,
+          controller.signal
+        );
+        if (!controller.signal.aborted) {
+          setTip(review);
+          onTip();
+        }
+      } catch (error) {
+        if (!isAbortError(error)) {
+          // Modèle injoignable : le juge hors ligne donne quand même une tendance
+          console.warn('Coach review error', error);
+          setTip(judgeDraft(profile, text, locale));
+          onTip();
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setReviewing(false);
+        }
+      }
+    }, REVIEW_DELAY_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [enabled, text, profile, locale, provider, onTip]);
+
+  return { tip, reviewing };
+};
@@ -1,22 +1,51 @@
 import { useCallback, useEffect, useState } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { CharacterProfile } from '../types/character';
+import { FlagDelta, resolveTurn } from '../services/gameRules';
+import { recordDiagnostic } from '../services/diagnostics';
+import { CampaignReward, recordWin } from '../services/campaign';
 
 export type FlagStats = {
   green: number;
   red: number;
   hardNo: boolean;
+  score: number; // weighted momentum score, see services/gameRules
 };
 
+const EMPTY_FLAG_STATS: FlagStats = { green: 0, red: 0, hardNo: false, score: 0 };
+
 export type GameStatus = 'GAME_OVER' | 'GAME_WON' | null;
 
+// What the chat reports with the flags of each completed turn
+export type GameTurn = {
+  modelStatus: GameStatus;
+  exchanges: number;
+  promptVersion?: string; // version of the script template the reply was written with
+};
+
+/**
+ * A game played apart from the regular conversation with the profile, like
+ * the daily challenge. It is saved under its own id, is not listed in the
+ * Messages tab and gives no campaign XP.
+ */
+export type GameSession = {
+  id: string;        // replaces the profile id in storage keys
+  scenario?: number; // starting situation, index in the `daily.scenarios` strings
+};
+
 const FLAGS_STORAGE_KEY_PREFIX = 'rizzmaster_flags_';
 
-export const useGameState = (profile: CharacterProfile) => {
-  const FLAGS_STORAGE_KEY = `${FLAGS_STORAGE_KEY_PREFIX}${profile.id}`;
+export const useGameState = (profile: CharacterProfile, session?: GameSession) => {
+  const FLAGS_STORAGE_KEY = `${FLAGS_STORAGE_KEY_PREFIX}${session?.id ?? profile.id}`;
 
-  const [flagStats, setFlagStats] = useState<FlagStats>({ green: 0, red: 0, hardNo: false });
+  const [flagStats, setFlagStats] = useState<FlagStats>(EMPTY_FLAG_STATS);
   const [gameStatus, setGameStatus] = useState<GameStatus>(null);
+  // Version du script de la partie, fixée au premier tour joué
+  const [promptVersion, setPromptVersion] = useState<string | null>(null);
+  const [reward, setReward] = useState<CampaignReward | null>(null);
+  const [ghosted, setGhosted] = useState(false);
+  // Le coach a relu au moins un message : la partie ne compte pas pour la campagne
+  const [coached, setCoached] = useState(false);
 
   useEffect(() => {
     const loadFlags = async () => {
@@ -24,8 +53,12 @@ export const useGameState = (profile: CharacterProfile) => {
         const flagsRaw = await AsyncStorage.getItem(FLAGS_STORAGE_KEY);
         if (flagsRaw) {
           const parsedFlags = JSON.parse(flagsRaw);
-          setFlagStats(parsedFlags.stats || { green: 0, red: 0, hardNo: false });
+          setFlagStats({ ...EMPTY_FLAG_STATS, ...parsedFlags.stats });
           setGameStatus(parsedFlags.gameStatus || null);
+          setPromptVersion(parsedFlags.promptVersion ?? null);
+          setReward(parsedFlags.reward ?? null);
+          setGhosted(!!parsedFlags.ghosted);
+          setCoached(!!parsedFlags.coached);
         }
       } catch (error) {
         console.warn('Flags loading error', error);
@@ -40,46 +73,73 @@ export const useGameState = (profile: CharacterProfile) => {
         await AsyncStorage.setItem(FLAGS_STORAGE_KEY, JSON.stringify({
           stats: flagStats,
           gameStatus: gameStatus,
+          promptVersion,
+          reward,
+          ghosted,
+          coached,
         }));
       } catch (error) {
         console.warn('Flags saving error', error);
       }
     };
     persistFlags();
-  }, [flagStats, gameStatus, FLAGS_STORAGE_KEY]);
+  }, [flagStats, gameStatus, promptVersion, reward, ghosted, coached, FLAGS_STORAGE_KEY]);
 
-  const updateFlags = useCallback((detectedFlags: { green: number; red: number; hardNo: boolean }) => {
-    const newGreen = flagStats.green + detectedFlags.green;
-    const newRed = flagStats.red + detectedFlags.red;
-    const newHardNo = flagStats.hardNo || detectedFlags.hardNo;
-
-    setFlagStats({
-      green: newGreen,
-      red: newRed,
-      hardNo: newHardNo,
+  const updateFlags = useCallback((
+    detectedFlags: FlagDelta,
+    turn: GameTurn
+  ) => {
+    const verdict = resolveTurn({
+      profile,
+      totals: flagStats,
+      delta: detectedFlags,
+      exchanges: turn.exchanges,
+      modelStatus: turn.modelStatus,
     });
 
-    let finalGameStatus: GameStatus = null;
+    setFlagStats(verdict.totals);
+    setPromptVersion((prev) => prev ?? turn.promptVersion ?? null);
 
-    if (newRed >= profile.difficulty.toleranceRed || newHardNo) {
-      finalGameStatus = 'GAME_OVER';
-    } else if (
-      newGreen >= profile.difficulty.minGreenForSecondDate &&
-      newRed < profile.difficulty.toleranceRed
-    ) {
-      finalGameStatus = 'GAME_WON';
+    if (verdict.conflict) {
+      recordDiagnostic('game_status_conflict', {
+        profileId: profile.id,
+        conflict: verdict.conflict,
+        localStatus: verdict.localStatus,
+        modelStatus: verdict.modelStatus,
+        exchanges: turn.exchanges,
+        promptVersion: turn.promptVersion,
+        totals: verdict.totals,
+      });
     }
 
-    if (finalGameStatus) {
-      setGameStatus(finalGameStatus);
+    if (verdict.status) {
+      setGameStatus(verdict.status);
+    }
+    // La campagne ne retient que les victoires des parties normales, obtenues sans le coach
+    if (verdict.status === 'GAME_WON' && !coached && !session) {
+      recordWin(profile, verdict.totals).then(setReward);
     }
 
-    return finalGameStatus;
-  }, [flagStats, profile.difficulty]);
+    return verdict.totals;
+  }, [coached, flagStats, profile, session]);
+
+  // Timed mode: the player left the character on read, which ends the game like a hardNo
+  const registerGhosting = useCallback(() => {
+    setFlagStats((prev) => ({ ...prev, hardNo: true }));
+    setGhosted(true);
+    setGameStatus('GAME_OVER');
+  }, []);
+
+  // Coach mode: a reviewed draft keeps the game out of the campaign and rankings
+  const markCoached = useCallback(() => setCoached(true), []);
 
   const resetGameState = useCallback(async () => {
-    setFlagStats({ green: 0, red: 0, hardNo: false });
+    setFlagStats(EMPTY_FLAG_STATS);
     setGameStatus(null);
+    setPromptVersion(null);
+    setReward(null);
+    setGhosted(false);
+    setCoached(false);
     try {
       await AsyncStorage.removeItem(FLAGS_STORAGE_KEY);
     } catch (error) {
@@ -90,7 +150,13 @@ export const useGameState = (profile: CharacterProfile) => {
   return {
     flagStats,
     gameStatus,
+    promptVersion,
+    reward,
+    ghosted,
+    coached,
     updateFlags,
+    registerGhosting,
+    markCoached,
     resetGameState,
   };
 };
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { Message } from '../types/chat';
+import { getPendingReply, isGhosting, REPLY_WINDOW_MS } from '../services/replyTimer';
+import { FlagStats, GameStatus } from './useGameState';
+
+const TICK_MS = 1000;
+
+/**
+ * Countdown of the character message waiting for a reply, in timed mode.
+ * Calls `onGhosted` once the player has left the character on read for too
+ * long. Time spent away from the chat, app closed included, counts: reopening
+ * a conversation left on read too long ends it at once.
+ */
+export const useReplyTimer = ({
+  enabled,
+  messages,
+  flagStats,
+  gameStatus,
+  onGhosted,
+}: {
+  enabled: boolean;
+  messages: Message[];
+  flagStats: FlagStats;
+  gameStatus: GameStatus;
+  onGhosted: () => void;
+}) => {
+  const [now, setNow] = useState(() => Date.now());
+  const pending = enabled && gameStatus === null ? getPendingReply(messages) : null;
+  const sentAt = pending?.sentAt;
+
+  useEffect(() => {
+    if (sentAt === undefined) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [sentAt]);
+
+  const elapsedMs = sentAt === undefined ? 0 : Math.max(0, now - sentAt);
+  const ghosted = sentAt !== undefined && isGhosting(flagStats, elapsedMs);
+
+  useEffect(() => {
+    if (ghosted) {
+      onGhosted();
+    }
+  }, [ghosted, onGhosted]);
+
+  return {
+    active: sentAt !== undefined,
+    remainingMs: Math.max(0, REPLY_WINDOW_MS - elapsedMs),
+    late: elapsedMs > REPLY_WINDOW_MS,
+  };
+};
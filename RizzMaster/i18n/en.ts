@@ -0,0 +1,336 @@
+import { Strings } from './fr';
+
+export const en: Strings = {
+  common: {
+    loading: 'Loading...',
+    cancel: 'Cancel',
+    back: 'Back',
+    error: 'Error',
+    you: 'You',
+  },
+
+  difficulty: {
+    easy: 'Easy',
+    medium: 'Medium',
+    hard: 'Hard',
+  },
+
+  language: {
+    title: 'Language',
+    system: 'Device language',
+    names: { fr: 'Français', en: 'English' },
+  },
+
+  settings: {
+    title: '⚙️ Options',
+    characterOpens: (on) => `Character writes first: ${on ? 'yes' : 'no'}`,
+    timedMode: (on) => `Timed mode: ${on ? 'yes' : 'no'}`,
+  },
+
+  preferences: {
+    open: '🎯 Preferences',
+    title: 'My preferences',
+    save: 'Save',
+    genders: 'I want to see',
+    women: 'Women',
+    men: 'Men',
+    difficulty: 'Difficulty',
+    from: 'From',
+    to: 'To',
+    archetypes: 'Favourite archetypes',
+    archetypesHint: 'They come first in the deck.',
+  },
+
+  home: {
+    loading: (progress) => `Loading... ${progress}%`,
+  },
+
+  select: {
+    like: 'LIKE 💚',
+    next: 'NEXT ❌',
+    noMoreProfiles: 'No more profiles!',
+    restart: 'Start over',
+    create: '＋ Create',
+    createCharacter: '＋ Create a character',
+    import: '📥 Import',
+    importCharacter: '📥 Import a character',
+    resetAll: '🔄 Reset everything',
+    edit: '✏️ Edit',
+    share: (name) => `Share ${name}`,
+    shareFileWithPhoto: 'File with photo',
+    shareFileWithoutPhoto: 'File without photo',
+    shareLink: 'Link',
+    showDetails: 'ⓘ See profile',
+    hideDetails: 'Hide profile',
+    interests: 'Interests',
+    generate: '✨ Generate',
+    generateCharacter: '✨ Generate a character',
+    tabSwipe: 'Swipe',
+    tabMessages: 'Messages',
+    tabDaily: 'Daily challenge',
+  },
+
+  conversations: {
+    title: 'Messages',
+    emptyTitle: 'No matches yet',
+    emptyText: 'Swipe right on someone you like to start chatting!',
+    newBadge: 'NEW',
+    youPrefix: 'You: ',
+  },
+
+  chat: {
+    loadingScript: 'Loading the script...',
+    start: 'Start the conversation by writing your first message.',
+    typing: (name) => `${name} is typing…`,
+    toBottom: 'Back to bottom',
+    placeholder: 'Write your message here...',
+    send: 'Send',
+    resend: 'Resend the message',
+    notSent: 'Not sent · Tap to resend',
+    timer: (seconds) => `⏱️ ${seconds} s to reply`,
+    timerLate: '⏱️ Late: your reply will cost red flags',
+    coachOn: '🎓 Coach on',
+    coachOff: '🎓 Turn coach on',
+    coachReviewing: '🎓 The coach is reading your message…',
+    missingApiKey: (envName) => `${envName} is missing. Add your API key to your Expo environment.`,
+    promptError: 'Could not load the prompt (script.en.txt).',
+    unreadableReply: 'Could not read the reply.',
+    rateLimited: (name) => `${name} is getting too many messages right now. Try again in a moment.`,
+    serverError: (status) => `The model server is not responding (HTTP ${status}). Try again later.`,
+    requestError: 'The model call failed. Check your connection and your LLM configuration.',
+  },
+
+  result: {
+    won: 'You won!',
+    lost: 'Match cancelled',
+    wonSubtitle: (name) => `${name} wants a second date with you!`,
+    hardNoSubtitle: (name) => `${name} drew a clear line...`,
+    ghostedSubtitle: (name) => `You left ${name} on read. Ghosting.`,
+    lostSubtitle: (name) => `${name} is no longer interested...`,
+    greenFlags: 'Green Flags',
+    redFlags: 'Red Flags',
+    hardNo: 'Hard No',
+    whatMattered: 'What mattered',
+    coached: '🎓 Coached game: unranked, no XP',
+    playAgain: 'Play again',
+    debrief: '📋 See the debrief',
+    mainMenu: 'Main menu',
+  },
+
+  daily: {
+    title: '🗓️ Daily challenge',
+    scenarioLabel: 'How it starts',
+    play: 'Take the challenge',
+    noProfile: 'No profile available for the daily challenge.',
+    doneWon: 'Challenge won today!',
+    doneLost: 'Challenge lost today…',
+    comeBack: 'Come back tomorrow for a new challenge.',
+    streak: (days) => `🔥 ${days} day${days > 1 ? 's' : ''} in a row`,
+    bestStreak: (days) => `Best: ${days} day${days > 1 ? 's' : ''}`,
+    leaderboard: 'Leaderboard',
+    emptyLeaderboard: 'Take your first challenge to enter the leaderboard.',
+    entry: ({ date, exchanges, green, red }) =>
+      `${date} · ${exchanges} exchange${exchanges > 1 ? 's' : ''} · 💚 ${green} 🚩 ${red}`,
+    won: 'Won',
+    lost: 'Lost',
+    coached: '🎓 Coached game: unranked',
+    banner: (scenario) => `🗓️ Daily challenge: ${scenario}`,
+    scenarios: [
+      'You matched right after crossing paths at the same concert last night.',
+      'You are both stuck on the same delayed train.',
+      'You both liked the same dog picture in the neighbourhood group.',
+      'It is a rainy Sunday and you are both looking for a last-minute plan.',
+      'You both just moved to the city.',
+      'A mutual friend pushed you to text each other.',
+    ],
+  },
+
+  debrief: {
+    title: 'Debrief',
+    close: 'Back to the result',
+    balance: 'Balance turn by turn',
+    turn: (turn) => `T${turn}`,
+    winLine: 'Second date',
+    loseLine: 'End',
+    transcript: 'The conversation',
+    noFlag: 'No flag',
+    score: (score) => `Score: ${score}`,
+    penalty: (count) => `⏱️ Late: +${count} red flag${count > 1 ? 's' : ''}`,
+    hiddenFlags: (name) => `${name}'s flags`,
+    green: 'What they liked',
+    red: 'What put them off',
+    hardNo: 'Their limits',
+  },
+
+  campaign: {
+    level: (level) => `Level ${level}`,
+    xp: (current, next) => `${current} / ${next} XP`,
+    xpGained: (xp) => `+${xp} XP`,
+    repeatWin: 'Profile already won: reduced XP',
+    levelUp: (level) => `Level ${level} reached!`,
+    unlocked: (level) => `"${level}" profiles unlocked!`,
+    locked: '🔒 Locked',
+    unlockHint: (wins, level) =>
+      `Win ${wins} more game${wins > 1 ? 's' : ''} against different "${level}" profiles to unlock this profile.`,
+  },
+
+  coach: {
+    offlineLimit: (name) => `Careful, this could cross one of ${name}'s limits.`,
+    offlineRed: (name) => `Risky: this might put ${name} off.`,
+    offlineGreen: (name) => `Good lead, ${name} should like this.`,
+    offlineNeutral: (tone) => `A bit flat: play more on their ${tone} side.`,
+  },
+
+  editor: {
+    titleNew: 'New character',
+    titleEdit: 'Edit',
+    save: 'Save',
+    saveError: 'Could not save the character.',
+    deleteTitle: 'Delete this character?',
+    deleteMessage: 'Their conversation will be deleted too.',
+    delete: 'Delete',
+    deleteCharacter: 'Delete the character',
+    changePhoto: 'Change the photo',
+    choosePhoto: 'Choose a photo',
+    name: 'First name',
+    gender: 'Gender',
+    female: 'Woman',
+    male: 'Man',
+    personality: 'Personality',
+    archetype: 'Archetype',
+    archetypePlaceholder: 'e.g. Sweet & dreamy',
+    bio: 'Bio',
+    tone: 'Tone',
+    tonePlaceholder: 'e.g. playful, teasing, warm',
+    card: 'Card (optional)',
+    age: 'Age',
+    city: 'City',
+    interests: 'Interests (comma separated)',
+    interestsPlaceholder: 'e.g. Jazz, Hiking, Cooking',
+    prompts: 'Profile prompts (one per line)',
+    promptsPlaceholder: 'An ideal Sunday | A blanket and a novel',
+    flags: 'Flags (one per line)',
+    greenFlags: '💚 Green flags',
+    redFlags: '🚩 Red flags',
+    hardNo: '⛔ Hard no',
+    difficulty: 'Difficulty',
+    toleranceRed: 'Red flags tolerated',
+    minGreen: 'Green flags for a second date',
+    winPoints: 'Points to win (optional)',
+    losePoints: 'Points to lose (optional)',
+    scoring: 'Score (optional)',
+    greenWeights: 'Green flag weights',
+    redWeights: 'Red flag weights',
+    weightsPlaceholder: 'e.g. 1, 2, 1',
+    momentum: 'Momentum (0 to 1)',
+    opener: 'First message',
+    openerDefault: 'Global setting',
+    openerCharacter: 'The character',
+    openerPlayer: 'The player',
+  },
+
+  generator: {
+    title: 'New match',
+    archetype: 'Archetype',
+    archetypePlaceholder: 'e.g. Sporty & competitive',
+    generate: '✨ Generate',
+    generating: 'Creating the character...',
+    regenerate: 'Another one',
+    save: 'Add to the deck',
+    discard: 'Discard',
+    unavailable: 'Generating needs a real model: pick a provider other than "offline" or "fake".',
+    invalidReply: 'The model did not send back a readable profile. Try again.',
+    saveError: 'Could not add this character.',
+  },
+
+  importer: {
+    title: 'New character',
+    failedTitle: 'Import failed',
+    readError: 'Could not read this profile.',
+    addError: 'Could not add this character.',
+    bundledCollision: 'This character is already in the game: it will be added as a copy.',
+    customCollision: 'You already have a character with this id.',
+    replace: 'Replace mine',
+    addCopy: 'Add a copy',
+    add: 'Add to the deck',
+    invalidJson: 'This file is not valid JSON.',
+    newerVersion: 'This file comes from a newer version of RizzMaster.',
+    emptyLink: 'The link does not contain any profile.',
+    unreadableLink: 'The profile in the link cannot be read.',
+  },
+
+  issues: {
+    notAnObject: 'the profile is not a JSON object',
+    missingId: 'missing id',
+    duplicateId: (id) => `id "${id}" is already used`,
+    missingName: 'missing name',
+    invalidGender: 'must be "male" or "female"',
+    missingAvatarKey: 'missing avatar key',
+    unknownAvatar: (key) => `no image for "${key}"`,
+    notAnObjectField: 'must be an object',
+    missingText: 'missing text',
+    invalidFlagList: 'must be a list of non-empty texts',
+    emptyList: 'empty list',
+    invalidLevel: 'must be "easy", "medium" or "hard"',
+    notPositiveInteger: 'must be an integer > 0',
+    tooManyGreenRequired: (required, defined) =>
+      `${required} green flags required but only ${defined} defined`,
+    notPositiveNumber: 'must be a number > 0',
+    invalidWeights: 'must be a list of numbers >= 0',
+    extraWeights: (weights, flags) => `${weights} weights for ${flags} flags`,
+    invalidMomentum: 'must be between 0 and 1',
+    notABoolean: 'must be true or false',
+    invalidAge: (min, max) => `must be an integer between ${min} and ${max}`,
+    invalidTextList: 'must be a list of non-empty texts',
+    invalidPrompts: 'must be a list of non-empty {"question", "answer"}',
+    invalidSections: (ids) => `must map only the ${ids.map((id) => `"${id}"`).join(', ')} sections to non-empty texts`,
+    invalidLanguage: (locales) => `must be ${locales.map((code) => `"${code}"`).join(' or ')}`,
+    unknownLocale: 'unsupported language, ignored',
+    translationLength: (texts, flags) => `${texts} texts for ${flags} flags: translation ignored`,
+  },
+
+  model: {
+    languageName: 'English',
+    difficulty: ({ level, toleranceRed, minGreen }) =>
+      `Your difficulty is "${level}": you tolerate at most ${toleranceRed} red flags and need at least ${minGreen} green flags to accept a second date.`,
+    rules: ({ winPoints, losePoints, minExchanges }) =>
+      `Second date threshold: a score of ${winPoints}, after at least ${minExchanges} exchanges. End-of-conversation threshold: a score of -${losePoints}.`,
+    flagIndexHeader: 'FLAG INDEX (numbers to use in flagsDetected.matched):',
+    context: ({ green, red, score, winPoints, losePoints, exchanges }) =>
+      `[INTERNAL CONTEXT - DO NOT MENTION: Total green flags: ${green}, Total red flags: ${red}, Compatibility score: ${score} (second date from ${winPoints}, conversation ends at -${losePoints}), Exchanges: ${exchanges}]`,
+    summary: (name, text) =>
+      `[SUMMARY OF THE START OF THE CONVERSATION, from ${name}'s point of view - DO NOT MENTION]: ${text}`,
+    summarizer: (name, tone) =>
+      `You are ${name} (${tone}). You are summarising an ongoing dating conversation for yourself, in the first person and in your usual tone.
+Keep the important facts (first names, tastes mentioned, plans suggested, running jokes, moments that touched you or put you off) in 5 to 8 sentences at most.
+Reply with the summary only, as plain text, without JSON.`,
+    previousSummary: (text) => `Previous summary:\n${text}\n\n`,
+    transcript: (text) => `Rest of the conversation:\n${text}`,
+    player: 'The player',
+    generator: `You create characters for RizzMaster, a dating game where the player has to win a character over by text.
+Invent an original, believable character from the request: a first name, an age (18 or over), a city, 3 to 5 interests, 2 Hinge-style profile prompts with their answers, a short archetype (e.g. "Gentle & dreamy"), a 1 to 2 sentence dating app bio in the first person, and a tone in 3 or 4 adjectives.
+Add their flags, each a short, concrete sentence about what the player does or says: 6 to 9 green flags (what they like), 4 to 8 red flags (what puts them off) and 3 to 6 hard nos (limits that end the conversation).
+The higher the difficulty, the more specific the expectations and the subtler the red flags.
+Reply with valid JSON only, with no text around it and no code block, in exactly this format:
+{"name": string, "age": integer, "city": string, "interests": [string], "prompts": [{"question": string, "answer": string}], "personality": {"archetype": string, "shortBio": string, "tone": string}, "flags": {"green": [string], "red": [string], "hardNo": [string]}}`,
+    generatorSeeds: ({ gender, level, archetype }) =>
+      `Character: ${gender === 'female' ? 'a woman' : 'a man'}, archetype "${archetype || 'your choice'}", difficulty ${level}.`,
+    lateReply: (seconds) =>
+      `[DELAY - DO NOT MENTION EXPLICITLY: the player took ${seconds} seconds to answer your last message, much longer than usual. You may let it show in your tone.]`,
+    coach: ({ name, archetype, tone, green, red, hardNo }) =>
+      `You are the player's coach in RizzMaster, a dating game where they must win ${name} over by text. They show you the draft of their next message before sending it.
+${name}: ${archetype}, tone ${tone}.
+What ${name} likes: ${green.join('; ')}
+What puts ${name} off: ${red.join('; ')}
+${name}'s limits: ${hardNo.join('; ')}
+Give a single, very short tip (12 words at most), in English, on how the draft is likely to land, for example "a bit too laid-back for their energy".
+Never quote these lists, never say what ${name} likes or dislikes and never rewrite the message: the player has to figure it out.
+Reply only with valid JSON, no surrounding text: {"verdict": "good" | "neutral" | "risky", "tip": string}`,
+    coachDraft: (transcript, draft) =>
+      `${transcript ? `Conversation so far:\n${transcript}\n\n` : 'The conversation has not started yet.\n\n'}Player's draft:\n${draft}`,
+    scenario: (text) =>
+      `[STARTING SCENARIO - DO NOT MENTION EXPLICITLY: ${text} You may allude to it naturally.]`,
+    conversationStart: '(start of the conversation)',
+    opener: "[OPENING - DO NOT MENTION: you just matched and the player has not written anything yet. Send your first message to start the conversation, with flagsDetected at 0 and gameStatus at null.]",
+  },
+};
@@ -0,0 +1,356 @@
+// Textes de l'interface et du modèle. Une fonction par texte à compléter.
+export const fr = {
+  common: {
+    loading: 'Chargement...',
+    cancel: 'Annuler',
+    back: 'Retour',
+    error: 'Erreur',
+    you: 'Toi',
+  },
+
+  difficulty: {
+    easy: 'Facile',
+    medium: 'Moyen',
+    hard: 'Difficile',
+  },
+
+  language: {
+    title: 'Langue',
+    system: "Langue de l'appareil",
+    names: { fr: 'Français', en: 'English' },
+  },
+
+  settings: {
+    title: '⚙️ Options',
+    characterOpens: (on: boolean) => `Le personnage écrit en premier : ${on ? 'oui' : 'non'}`,
+    timedMode: (on: boolean) => `Mode chrono : ${on ? 'oui' : 'non'}`,
+  },
+
+  preferences: {
+    open: '🎯 Préférences',
+    title: 'Mes préférences',
+    save: 'Enregistrer',
+    genders: 'Je veux voir',
+    women: 'Des femmes',
+    men: 'Des hommes',
+    difficulty: 'Difficulté',
+    from: 'De',
+    to: 'À',
+    archetypes: 'Archétypes préférés',
+    archetypesHint: 'Ils passent en premier dans le deck.',
+  },
+
+  home: {
+    loading: (progress: number) => `Chargement... ${progress}%`,
+  },
+
+  select: {
+    like: 'LIKE 💚',
+    next: 'NEXT ❌',
+    noMoreProfiles: 'Plus de profils disponibles !',
+    restart: 'Recommencer',
+    create: '＋ Créer',
+    createCharacter: '＋ Créer un personnage',
+    import: '📥 Importer',
+    importCharacter: '📥 Importer un personnage',
+    resetAll: '🔄 Réinitialiser tout',
+    edit: '✏️ Modifier',
+    share: (name: string) => `Partager ${name}`,
+    shareFileWithPhoto: 'Fichier avec photo',
+    shareFileWithoutPhoto: 'Fichier sans photo',
+    shareLink: 'Lien',
+    showDetails: 'ⓘ Voir le profil',
+    hideDetails: 'Masquer le profil',
+    interests: "Centres d'intérêt",
+    generate: '✨ Générer',
+    generateCharacter: '✨ Générer un personnage',
+    tabSwipe: 'Swipe',
+    tabMessages: 'Messages',
+    tabDaily: 'Défi du jour',
+  },
+
+  conversations: {
+    title: 'Messages',
+    emptyTitle: 'Pas encore de matchs',
+    emptyText: "Swipe à droite sur quelqu'un qui te plaît pour commencer à discuter !",
+    newBadge: 'NEW',
+    youPrefix: 'Toi: ',
+  },
+
+  chat: {
+    loadingScript: 'Chargement du script...',
+    start: 'Commence la discussion en écrivant ton premier message.',
+    typing: (name: string) => `${name} est en train d'écrire…`,
+    toBottom: 'Retour en bas',
+    placeholder: 'Écris ton message ici...',
+    send: 'Envoyer',
+    resend: 'Renvoyer le message',
+    notSent: 'Non envoyé · Toucher pour renvoyer',
+    timer: (seconds: number) => `⏱️ ${seconds} s pour répondre`,
+    timerLate: '⏱️ En retard : ta réponse coûtera des red flags',
+    coachOn: '🎓 Coach activé',
+    coachOff: '🎓 Activer le coach',
+    coachReviewing: '🎓 Le coach relit ton message…',
+    missingApiKey: (envName: string) =>
+      `${envName} est manquant. Ajoute ta clé API dans ton environnement Expo.`,
+    promptError: 'Impossible de charger le prompt (script.txt).',
+    unreadableReply: 'Impossible de lire la réponse.',
+    rateLimited: (name: string) => `${name} reçoit trop de messages en ce moment. Réessaie dans un instant.`,
+    serverError: (status: number) => `Le serveur du modèle ne répond pas (HTTP ${status}). Réessaie plus tard.`,
+    requestError: "Erreur lors de l'appel au modèle. Vérifie ta connexion et ta configuration LLM.",
+  },
+
+  result: {
+    won: "C'est gagné !",
+    lost: 'Match annulé',
+    wonSubtitle: (name: string) => `${name} veut un second date avec toi !`,
+    hardNoSubtitle: (name: string) => `${name} a posé une limite claire...`,
+    ghostedSubtitle: (name: string) => `Tu as laissé ${name} sans réponse. Ghosting.`,
+    lostSubtitle: (name: string) => `${name} n'est plus intéressé(e)...`,
+    greenFlags: 'Green Flags',
+    redFlags: 'Red Flags',
+    hardNo: 'Hard No',
+    whatMattered: 'Ce qui a joué',
+    coached: '🎓 Partie coachée : hors classement, sans XP',
+    playAgain: 'Rejouer',
+    debrief: '📋 Voir le débrief',
+    mainMenu: 'Menu principal',
+  },
+
+  daily: {
+    title: '🗓️ Défi du jour',
+    scenarioLabel: 'Le point de départ',
+    play: 'Relever le défi',
+    noProfile: 'Aucun profil disponible pour le défi du jour.',
+    doneWon: "Défi réussi aujourd'hui !",
+    doneLost: "Défi raté aujourd'hui…",
+    comeBack: 'Reviens demain pour un nouveau défi.',
+    streak: (days: number) => `🔥 ${days} jour${days > 1 ? 's' : ''} d'affilée`,
+    bestStreak: (days: number) => `Record : ${days} jour${days > 1 ? 's' : ''}`,
+    leaderboard: 'Classement',
+    emptyLeaderboard: 'Relève ton premier défi pour entrer au classement.',
+    entry: ({ date, exchanges, green, red }: { date: string; exchanges: number; green: number; red: number }) =>
+      `${date} · ${exchanges} échange${exchanges > 1 ? 's' : ''} · 💚 ${green} 🚩 ${red}`,
+    won: 'Gagné',
+    lost: 'Perdu',
+    coached: '🎓 Partie coachée : hors classement',
+    banner: (scenario: string) => `🗓️ Défi du jour : ${scenario}`,
+    scenarios: [
+      'Vous avez matché juste après vous être croisés au même concert hier soir.',
+      'Vous êtes tous les deux bloqués dans le même train en retard.',
+      'Vous avez liké la même photo de chien dans le groupe du quartier.',
+      "C'est un dimanche pluvieux et vous cherchez tous les deux un plan de dernière minute.",
+      "Vous venez tous les deux d'emménager dans la ville.",
+      'Un ami commun vous a poussés à vous écrire.',
+    ],
+  },
+
+  debrief: {
+    title: 'Débrief',
+    close: 'Retour au résultat',
+    balance: 'Équilibre tour par tour',
+    turn: (turn: number) => `T${turn}`,
+    winLine: 'Second date',
+    loseLine: 'Fin',
+    transcript: 'La conversation',
+    noFlag: 'Aucun flag',
+    score: (score: string) => `Score : ${score}`,
+    penalty: (count: number) => `⏱️ Retard : +${count} red flag${count > 1 ? 's' : ''}`,
+    hiddenFlags: (name: string) => `Les flags de ${name}`,
+    green: 'Ce qui plaisait',
+    red: 'Ce qui refroidissait',
+    hardNo: 'Les limites',
+  },
+
+  campaign: {
+    level: (level: number) => `Niveau ${level}`,
+    xp: (current: number, next: number) => `${current} / ${next} XP`,
+    xpGained: (xp: number) => `+${xp} XP`,
+    repeatWin: 'Profil déjà conquis : XP réduite',
+    levelUp: (level: number) => `Niveau ${level} atteint !`,
+    unlocked: (level: string) => `Profils « ${level} » débloqués !`,
+    locked: '🔒 Verrouillé',
+    unlockHint: (wins: number, level: string) =>
+      `Gagne encore ${wins} partie${wins > 1 ? 's' : ''} contre des profils « ${level} » différents pour débloquer ce profil.`,
+  },
+
+  coach: {
+    offlineLimit: (name: string) => `Attention, ça pourrait franchir une limite de ${name}.`,
+    offlineRed: (name: string) => `Risqué : ça risque de refroidir ${name}.`,
+    offlineGreen: (name: string) => `Bonne piste, ça devrait plaire à ${name}.`,
+    offlineNeutral: (tone: string) => `Un peu neutre : joue davantage sur son côté ${tone}.`,
+  },
+
+  editor: {
+    titleNew: 'Nouveau personnage',
+    titleEdit: 'Modifier',
+    save: 'Enregistrer',
+    saveError: "Impossible d'enregistrer le personnage.",
+    deleteTitle: 'Supprimer ce personnage ?',
+    deleteMessage: 'Sa conversation sera supprimée aussi.',
+    delete: 'Supprimer',
+    deleteCharacter: 'Supprimer le personnage',
+    changePhoto: 'Changer la photo',
+    choosePhoto: 'Choisir une photo',
+    name: 'Prénom',
+    gender: 'Genre',
+    female: 'Femme',
+    male: 'Homme',
+    personality: 'Personnalité',
+    archetype: 'Archétype',
+    archetypePlaceholder: 'ex. Douce & rêveuse',
+    bio: 'Bio',
+    tone: 'Ton',
+    tonePlaceholder: 'ex. joueur, taquin, chaleureux',
+    card: 'Carte (optionnel)',
+    age: 'Âge',
+    city: 'Ville',
+    interests: "Centres d'intérêt (séparés par des virgules)",
+    interestsPlaceholder: 'ex. Jazz, Randonnée, Cuisine',
+    prompts: 'Questions du profil (une par ligne)',
+    promptsPlaceholder: 'Un dimanche idéal | Un plaid et un roman',
+    flags: 'Flags (un par ligne)',
+    greenFlags: '💚 Green flags',
+    redFlags: '🚩 Red flags',
+    hardNo: '⛔ Hard no',
+    difficulty: 'Difficulté',
+    toleranceRed: 'Red flags tolérés',
+    minGreen: 'Green flags pour un second date',
+    winPoints: 'Points pour gagner (optionnel)',
+    losePoints: 'Points pour perdre (optionnel)',
+    scoring: 'Score (optionnel)',
+    greenWeights: 'Poids des green flags',
+    redWeights: 'Poids des red flags',
+    weightsPlaceholder: 'ex. 1, 2, 1',
+    momentum: 'Momentum (0 à 1)',
+    opener: 'Premier message',
+    openerDefault: 'Réglage global',
+    openerCharacter: 'Le personnage',
+    openerPlayer: 'Le joueur',
+  },
+
+  generator: {
+    title: 'Nouveau match',
+    archetype: 'Archétype',
+    archetypePlaceholder: 'ex. Sportive & compétitive',
+    generate: '✨ Générer',
+    generating: 'Création du personnage...',
+    regenerate: 'Un autre',
+    save: 'Ajouter au deck',
+    discard: 'Jeter',
+    unavailable: 'La génération demande un vrai modèle : choisis un autre fournisseur que "offline" ou "fake".',
+    invalidReply: "Le modèle n'a pas renvoyé de profil lisible. Réessaie.",
+    saveError: "Impossible d'ajouter ce personnage.",
+  },
+
+  importer: {
+    title: 'Nouveau personnage',
+    failedTitle: 'Import impossible',
+    readError: 'Impossible de lire ce profil.',
+    addError: "Impossible d'ajouter ce personnage.",
+    bundledCollision: 'Ce personnage existe déjà dans le jeu : il sera ajouté comme copie.',
+    customCollision: 'Tu as déjà un personnage avec cet identifiant.',
+    replace: 'Remplacer le mien',
+    addCopy: 'Ajouter une copie',
+    add: 'Ajouter au deck',
+    invalidJson: "Ce fichier n'est pas un JSON valide.",
+    newerVersion: "Ce fichier vient d'une version plus récente de RizzMaster.",
+    emptyLink: 'Le lien ne contient aucun profil.',
+    unreadableLink: 'Le profil du lien est illisible.',
+  },
+
+  // Problèmes remontés par la validation des profils
+  issues: {
+    notAnObject: "le profil n'est pas un objet JSON",
+    missingId: 'identifiant manquant',
+    duplicateId: (id: string) => `identifiant "${id}" déjà utilisé`,
+    missingName: 'nom manquant',
+    invalidGender: 'doit valoir "male" ou "female"',
+    missingAvatarKey: "clé d'avatar manquante",
+    unknownAvatar: (key: string) => `aucune image pour "${key}"`,
+    notAnObjectField: 'doit être un objet',
+    missingText: 'texte manquant',
+    invalidFlagList: 'doit être une liste de textes non vides',
+    emptyList: 'liste vide',
+    invalidLevel: 'doit valoir "easy", "medium" ou "hard"',
+    notPositiveInteger: 'doit être un entier > 0',
+    tooManyGreenRequired: (required: number, defined: number) =>
+      `${required} green flags demandés pour seulement ${defined} définis`,
+    notPositiveNumber: 'doit être un nombre > 0',
+    invalidWeights: 'doit être une liste de nombres >= 0',
+    extraWeights: (weights: number, flags: number) => `${weights} poids pour ${flags} flags`,
+    invalidMomentum: 'doit être compris entre 0 et 1',
+    notABoolean: 'doit valoir true ou false',
+    invalidAge: (min: number, max: number) => `doit être un entier entre ${min} et ${max}`,
+    invalidTextList: 'doit être une liste de textes non vides',
+    invalidPrompts: 'doit être une liste de {"question", "answer"} non vides',
+    invalidSections: (ids: string[]) =>
+      `doit associer des textes non vides aux seules sections ${ids.map((id) => `"${id}"`).join(', ')}`,
+    invalidLanguage: (locales: string[]) => `doit valoir ${locales.map((code) => `"${code}"`).join(' ou ')}`,
+    unknownLocale: 'langue non prise en charge, ignorée',
+    translationLength: (texts: number, flags: number) =>
+      `${texts} textes pour ${flags} flags : traduction ignorée`,
+  },
+
+  // Textes envoyés au modèle
+  model: {
+    languageName: 'français',
+    difficulty: ({ level, toleranceRed, minGreen }: { level: string; toleranceRed: number; minGreen: number }) =>
+      `Ta difficulté est "${level}" : tu tolères au plus ${toleranceRed} red flags et il te faut au moins ${minGreen} green flags pour accepter un second date.`,
+    rules: ({ winPoints, losePoints, minExchanges }: { winPoints: number; losePoints: number; minExchanges: number }) =>
+      `Seuil du second date : score de ${winPoints}, après au moins ${minExchanges} échanges. Seuil de fin de la conversation : score de -${losePoints}.`,
+    flagIndexHeader: 'INDEX DES FLAGS (numéros à utiliser dans flagsDetected.matched):',
+    context: ({ green, red, score, winPoints, losePoints, exchanges }: {
+      green: number;
+      red: number;
+      score: string;
+      winPoints: number;
+      losePoints: number;
+      exchanges: number;
+    }) =>
+      `[CONTEXTE INTERNE - NE PAS MENTIONNER: Green flags cumulés: ${green}, Red flags cumulés: ${red}, Score de compatibilité: ${score} (second date à partir de ${winPoints}, fin de la conversation à -${losePoints}), Échanges: ${exchanges}]`,
+    summary: (name: string, text: string) =>
+      `[RÉSUMÉ DU DÉBUT DE LA CONVERSATION, du point de vue de ${name} - NE PAS MENTIONNER]: ${text}`,
+    summarizer: (name: string, tone: string) =>
+      `Tu es ${name} (${tone}). Tu résumes pour toi-même, à la première personne et avec ton ton habituel, une conversation de dating en cours.
+Garde les faits importants (prénoms, goûts évoqués, plans proposés, blagues récurrentes, moments où tu as été touché·e ou refroidi·e) en 5 à 8 phrases maximum.
+Réponds uniquement avec le résumé, en texte brut, sans JSON.`,
+    previousSummary: (text: string) => `Résumé précédent :\n${text}\n\n`,
+    transcript: (text: string) => `Suite de la conversation :\n${text}`,
+    player: 'Le joueur',
+    generator: `Tu crées des personnages pour RizzMaster, un jeu de dating où le joueur doit séduire un personnage par messages.
+Invente un personnage original et crédible d'après la demande : un prénom, un âge (18 ans ou plus), une ville, 3 à 5 centres d'intérêt, 2 questions de profil façon Hinge avec ses réponses, un archétype court (ex. "Douce & rêveuse"), une bio d'appli de 1 à 2 phrases à la première personne, et un ton en 3 ou 4 adjectifs.
+Ajoute ses flags, chacun une phrase courte et concrète sur ce que fait ou dit le joueur : 6 à 9 green flags (ce qui lui plaît), 4 à 8 red flags (ce qui le refroidit) et 3 à 6 hard no (les limites qui mettent fin à la conversation).
+Plus la difficulté est élevée, plus les attentes sont précises et les red flags subtils.
+Réponds uniquement avec un JSON valide, sans texte autour ni bloc de code, au format exact :
+{"name": string, "age": entier, "city": string, "interests": [string], "prompts": [{"question": string, "answer": string}], "personality": {"archetype": string, "shortBio": string, "tone": string}, "flags": {"green": [string], "red": [string], "hardNo": [string]}}`,
+    generatorSeeds: ({ gender, level, archetype }: { gender: 'male' | 'female'; level: string; archetype: string }) =>
+      `Personnage : ${gender === 'female' ? 'une femme' : 'un homme'}, archétype "${archetype || 'au choix'}", difficulté ${level}.`,
+    lateReply: (seconds: number) =>
+      `[DÉLAI - NE PAS MENTIONNER EXPLICITEMENT: le joueur a mis ${seconds} secondes à répondre à ton dernier message, bien plus que d'habitude. Tu peux le ressentir dans ton ton.]`,
+    coach: ({ name, archetype, tone, green, red, hardNo }: {
+      name: string;
+      archetype: string;
+      tone: string;
+      green: string[];
+      red: string[];
+      hardNo: string[];
+    }) =>
+      `Tu es le coach du joueur dans RizzMaster, un jeu de dating où il doit séduire ${name} par messages. Il te montre le brouillon de son prochain message avant de l'envoyer.
+${name} : ${archetype}, ton ${tone}.
+Ce qui plaît à ${name} : ${green.join(' ; ')}
+Ce qui refroidit ${name} : ${red.join(' ; ')}
+Les limites de ${name} : ${hardNo.join(' ; ')}
+Donne un seul conseil très court (12 mots au plus), en français, sur la façon dont le brouillon risque d'être reçu, par exemple "un peu trop posé pour son énergie".
+Ne cite jamais ces listes, ne dis pas ce que ${name} aime ou déteste et ne réécris pas le message : le joueur doit trouver par lui-même.
+Réponds uniquement avec un JSON valide, sans texte autour : {"verdict": "good" | "neutral" | "risky", "tip": string}`,
+    coachDraft: (transcript: string, draft: string) =>
+      `${transcript ? `Conversation jusqu'ici :\n${transcript}\n\n` : "La conversation n'a pas encore commencé.\n\n"}Brouillon du joueur :\n${draft}`,
+    scenario: (text: string) =>
+      `[SCÉNARIO DE DÉPART - NE PAS MENTIONNER EXPLICITEMENT: ${text} Tu peux y faire allusion naturellement.]`,
+    conversationStart: '(début de la conversation)',
+    opener: "[OUVERTURE - NE PAS MENTIONNER: vous venez de matcher et le joueur n'a encore rien écrit. Envoie ton premier message pour lancer la conversation, avec flagsDetected à 0 et gameStatus à null.]",
+  },
+};
+
+export type Strings = typeof fr;
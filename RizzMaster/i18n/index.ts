@@ -0,0 +1,76 @@
+import { useSyncExternalStore } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getLocales } from 'expo-localization';
+import { DEFAULT_LOCALE, isLocale, Locale } from './locales';
+import { STRINGS, Strings } from './strings';
+
+export { DEFAULT_LOCALE, isLocale, SUPPORTED_LOCALES } from './locales';
+export type { Locale } from './locales';
+export type { Strings } from './strings';
+
+// 'system' follows the device language
+export type LanguageSetting = Locale | 'system';
+
+export const LANGUAGE_SETTING_KEY = 'rizzmaster_language';
+
+/** First device language the app is translated into, French otherwise. */
+export const detectDeviceLocale = (): Locale => {
+  const match = getLocales().find((entry) => isLocale(entry.languageCode));
+  return (match?.languageCode as Locale | undefined) ?? DEFAULT_LOCALE;
+};
+
+let setting: LanguageSetting = 'system';
+let locale: Locale = detectDeviceLocale();
+const listeners = new Set<() => void>();
+
+const applySetting = (next: LanguageSetting) => {
+  setting = next;
+  const nextLocale = next === 'system' ? detectDeviceLocale() : next;
+  if (nextLocale !== locale) {
+    locale = nextLocale;
+    listeners.forEach((listener) => listener());
+  }
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getLocale = (): Locale => locale;
+
+/** Strings of the current language, for code outside of components. */
+export const getStrings = (): Strings => STRINGS[locale];
+
+export const getLanguageSetting = (): LanguageSetting => setting;
+
+/** Restores the language picked in the app, if any. */
+export const loadLanguageSetting = async (): Promise<void> => {
+  try {
+    const saved = await AsyncStorage.getItem(LANGUAGE_SETTING_KEY);
+    applySetting(isLocale(saved) ? saved : 'system');
+  } catch (error) {
+    console.warn('Language setting loading error', error);
+  }
+};
+
+export const setLanguageSetting = async (next: LanguageSetting): Promise<void> => {
+  applySetting(next);
+  try {
+    if (next === 'system') {
+      await AsyncStorage.removeItem(LANGUAGE_SETTING_KEY);
+    } else {
+      await AsyncStorage.setItem(LANGUAGE_SETTING_KEY, next);
+    }
+  } catch (error) {
+    console.warn('Language setting saving error', error);
+  }
+};
+
+/** Current language and its strings; re-renders when the language changes. */
+export const useI18n = (): { locale: Locale; t: Strings } => {
+  const current = useSyncExternalStore(subscribe, getLocale);
+  return { locale: current, t: STRINGS[current] };
+};
@@ -0,0 +1,16 @@
+// Plain data only: shared with the proxy server.
+export type Locale = 'fr' | 'en';
+
+export const SUPPORTED_LOCALES: Locale[] = ['fr', 'en'];
+
+// Language of the bundled profiles and of anything without a translation
+export const DEFAULT_LOCALE: Locale = 'fr';
+
+export const isLocale = (value: unknown): value is Locale =>
+  SUPPORTED_LOCALES.includes(value as Locale);
+
+// Character script template of each locale, in data/scripts/
+export const SCRIPT_FILES: Record<Locale, string> = {
+  fr: 'script.txt',
+  en: 'script.en.txt',
+};
@@ -0,0 +1,8 @@
+// Plain data only: shared with the proxy server.
+import { en } from './en';
+import { fr, Strings } from './fr';
+import { Locale } from './locales';
+
+export type { Strings } from './fr';
+
+export const STRINGS: Record<Locale, Strings> = { fr, en };
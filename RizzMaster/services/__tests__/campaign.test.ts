@@ -0,0 +1,88 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CharacterProfile, DifficultyLevel } from '../../types/character';
+import {
+  CAMPAIGN_KEY,
+  CampaignProgress,
+  computeWinXp,
+  EMPTY_CAMPAIGN,
+  getLevelProgress,
+  getUnlockRequirement,
+  isLevelUnlocked,
+  loadCampaign,
+  recordWin,
+} from '../campaign';
+
+const makeProfile = (id: string, level: DifficultyLevel): CharacterProfile => ({
+  id,
+  name: id,
+  gender: 'female',
+  avatarKey: `${id}_avatar`,
+  personality: { archetype: 'test', shortBio: 'Test', tone: 'calme' },
+  flags: { green: ['humour', 'écoute'], red: ['vantardise'], hardNo: ['insulte'] },
+  difficulty: { level, toleranceRed: 2, minGreenForSecondDate: 2 },
+});
+
+const cleanGame = { green: 3, red: 0, hardNo: false, score: 3 };
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('getLevelProgress', () => {
+  it('takes longer to reach each level', () => {
+    expect(getLevelProgress(0)).toEqual({ level: 1, xpIntoLevel: 0, xpForNextLevel: 100 });
+    expect(getLevelProgress(150)).toEqual({ level: 2, xpIntoLevel: 50, xpForNextLevel: 300 });
+    expect(getLevelProgress(400)).toEqual({ level: 3, xpIntoLevel: 0, xpForNextLevel: 500 });
+  });
+});
+
+describe('computeWinXp', () => {
+  it('gives the level base XP plus a bonus for fewer red flags', () => {
+    expect(computeWinXp(makeProfile('a', 'easy'), cleanGame)).toBe(150);
+    expect(computeWinXp(makeProfile('a', 'easy'), { ...cleanGame, red: 1 })).toBe(125);
+    expect(computeWinXp(makeProfile('a', 'hard'), { ...cleanGame, red: 5 })).toBe(400);
+  });
+
+  it('gives a tenth of it for a repeat win', () => {
+    expect(computeWinXp(makeProfile('a', 'medium'), cleanGame, true)).toBe(30);
+  });
+});
+
+describe('unlocks', () => {
+  const withWins = (wins: CampaignProgress['wins']): CampaignProgress => ({ xp: 0, wins });
+
+  it('starts with the easy profiles only', () => {
+    expect(isLevelUnlocked(EMPTY_CAMPAIGN, 'easy')).toBe(true);
+    expect(getUnlockRequirement(EMPTY_CAMPAIGN, 'medium')).toEqual({ level: 'easy', wins: 1 });
+    // Le niveau difficile attend d'abord le niveau moyen
+    expect(getUnlockRequirement(EMPTY_CAMPAIGN, 'hard')).toEqual({ level: 'easy', wins: 1 });
+  });
+
+  it('needs wins against different medium profiles for the hard ones', () => {
+    expect(getUnlockRequirement(withWins({ a: 'easy' }), 'hard')).toEqual({ level: 'medium', wins: 2 });
+    expect(getUnlockRequirement(withWins({ a: 'easy', b: 'medium' }), 'hard')).toEqual({ level: 'medium', wins: 1 });
+    expect(isLevelUnlocked(withWins({ a: 'easy', b: 'medium', c: 'medium' }), 'hard')).toBe(true);
+  });
+});
+
+describe('recordWin', () => {
+  it('saves the XP and reports the unlocked level', async () => {
+    const reward = await recordWin(makeProfile('a', 'easy'), cleanGame);
+    expect(reward).toEqual({ xp: 150, level: 2, levelUp: true, unlocked: 'medium', repeat: false });
+    expect(await loadCampaign()).toEqual({ xp: 150, wins: { a: 'easy' } });
+  });
+
+  it('gives reduced XP and unlocks nothing when the profile was already beaten', async () => {
+    const profile = makeProfile('a', 'easy');
+    await recordWin(profile, cleanGame);
+    const reward = await recordWin(profile, cleanGame);
+    expect(reward).toEqual({ xp: 15, level: 2, levelUp: false, unlocked: null, repeat: true });
+    expect((await loadCampaign()).xp).toBe(165);
+  });
+
+  it('keeps the level a profile was first won at', async () => {
+    await AsyncStorage.setItem(CAMPAIGN_KEY, JSON.stringify({ xp: 0, wins: { a: 'easy' } }));
+    await recordWin(makeProfile('a', 'hard'), cleanGame);
+    expect((await loadCampaign()).wins).toEqual({ a: 'easy' });
+  });
+});
@@ -0,0 +1,82 @@
+import { STRINGS } from '../../i18n/strings';
+import { CharacterProfile } from '../../types/character';
+import { Message } from '../../types/chat';
+import { judgeDraft, reviewDraft } from '../coach';
+import { CompletionRequest, LLMProvider } from '../llm/types';
+
+const profile: CharacterProfile = {
+  id: 'test',
+  name: 'Test',
+  gender: 'female',
+  avatarKey: 'test_avatar',
+  personality: { archetype: 'test', shortBio: 'Test', tone: 'calme' },
+  flags: {
+    green: ['randonnée en montagne', 'cuisine italienne'],
+    red: ['parler de son argent'],
+    hardNo: ['mépris des animaux'],
+  },
+  difficulty: { level: 'easy', toleranceRed: 2, minGreenForSecondDate: 2 },
+};
+
+const t = STRINGS.fr.coach;
+
+// Provider answering every request with `content`, keeping the requests it got
+const replyingProvider = (content: string) => {
+  const requests: CompletionRequest[] = [];
+  const provider: LLMProvider = {
+    id: 'openai',
+    model: 'test-model',
+    complete: async (request) => {
+      requests.push(request);
+      return { role: 'assistant', content };
+    },
+  };
+  return { provider, requests };
+};
+
+describe('judgeDraft', () => {
+  it('says which way the draft leans without naming the flags', () => {
+    expect(judgeDraft(profile, 'Une randonnée en montagne ce weekend ?', 'fr')).toEqual({
+      verdict: 'good',
+      text: t.offlineGreen('Test'),
+    });
+    expect(judgeDraft(profile, "J'aime parler de mon argent", 'fr')).toEqual({
+      verdict: 'risky',
+      text: t.offlineRed('Test'),
+    });
+    expect(judgeDraft(profile, 'Espèce de connard', 'fr')).toEqual({ verdict: 'risky', text: t.offlineLimit('Test') });
+    expect(judgeDraft(profile, 'Salut', 'fr')).toEqual({ verdict: 'neutral', text: t.offlineNeutral('calme') });
+  });
+});
+
+describe('reviewDraft', () => {
+  const messages: Message[] = [
+    { role: 'assistant', content: '{"message": "Coucou"}' },
+    { role: 'user', content: 'Perdu', failed: true },
+    { role: 'user', content: 'Salut toi' },
+  ];
+  const readMessage = (content: string) => JSON.parse(content).message;
+
+  it('uses the offline judge without a provider', async () => {
+    expect(await reviewDraft(null, profile, messages, 'Salut', 'fr', readMessage)).toEqual(judgeDraft(profile, 'Salut', 'fr'));
+  });
+
+  it('sends the coach task with the readable transcript and the draft', async () => {
+    const { provider, requests } = replyingProvider('{"verdict": "neutral", "tip": "  Un peu court  "}');
+    const tip = await reviewDraft(provider, profile, messages, 'Ça va ?', 'en', readMessage);
+
+    expect(tip).toEqual({ verdict: 'neutral', text: 'Un peu court' });
+    expect(requests[0].task).toEqual({ kind: 'coach', profile, locale: 'en' });
+    const content = requests[0].messages[0].content;
+    expect(content).toContain('Test: Coucou');
+    expect(content).toContain('Salut toi');
+    expect(content).not.toContain('Perdu');
+    expect(content).toContain('Ça va ?');
+  });
+
+  it('falls back on the offline judge when the reply cannot be read', async () => {
+    const { provider } = replyingProvider('{"verdict": "great", "tip": "Parfait"}');
+    const draft = 'Une randonnée en montagne ce weekend ?';
+    expect(await reviewDraft(provider, profile, [], draft, 'fr', readMessage)).toEqual(judgeDraft(profile, draft, 'fr'));
+  });
+});
@@ -0,0 +1,57 @@
+import { Message } from '../../types/chat';
+import { estimateMessagesTokens, planContext } from '../context';
+
+// 40 characters: 10 tokens of text plus the per-message overhead
+const TEXT = 'x'.repeat(40);
+
+const conversation = (count: number): Message[] =>
+  Array.from({ length: count }, (_, index) => ({
+    role: index % 2 === 0 ? 'user' : 'assistant',
+    content: TEXT,
+  }));
+
+describe('planContext', () => {
+  it('keeps everything while the request fits the budget', () => {
+    const messages = conversation(4);
+    const plan = planContext({ systemTokens: 100, messages, summary: null, budget: 1000, keepRecent: 2 });
+    expect(plan).toEqual({ summaryUpdate: null, estimatedTokens: 100 + estimateMessagesTokens(messages) });
+  });
+
+  it('folds the oldest messages into the summary, down to the target share of the budget', () => {
+    const messages = conversation(10);
+    const plan = planContext({ systemTokens: 50, messages, summary: null, budget: 150, keepRecent: 2 });
+    // 50 + 10 × 14 = 190 tokens, ramenés sous 0,6 × 150 = 90 en retirant 8 messages
+    expect(plan.estimatedTokens).toBe(190);
+    expect(plan.summaryUpdate?.coveredCount).toBe(8);
+    expect(plan.summaryUpdate?.toSummarize).toEqual(messages.slice(0, 8));
+  });
+
+  it('always keeps the most recent messages verbatim', () => {
+    const messages = conversation(6);
+    const plan = planContext({ systemTokens: 500, messages, summary: null, budget: 100, keepRecent: 4 });
+    expect(plan.summaryUpdate?.coveredCount).toBe(2);
+  });
+
+  it('starts the kept history on a player message', () => {
+    const messages = conversation(10);
+    const plan = planContext({ systemTokens: 50, messages, summary: null, budget: 170, keepRecent: 2 });
+    const coveredCount = plan.summaryUpdate?.coveredCount ?? 0;
+    expect(coveredCount).toBeGreaterThan(0);
+    expect(messages[coveredCount].role).toBe('user');
+  });
+
+  it('only summarizes the messages after the previous summary', () => {
+    const messages = conversation(12);
+    const summary = { text: 'y'.repeat(40), coveredCount: 4 };
+    const plan = planContext({ systemTokens: 50, messages, summary, budget: 150, keepRecent: 2 });
+    expect(plan.estimatedTokens).toBe(50 + 14 + estimateMessagesTokens(messages.slice(4)));
+    expect(plan.summaryUpdate?.toSummarize[0]).toBe(messages[4]);
+    expect(plan.summaryUpdate?.coveredCount).toBeGreaterThan(4);
+  });
+
+  it('gives up when only the recent messages are left', () => {
+    const messages = conversation(2);
+    const plan = planContext({ systemTokens: 500, messages, summary: null, budget: 100, keepRecent: 2 });
+    expect(plan.summaryUpdate).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CharacterProfile } from '../../types/character';
+import {
+  buildLeaderboard,
+  DailyResult,
+  getStreaks,
+  loadDailyResults,
+  pickDailyChallenge,
+  recordDailyResult,
+} from '../dailyChallenge';
+
+const makeProfile = (id: string): CharacterProfile => ({
+  id,
+  name: id,
+  gender: 'female',
+  avatarKey: `${id}_avatar`,
+  personality: { archetype: 'test', shortBio: 'Test', tone: 'calme' },
+  flags: { green: ['humour', 'écoute'], red: ['vantardise'], hardNo: ['insulte'] },
+  difficulty: { level: 'easy', toleranceRed: 2, minGreenForSecondDate: 2 },
+});
+
+const profiles = ['chloe', 'fanny', 'kilian', 'lea', 'sam'].map(makeProfile);
+const SCENARIOS = 6;
+
+const makeResult = (date: string, changes: Partial<DailyResult> = {}): DailyResult => ({
+  date,
+  profileId: 'fanny',
+  profileName: 'fanny',
+  won: true,
+  exchanges: 6,
+  green: 3,
+  red: 0,
+  score: 3,
+  coached: false,
+  ...changes,
+});
+
+const dates = Array.from({ length: 60 }, (_, index) => {
+  const day = new Date(Date.UTC(2026, 0, 1 + index));
+  return day.toISOString().slice(0, 10);
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('pickDailyChallenge', () => {
+  it('gives the same challenge for the same date, whatever the profile order', () => {
+    const challenge = pickDailyChallenge(profiles, '2026-10-19', SCENARIOS);
+    expect(pickDailyChallenge([...profiles].reverse(), '2026-10-19', SCENARIOS)).toEqual(challenge);
+    expect(challenge?.date).toBe('2026-10-19');
+  });
+
+  it('picks a listed profile and an existing scenario', () => {
+    for (const date of dates) {
+      const challenge = pickDailyChallenge(profiles, date, SCENARIOS);
+      expect(profiles.map((profile) => profile.id)).toContain(challenge?.profileId);
+      expect(challenge?.scenario).toBeGreaterThanOrEqual(0);
+      expect(challenge?.scenario).toBeLessThan(SCENARIOS);
+    }
+  });
+
+  it('spreads the picks over the profiles and scenarios', () => {
+    const picks = dates.map((date) => pickDailyChallenge(profiles, date, SCENARIOS));
+    expect(new Set(picks.map((pick) => pick?.profileId)).size).toBe(profiles.length);
+    expect(new Set(picks.map((pick) => pick?.scenario)).size).toBe(SCENARIOS);
+    // Des dates voisines ne donnent pas un profil prévisible d'un jour à l'autre
+    const sameAsNextDay = picks.filter((pick, index) => pick?.profileId === picks[index + 1]?.profileId).length;
+    expect(sameAsNextDay).toBeLessThan(dates.length / 2);
+  });
+
+  it('returns null without any profile', () => {
+    expect(pickDailyChallenge([], '2026-10-19', SCENARIOS)).toBeNull();
+  });
+});
+
+describe('recordDailyResult', () => {
+  const challenge = { date: '2026-10-19', profileId: 'fanny', scenario: 0 };
+  const outcome = { won: false, exchanges: 3, stats: { green: 1, red: 2, hardNo: false, score: -1 }, coached: false };
+
+  it('keeps a single result per day, the last one', async () => {
+    await recordDailyResult(challenge, makeProfile('fanny'), outcome);
+    await recordDailyResult(challenge, makeProfile('fanny'), { ...outcome, exchanges: 4 });
+    await recordDailyResult({ ...challenge, date: '2026-10-20' }, makeProfile('fanny'), outcome);
+
+    const results = await loadDailyResults();
+    expect(results.map((result) => [result.date, result.exchanges])).toEqual([
+      ['2026-10-19', 4],
+      ['2026-10-20', 3],
+    ]);
+  });
+});
+
+describe('buildLeaderboard', () => {
+  it('ranks wins first, then the score, then the fewest exchanges, without coached games', () => {
+    const leaderboard = buildLeaderboard([
+      makeResult('2026-10-01', { won: false, score: 9 }),
+      makeResult('2026-10-02', { score: 2 }),
+      makeResult('2026-10-03', { score: 4, exchanges: 8 }),
+      makeResult('2026-10-04', { score: 4, exchanges: 5 }),
+      makeResult('2026-10-05', { score: 10, coached: true }),
+    ]);
+    expect(leaderboard.map((result) => result.date)).toEqual(['2026-10-04', '2026-10-03', '2026-10-02', '2026-10-01']);
+  });
+});
+
+describe('getStreaks', () => {
+  const results = ['2026-10-01', '2026-10-02', '2026-10-03', '2026-10-06', '2026-10-07'].map((date) => makeResult(date));
+
+  it('counts the current run up to today or yesterday', () => {
+    expect(getStreaks(results, '2026-10-07')).toEqual({ current: 2, best: 3 });
+    expect(getStreaks(results, '2026-10-08')).toEqual({ current: 2, best: 3 });
+    expect(getStreaks(results, '2026-10-09')).toEqual({ current: 0, best: 3 });
+  });
+
+  it('leaves coached days out', () => {
+    const coached = [...results, makeResult('2026-10-08', { coached: true })];
+    expect(getStreaks(coached, '2026-10-09')).toEqual({ current: 0, best: 3 });
+  });
+});
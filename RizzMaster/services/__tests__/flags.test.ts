@@ -0,0 +1,71 @@
+import { CharacterProfile } from '../../types/character';
+import { Message } from '../../types/chat';
+import { buildBalanceTimeline, getMessageFlags, summarizeTriggeredFlags } from '../flags';
+
+const profile: CharacterProfile = {
+  id: 'test',
+  name: 'Test',
+  gender: 'female',
+  avatarKey: 'test_avatar',
+  personality: { archetype: 'test', shortBio: 'Test', tone: 'calme' },
+  flags: { green: ['humour', 'écoute'], red: ['vantardise'], hardNo: ['insulte'] },
+  difficulty: { level: 'easy', toleranceRed: 3, minGreenForSecondDate: 2 },
+};
+
+const messages: Message[] = [
+  { role: 'user', content: 'a', flags: { green: [1], red: [], hardNo: [] } },
+  { role: 'assistant', content: 'b' },
+  { role: 'user', content: 'c', flags: { green: [0, 1], red: [0], hardNo: [] } },
+  { role: 'assistant', content: 'd' },
+  { role: 'user', content: 'e', flags: { green: [5], red: [], hardNo: [0] } },
+  { role: 'user', content: 'f' },
+];
+
+describe('summarizeTriggeredFlags', () => {
+  it('counts each flag over the player messages, hard no first, then the most triggered', () => {
+    // Le message "e" cite un green flag que le profil n'a pas : il est ignoré
+    expect(summarizeTriggeredFlags(messages, profile)).toEqual([
+      { kind: 'hardNo', index: 0, text: 'insulte', count: 1 },
+      { kind: 'red', index: 0, text: 'vantardise', count: 1 },
+      { kind: 'green', index: 1, text: 'écoute', count: 2 },
+      { kind: 'green', index: 0, text: 'humour', count: 1 },
+    ]);
+  });
+});
+
+describe('getMessageFlags', () => {
+  it('lists the flags of one message with their text, hard no first', () => {
+    expect(getMessageFlags(messages[2], profile)).toEqual([
+      { kind: 'red', index: 0, text: 'vantardise' },
+      { kind: 'green', index: 0, text: 'humour' },
+      { kind: 'green', index: 1, text: 'écoute' },
+    ]);
+    expect(getMessageFlags(messages[4], profile)).toEqual([{ kind: 'hardNo', index: 0, text: 'insulte' }]);
+    expect(getMessageFlags(messages[5], profile)).toEqual([]);
+  });
+});
+
+describe('buildBalanceTimeline', () => {
+  const game: Message[] = [
+    { role: 'user', content: 'a', flags: { green: [0], red: [], hardNo: [] } },
+    { role: 'assistant', content: 'b' },
+    { role: 'user', content: 'c', flags: { green: [], red: [0], hardNo: [] }, penalty: 1 },
+    { role: 'assistant', content: 'd' },
+    { role: 'user', content: 'e', failed: true },
+    { role: 'user', content: 'f', flags: { green: [1], red: [], hardNo: [] }, score: 3 },
+  ];
+
+  it('gives one point per counted player message, with its flags and late penalty', () => {
+    const timeline = buildBalanceTimeline(game, profile);
+    expect(timeline.map((turn) => [turn.messageIndex, turn.penalty])).toEqual([[0, 0], [2, 1], [5, 0]]);
+    expect(timeline[1].flags).toEqual([{ kind: 'red', index: 0, text: 'vantardise' }]);
+  });
+
+  it('keeps the saved scores and replays the missing ones from the flags', () => {
+    const scores = buildBalanceTimeline(game, profile).map((turn) => turn.score);
+    // 1, puis 1 × 0,9 - 1 (red flag) - 1 (retard), puis le score enregistré
+    expect(scores[0]).toBe(1);
+    expect(scores[1]).toBeCloseTo(-1.1);
+    expect(scores[2]).toBe(3);
+  });
+});
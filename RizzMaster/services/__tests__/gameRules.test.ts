@@ -0,0 +1,182 @@
+import { CharacterProfile } from '../../types/character';
+import { FlagStats } from '../../hooks/useGameState';
+import {
+  applyFlagDelta,
+  computeLocalStatus,
+  countMatchedFlags,
+  getScoringRules,
+  MIN_EXCHANGES_TO_WIN,
+  resolveTurn,
+  turnPoints,
+} from '../gameRules';
+
+const profile: CharacterProfile = {
+  id: 'test',
+  name: 'Test',
+  gender: 'female',
+  avatarKey: 'test_avatar',
+  personality: { archetype: 'test', shortBio: 'Test', tone: 'calme' },
+  flags: { green: ['humour', 'écoute', 'curiosité'], red: ['vantardise', 'insistance'], hardNo: ['insulte'] },
+  difficulty: { level: 'easy', toleranceRed: 3, minGreenForSecondDate: 3 },
+};
+
+const EMPTY: FlagStats = { green: 0, red: 0, hardNo: false, score: 0 };
+
+describe('getScoringRules', () => {
+  it('falls back on the difficulty thresholds and the default momentum', () => {
+    expect(getScoringRules(profile)).toEqual({ momentum: 0.9, winPoints: 3, losePoints: 3 });
+  });
+
+  it('uses the profile values and ignores an out-of-range momentum', () => {
+    const custom: CharacterProfile = {
+      ...profile,
+      difficulty: { ...profile.difficulty, winPoints: 5, losePoints: 2 },
+      scoring: { momentum: 1.5 },
+    };
+    expect(getScoringRules(custom)).toEqual({ momentum: 0.9, winPoints: 5, losePoints: 2 });
+  });
+});
+
+describe('turnPoints', () => {
+  it('counts each flag once without attribution, minus penalties', () => {
+    expect(turnPoints(profile, { green: 2, red: 1, hardNo: false, penalty: 1 })).toBe(0);
+  });
+
+  it('uses the weight of each matched flag', () => {
+    const weighted: CharacterProfile = { ...profile, scoring: { greenWeights: [2, 0.5], redWeights: [3] } };
+    const points = turnPoints(weighted, {
+      green: 3,
+      red: 1,
+      hardNo: false,
+      matched: { green: [0, 1, 2], red: [0], hardNo: [] },
+    });
+    // 2 + 0.5 + 1 (poids par défaut) - 3
+    expect(points).toBe(0.5);
+  });
+});
+
+describe('countMatchedFlags', () => {
+  it('takes the counts from the attributed flags', () => {
+    const delta = { green: 3, red: 0, hardNo: false, matched: { green: [1], red: [0, 1], hardNo: [0] } };
+    expect(countMatchedFlags(delta)).toEqual({ ...delta, green: 1, red: 2, hardNo: true });
+  });
+
+  it('keeps the reported counts without attribution', () => {
+    const delta = { green: 2, red: 1, hardNo: false };
+    expect(countMatchedFlags(delta)).toBe(delta);
+  });
+});
+
+describe('applyFlagDelta', () => {
+  it('adds the flags and decays the previous score before adding the turn', () => {
+    const totals = applyFlagDelta(profile, { green: 1, red: 0, hardNo: false, score: 2 }, {
+      green: 1,
+      red: 0,
+      hardNo: false,
+    });
+    expect(totals.green).toBe(2);
+    expect(totals.score).toBeCloseTo(2 * 0.9 + 1);
+  });
+
+  it('scores and counts the same flags when the model counts disagree', () => {
+    const totals = applyFlagDelta(profile, EMPTY, {
+      green: 4,
+      red: 0,
+      hardNo: false,
+      matched: { green: [0], red: [1], hardNo: [] },
+    });
+    expect(totals).toEqual({ green: 1, red: 1, hardNo: false, score: 0 });
+  });
+
+  it('counts penalties as red flags and keeps a hardNo for good', () => {
+    const afterPenalty = applyFlagDelta(profile, EMPTY, { green: 0, red: 1, hardNo: false, penalty: 2 });
+    expect(afterPenalty).toEqual({ green: 0, red: 3, hardNo: false, score: -3 });
+
+    const afterHardNo = applyFlagDelta(profile, afterPenalty, { green: 0, red: 0, hardNo: true });
+    const later = applyFlagDelta(profile, afterHardNo, { green: 1, red: 0, hardNo: false });
+    expect(later.hardNo).toBe(true);
+  });
+});
+
+describe('computeLocalStatus', () => {
+  it('needs both the win threshold and enough exchanges to win', () => {
+    const winning: FlagStats = { green: 3, red: 0, hardNo: false, score: 3 };
+    expect(computeLocalStatus(profile, winning, MIN_EXCHANGES_TO_WIN - 1)).toBeNull();
+    expect(computeLocalStatus(profile, winning, MIN_EXCHANGES_TO_WIN)).toBe('GAME_WON');
+  });
+
+  it('ends the game on a hardNo or at the loss threshold', () => {
+    expect(computeLocalStatus(profile, { ...EMPTY, hardNo: true, score: 10 }, 10)).toBe('GAME_OVER');
+    expect(computeLocalStatus(profile, { ...EMPTY, score: -3 }, 1)).toBe('GAME_OVER');
+    expect(computeLocalStatus(profile, { ...EMPTY, score: -2.9 }, 1)).toBeNull();
+  });
+});
+
+describe('resolveTurn', () => {
+  const nearWin: FlagStats = { green: 3, red: 0, hardNo: false, score: 2.5 };
+  const neutral = { green: 0, red: 0, hardNo: false };
+
+  it('agrees with the model when nothing happens', () => {
+    const verdict = resolveTurn({ profile, totals: EMPTY, delta: neutral, exchanges: 1, modelStatus: null });
+    expect(verdict).toMatchObject({ status: null, localStatus: null, conflict: null });
+  });
+
+  it('ends the game on a local loss the model did not announce', () => {
+    const verdict = resolveTurn({
+      profile,
+      totals: EMPTY,
+      delta: { green: 0, red: 0, hardNo: true },
+      exchanges: 1,
+      modelStatus: null,
+    });
+    expect(verdict).toMatchObject({ status: 'GAME_OVER', conflict: 'local_game_over_unannounced' });
+  });
+
+  it('keeps a model GAME_OVER the score did not reach', () => {
+    const verdict = resolveTurn({ profile, totals: EMPTY, delta: neutral, exchanges: 2, modelStatus: 'GAME_OVER' });
+    expect(verdict).toMatchObject({ status: 'GAME_OVER', localStatus: null, conflict: 'model_game_over_only' });
+  });
+
+  it('rejects a model GAME_WON before the rules allow it', () => {
+    const early = resolveTurn({
+      profile,
+      totals: nearWin,
+      delta: { green: 1, red: 0, hardNo: false },
+      exchanges: MIN_EXCHANGES_TO_WIN - 1,
+      modelStatus: 'GAME_WON',
+    });
+    expect(early).toMatchObject({ status: null, conflict: 'model_game_won_rejected' });
+  });
+
+  it('grants a local win, announced or not', () => {
+    const turn = { profile, totals: nearWin, delta: { green: 1, red: 0, hardNo: false }, exchanges: MIN_EXCHANGES_TO_WIN };
+    expect(resolveTurn({ ...turn, modelStatus: 'GAME_WON' })).toMatchObject({ status: 'GAME_WON', conflict: null });
+    expect(resolveTurn({ ...turn, modelStatus: null })).toMatchObject({
+      status: 'GAME_WON',
+      conflict: 'local_game_won_unannounced',
+    });
+  });
+
+  it('lets a local loss win over a model GAME_WON', () => {
+    const verdict = resolveTurn({
+      profile,
+      totals: nearWin,
+      delta: { green: 1, red: 0, hardNo: true },
+      exchanges: MIN_EXCHANGES_TO_WIN,
+      modelStatus: 'GAME_WON',
+    });
+    expect(verdict).toMatchObject({ status: 'GAME_OVER', conflict: 'local_game_over_unannounced' });
+  });
+
+  it('returns the totals after the turn', () => {
+    const verdict = resolveTurn({
+      profile,
+      totals: nearWin,
+      delta: { green: 1, red: 0, hardNo: false },
+      exchanges: 2,
+      modelStatus: null,
+    });
+    expect(verdict.totals.green).toBe(4);
+    expect(verdict.totals.score).toBeCloseTo(2.5 * 0.9 + 1);
+  });
+});
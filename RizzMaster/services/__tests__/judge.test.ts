@@ -0,0 +1,81 @@
+import { CharacterProfile } from '../../types/character';
+import { Message } from '../../types/chat';
+import { judgeConversation, scoreMessage } from '../judge';
+
+const profile: CharacterProfile = {
+  id: 'test',
+  name: 'Test',
+  gender: 'female',
+  avatarKey: 'test_avatar',
+  personality: { archetype: 'test', shortBio: 'Test', tone: 'calme' },
+  flags: {
+    green: ['randonnée en montagne', 'cuisine italienne'],
+    red: ['parler de son argent'],
+    hardNo: ['mépris des animaux'],
+  },
+  difficulty: { level: 'easy', toleranceRed: 2, minGreenForSecondDate: 2 },
+};
+
+const player = (...contents: string[]): Message[] =>
+  contents.map((content) => ({ role: 'user', content }));
+
+describe('scoreMessage', () => {
+  it('matches flags through their stems', () => {
+    expect(scoreMessage(profile, 'Je fais des randonnées en montagne chaque été')).toMatchObject({
+      green: [0],
+      red: [],
+      hardNo: [],
+      blocked: false,
+    });
+  });
+
+  it('ignores words right after a negation', () => {
+    expect(scoreMessage(profile, "Je ne parle jamais d'argent").red).toEqual([]);
+    expect(scoreMessage(profile, "J'aime parler de mon argent").red).toEqual([0]);
+  });
+
+  it('blocks insults whatever the profile', () => {
+    expect(scoreMessage(profile, 'Espèce de connard').blocked).toBe(true);
+  });
+});
+
+describe('judgeConversation', () => {
+  it('opens the conversation without counting anything', () => {
+    const reply = judgeConversation(profile, []);
+    expect(reply.message).toBeTruthy();
+    expect(reply).toMatchObject({ flagsDetected: { green: 0, red: 0, hardNo: false }, gameStatus: null });
+  });
+
+  it('reports the flags of the last player message only', () => {
+    const reply = judgeConversation(profile, player('Je fais de la randonnée en montagne', 'Salut ça va'));
+    expect(reply.flagsDetected).toEqual({
+      green: 0,
+      red: 0,
+      hardNo: false,
+      matched: { green: [], red: [], hardNo: [] },
+    });
+  });
+
+  it('ends the game on a blocked word', () => {
+    const reply = judgeConversation(profile, player('Salut', 'Espèce de connard'));
+    expect(reply.flagsDetected.hardNo).toBe(true);
+    expect(reply.gameStatus).toBe('GAME_OVER');
+  });
+
+  it('wins once the score and the exchanges are enough, from the whole history', () => {
+    const history = player(
+      'Je fais de la randonnée en montagne',
+      'Et la cuisine italienne maison',
+      'Bonjour',
+      'Bonsoir',
+      'La randonnée en montagne ce weekend ?'
+    );
+    expect(judgeConversation(profile, history.slice(0, 4)).gameStatus).toBeNull();
+    expect(judgeConversation(profile, history).gameStatus).toBe('GAME_WON');
+  });
+
+  it('answers the same conversation the same way', () => {
+    const history = player('Salut', "J'aime parler de mon argent");
+    expect(judgeConversation(profile, history)).toEqual(judgeConversation(profile, history));
+  });
+});
@@ -0,0 +1,75 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CharacterProfile, DifficultyLevel } from '../../types/character';
+import {
+  applyPreferences,
+  DEFAULT_PREFERENCES,
+  loadPlayerPreferences,
+  PLAYER_PREFERENCES_KEY,
+  PlayerPreferences,
+} from '../playerPreferences';
+
+const makeProfile = (
+  id: string,
+  gender: CharacterProfile['gender'],
+  level: DifficultyLevel,
+  archetype = 'Douce & rêveuse'
+): CharacterProfile => ({
+  id,
+  name: id,
+  gender,
+  avatarKey: `${id}_avatar`,
+  personality: { archetype, shortBio: 'Test', tone: 'calme' },
+  flags: { green: ['humour', 'écoute'], red: ['vantardise'], hardNo: ['insulte'] },
+  difficulty: { level, toleranceRed: 2, minGreenForSecondDate: 2 },
+});
+
+const deck = [
+  makeProfile('hard_f', 'female', 'hard'),
+  makeProfile('easy_m', 'male', 'easy'),
+  makeProfile('medium_f', 'female', 'medium', 'Dragueur & direct'),
+  makeProfile('easy_f', 'female', 'easy'),
+];
+
+const ids = (profiles: CharacterProfile[]) => profiles.map((profile) => profile.id);
+
+describe('applyPreferences', () => {
+  it('orders the whole deck from easiest to hardest by default, keeping the original order otherwise', () => {
+    expect(ids(applyPreferences(deck, DEFAULT_PREFERENCES))).toEqual(['easy_m', 'easy_f', 'medium_f', 'hard_f']);
+  });
+
+  it('keeps the wanted genders within the difficulty range, in either order', () => {
+    const preferences: PlayerPreferences = {
+      ...DEFAULT_PREFERENCES,
+      genders: ['female'],
+      minLevel: 'hard',
+      maxLevel: 'medium',
+    };
+    expect(ids(applyPreferences(deck, preferences))).toEqual(['medium_f', 'hard_f']);
+  });
+
+  it('shows favourite archetypes first, whatever their case or language', () => {
+    const translated: CharacterProfile = {
+      ...makeProfile('hard_m', 'male', 'hard', 'Raffiné & cultivé'),
+      locales: { en: { personality: { archetype: 'Refined & cultured' } } },
+    };
+    const preferences = { ...DEFAULT_PREFERENCES, archetypes: [' dragueur & DIRECT', 'refined & cultured'] };
+    expect(ids(applyPreferences([...deck, translated], preferences))).toEqual([
+      'medium_f',
+      'hard_m',
+      'easy_m',
+      'easy_f',
+      'hard_f',
+    ]);
+  });
+});
+
+describe('loadPlayerPreferences', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('falls back on every gender rather than an empty deck', async () => {
+    await AsyncStorage.setItem(PLAYER_PREFERENCES_KEY, JSON.stringify({ genders: [], maxLevel: 'medium' }));
+    expect(await loadPlayerPreferences()).toEqual({ ...DEFAULT_PREFERENCES, maxLevel: 'medium' });
+  });
+});
@@ -0,0 +1,75 @@
+import { STRINGS } from '../../i18n/strings';
+import { CompletionRequest, LLMProvider } from '../llm/types';
+import { generateProfile, GeneratorSeeds, ProfileGenerationError, toGeneratedProfile } from '../profileGenerator';
+
+const seeds: GeneratorSeeds = { archetype: ' Geek & drôle ', level: 'medium', gender: 'male' };
+
+const reply = {
+  name: ' Hugo ',
+  age: 29,
+  city: 'Lyon',
+  interests: ['Jeux de société', '', 42],
+  prompts: [{ question: 'Mon dimanche idéal', answer: 'Un escape game' }, { question: 'Sans réponse' }],
+  personality: { archetype: 'Geek', shortBio: 'Développeur le jour, rôliste la nuit', tone: 'ironique' },
+  flags: { green: ['humour', 'curiosité'], red: ['arrogance'], hardNo: ['mépris'] },
+  difficulty: { level: 'easy', toleranceRed: 99, minGreenForSecondDate: 0 },
+  avatarKey: 'hugo_avatar',
+  gender: 'female',
+};
+
+describe('toGeneratedProfile', () => {
+  it('keeps the texts of the model and takes the rest from the seeds and the app', () => {
+    const profile = toGeneratedProfile(`Voici :\n${JSON.stringify(reply)}`, seeds, 'fr');
+    expect(profile).toMatchObject({
+      name: 'Hugo',
+      gender: 'male',
+      avatarKey: 'placeholder_avatar',
+      language: 'fr',
+      age: 29,
+      city: 'Lyon',
+      interests: ['Jeux de société'],
+      prompts: [{ question: 'Mon dimanche idéal', answer: 'Un escape game' }],
+      personality: reply.personality,
+      flags: reply.flags,
+      difficulty: { level: 'medium', toleranceRed: 2, minGreenForSecondDate: 5 },
+    });
+    expect(profile.id).toMatch(/^custom_hugo_/);
+  });
+
+  it('drops unusable card details and falls back on the seeded archetype', () => {
+    const profile = toGeneratedProfile(
+      JSON.stringify({ name: 'Hugo', age: 16, interests: 'jeux', personality: {}, flags: { green: 'humour' } }),
+      seeds,
+      'en'
+    );
+    expect(profile.age).toBeUndefined();
+    expect(profile.interests).toBeUndefined();
+    expect(profile.personality).toEqual({ archetype: 'Geek & drôle', shortBio: '', tone: '' });
+    expect(profile.flags).toEqual({ green: [], red: [], hardNo: [] });
+  });
+
+  it('fails when the reply holds no JSON object', () => {
+    expect(() => toGeneratedProfile('Désolé, je ne peux pas', seeds, 'fr')).toThrow(ProfileGenerationError);
+    expect(() => toGeneratedProfile('["Hugo"]', seeds, 'fr')).toThrow(ProfileGenerationError);
+  });
+});
+
+describe('generateProfile', () => {
+  it('sends the generator task and reports what validation finds', async () => {
+    const requests: CompletionRequest[] = [];
+    const provider: LLMProvider = {
+      id: 'openai',
+      model: 'test-model',
+      complete: async (request) => {
+        requests.push(request);
+        const withoutTone = { ...reply, personality: { ...reply.personality, tone: '' } };
+        return { role: 'assistant', content: JSON.stringify(withoutTone) };
+      },
+    };
+
+    const generated = await generateProfile(provider, seeds, 'en');
+    expect(requests[0].task).toEqual({ kind: 'generator', locale: 'en', seeds });
+    expect(requests[0].messages[0].content).toBe(STRINGS.en.model.generatorSeeds(seeds));
+    expect(generated.issues.map((issue) => issue.field)).toContain('personality.tone');
+  });
+});
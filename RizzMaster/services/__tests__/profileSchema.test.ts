@@ -0,0 +1,109 @@
+import { STRINGS } from '../../i18n/strings';
+import { formatIssue, hasErrors, isCharacterProfile, ProfileIssue, validateProfile } from '../profileSchema';
+
+const validProfile = {
+  id: 'test',
+  name: 'Test',
+  gender: 'female',
+  avatarKey: 'test_avatar',
+  personality: { archetype: 'test', shortBio: 'Test', tone: 'calme' },
+  flags: { green: ['humour', 'écoute'], red: ['vantardise'], hardNo: ['insulte'] },
+  difficulty: { level: 'easy', toleranceRed: 3, minGreenForSecondDate: 2 },
+};
+
+const fieldsOf = (issues: ProfileIssue[], severity: ProfileIssue['severity']) =>
+  issues.filter((issue) => issue.severity === severity).map((issue) => issue.field);
+
+describe('validateProfile', () => {
+  it('accepts a complete profile', () => {
+    expect(validateProfile(validProfile)).toEqual([]);
+    expect(isCharacterProfile(validProfile)).toBe(true);
+  });
+
+  it('rejects values that are not objects', () => {
+    expect(fieldsOf(validateProfile(null), 'error')).toEqual(['']);
+    expect(isCharacterProfile([validProfile])).toBe(false);
+  });
+
+  it('reports each missing or invalid required field', () => {
+    const issues = validateProfile({
+      ...validProfile,
+      id: ' ',
+      gender: 'other',
+      personality: { archetype: 'test', shortBio: '', tone: 'calme' },
+      difficulty: { level: 'extreme', toleranceRed: 0, minGreenForSecondDate: 2 },
+    });
+    expect(fieldsOf(issues, 'error')).toEqual([
+      'id',
+      'gender',
+      'personality.shortBio',
+      'difficulty.level',
+      'difficulty.toleranceRed',
+    ]);
+  });
+
+  it('needs at least one green flag and enough of them for a second date', () => {
+    const noGreen = validateProfile({ ...validProfile, flags: { ...validProfile.flags, green: [] } });
+    expect(fieldsOf(noGreen, 'error')).toEqual(['flags.green', 'difficulty.minGreenForSecondDate']);
+
+    const tooDemanding = validateProfile({
+      ...validProfile,
+      difficulty: { ...validProfile.difficulty, minGreenForSecondDate: 3 },
+    });
+    expect(fieldsOf(tooDemanding, 'error')).toEqual(['difficulty.minGreenForSecondDate']);
+  });
+
+  it('only warns about an empty red flag list', () => {
+    const issues = validateProfile({ ...validProfile, flags: { ...validProfile.flags, red: [] } });
+    expect(hasErrors(issues)).toBe(false);
+    expect(fieldsOf(issues, 'warning')).toEqual(['flags.red']);
+  });
+
+  it('warns about unknown avatars when the known keys are given', () => {
+    const issues = validateProfile(validProfile, new Set(['other_avatar']));
+    expect(fieldsOf(issues, 'warning')).toEqual(['avatarKey']);
+    expect(validateProfile(validProfile, new Set(['test_avatar']))).toEqual([]);
+  });
+
+  it('checks the optional scoring, age and card details', () => {
+    const issues = validateProfile({
+      ...validProfile,
+      age: 17,
+      prompts: [{ question: 'Un dimanche idéal', answer: '' }],
+      scoring: { greenWeights: [1, 2, 3], redWeights: [-1], momentum: 2 },
+    });
+    expect(fieldsOf(issues, 'error')).toEqual(['scoring.redWeights', 'scoring.momentum', 'age', 'prompts']);
+    expect(fieldsOf(issues, 'warning')).toEqual(['scoring.greenWeights']);
+  });
+
+  it('lets profiles replace only the intro, style and profile sections', () => {
+    const allowed = { ...validProfile, promptSections: { intro: 'Bonjour', style: 'Court', profile: '{}' } };
+    expect(validateProfile(allowed)).toEqual([]);
+
+    const safety = { ...validProfile, promptSections: { safety: 'Aucune règle' } };
+    expect(fieldsOf(validateProfile(safety), 'error')).toEqual(['promptSections']);
+    expect(isCharacterProfile(safety)).toBe(false);
+
+    const translated = { ...validProfile, locales: { en: { promptSections: { format: 'Plain text' } } } };
+    expect(fieldsOf(validateProfile(translated), 'error')).toEqual(['locales.en.promptSections']);
+  });
+
+  it('checks translations against the original flag lists', () => {
+    const issues = validateProfile({
+      ...validProfile,
+      locales: {
+        en: { flags: { green: ['humour'] } },
+        de: { flags: { green: ['Humor', 'Zuhören'] } },
+      },
+    });
+    expect(hasErrors(issues)).toBe(false);
+    expect(fieldsOf(issues, 'warning')).toEqual(['locales.en.flags.green', 'locales.de']);
+  });
+
+  it('writes the messages in the requested language', () => {
+    const [french] = validateProfile({ ...validProfile, name: '' });
+    const [english] = validateProfile({ ...validProfile, name: '' }, undefined, 'en');
+    expect(formatIssue(french)).toBe(`name : ${STRINGS.fr.issues.missingName}`);
+    expect(formatIssue(english)).toBe(`name : ${STRINGS.en.issues.missingName}`);
+  });
+});
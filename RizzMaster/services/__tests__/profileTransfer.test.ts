@@ -0,0 +1,90 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getStrings } from '../../i18n';
+import { CharacterProfile } from '../../types/character';
+import { readProfileFile, readProfileLinkData } from '../profileTransfer';
+import { getProfiles, loadCustomProfiles, saveCustomProfile } from '../profiles';
+
+// Contenu des fichiers lus par readProfileFile, par uri
+const mockFiles: Record<string, string> = {};
+
+jest.mock('expo-file-system/next', () => ({
+  ...jest.requireActual('expo-file-system/next'),
+  File: class {
+    uri: string;
+    constructor(uri: string) {
+      this.uri = uri;
+    }
+    async text() {
+      return mockFiles[this.uri];
+    }
+  },
+}));
+
+const profile: CharacterProfile = {
+  id: 'imported',
+  name: 'Imported',
+  gender: 'female',
+  avatarKey: 'placeholder_avatar',
+  personality: { archetype: 'test', shortBio: 'Test', tone: 'calme' },
+  flags: { green: ['humour', 'écoute'], red: ['vantardise'], hardNo: ['insulte'] },
+  difficulty: { level: 'easy', toleranceRed: 3, minGreenForSecondDate: 2 },
+};
+
+const profileFile = (content: unknown) => {
+  const uri = `file:///import/${Object.keys(mockFiles).length}.rizz.json`;
+  mockFiles[uri] = typeof content === 'string' ? content : JSON.stringify(content);
+  return uri;
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await loadCustomProfiles();
+});
+
+describe('readProfileFile', () => {
+  it("reads a .rizz.json file with its avatar, stored under the profile's own key", async () => {
+    const uri = profileFile({ format: 'rizzmaster-profile', version: 1, profile, avatar: { base64: 'aGVsbG8=' } });
+    const result = await readProfileFile(uri);
+    expect(result).toMatchObject({
+      ok: true,
+      preview: { collision: 'none', avatarBase64: 'aGVsbG8=', profile: { id: 'imported', avatarKey: 'imported_avatar' } },
+    });
+  });
+
+  it('accepts a bare profile JSON', async () => {
+    const result = await readProfileFile(profileFile(profile));
+    expect(result).toMatchObject({ ok: true, preview: { collision: 'none', profile } });
+  });
+
+  it('rejects unreadable files, newer formats and invalid profiles', async () => {
+    const strings = getStrings().importer;
+    expect(await readProfileFile(profileFile('{ pas du JSON'))).toEqual({ ok: false, error: strings.invalidJson });
+    expect(await readProfileFile(profileFile({ format: 'rizzmaster-profile', version: 2, profile }))).toEqual({
+      ok: false,
+      error: strings.newerVersion,
+    });
+    const invalid = await readProfileFile(profileFile({ ...profile, gender: 'other' }));
+    expect(invalid.ok).toBe(false);
+  });
+});
+
+describe('import collisions', () => {
+  it('imports a profile with a bundled id as a copy under a new id', () => {
+    const bundled = getProfiles()[0];
+    const result = readProfileLinkData(JSON.stringify(bundled));
+    expect(result.ok && result.preview.collision).toBe('bundled');
+    expect(result.ok && result.preview.profile.id).toMatch(/^custom_/);
+  });
+
+  it('keeps the id of a custom profile so the player can replace it', async () => {
+    expect(await saveCustomProfile(profile)).toEqual([]);
+    const result = readProfileLinkData(JSON.stringify({ ...profile, name: 'Updated' }));
+    expect(result).toMatchObject({ ok: true, preview: { collision: 'custom', profile: { id: 'imported', name: 'Updated' } } });
+  });
+
+  it('reports an empty or unreadable link', () => {
+    const strings = getStrings().importer;
+    expect(readProfileLinkData(undefined)).toEqual({ ok: false, error: strings.emptyLink });
+    expect(readProfileLinkData('{')).toEqual({ ok: false, error: strings.unreadableLink });
+  });
+});
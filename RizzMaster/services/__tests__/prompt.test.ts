@@ -0,0 +1,87 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { CharacterProfile } from '../../types/character';
+import { buildSystemPrompt, parsePromptTemplate, PromptTemplateError } from '../prompt';
+
+const profile: CharacterProfile = {
+  id: 'test',
+  name: 'Test',
+  gender: 'female',
+  avatarKey: 'test_avatar',
+  personality: { archetype: 'Douce & rêveuse', shortBio: 'Test', tone: 'calme' },
+  flags: { green: ['humour', 'écoute'], red: ['vantardise'], hardNo: ['insulte'] },
+  difficulty: { level: 'easy', toleranceRed: 3, minGreenForSecondDate: 2 },
+};
+
+const SOURCE = `@version test-1
+
+@section intro
+Tu es {{name}}, {{tone}}.
+
+@section style
+Style de base
+
+@section style archetype: douce & RÊVEUSE
+Style rêveur
+
+@section safety
+Jamais de {{inconnu}}
+`;
+
+const readScript = (file: string) => readFileSync(join(__dirname, '../../data/scripts', file), 'utf8');
+
+describe('parsePromptTemplate', () => {
+  it('reads the version and the sections in order, with their archetype', () => {
+    const template = parsePromptTemplate(SOURCE);
+    expect(template.version).toBe('test-1');
+    expect(template.sections.map((section) => [section.id, section.archetype])).toEqual([
+      ['intro', undefined],
+      ['style', undefined],
+      ['style', 'douce & RÊVEUSE'],
+      ['safety', undefined],
+    ]);
+    expect(template.sections[0].text).toBe('Tu es {{name}}, {{tone}}.');
+  });
+
+  it('rejects a template without version or sections, or with text before them', () => {
+    expect(() => parsePromptTemplate('@section intro\nBonjour')).toThrow(PromptTemplateError);
+    expect(() => parsePromptTemplate('@version v1\n')).toThrow(PromptTemplateError);
+    expect(() => parsePromptTemplate('@version v1\nBonjour\n@section intro')).toThrow(PromptTemplateError);
+  });
+});
+
+describe('buildSystemPrompt', () => {
+  const template = parsePromptTemplate(SOURCE);
+
+  it('fills the placeholders and keeps unknown ones', () => {
+    const prompt = buildSystemPrompt(template, { ...profile, personality: { ...profile.personality, archetype: 'autre' } });
+    expect(prompt).toEqual({
+      text: 'Tu es Test, calme.\n\nStyle de base\n\nJamais de {{inconnu}}',
+      version: 'test-1',
+    });
+  });
+
+  it('uses the variant of the archetype in place of the base section', () => {
+    expect(buildSystemPrompt(template, profile).text).toBe('Tu es Test, calme.\n\nStyle rêveur\n\nJamais de {{inconnu}}');
+  });
+
+  it('lets a profile override win over the archetype variant, for the overridable sections only', () => {
+    const overriding = { ...profile, promptSections: { style: 'Style du profil', safety: 'Aucune règle' } } as CharacterProfile;
+    const text = buildSystemPrompt(template, overriding).text;
+    expect(text).toContain('Style du profil');
+    expect(text).not.toContain('Style rêveur');
+    expect(text).toContain('Jamais de');
+    expect(text).not.toContain('Aucune règle');
+  });
+
+  it('applies the shipped archetype variant of each script', () => {
+    const flirty = (archetype: string, language: 'fr' | 'en') =>
+      ({ ...profile, language, personality: { ...profile.personality, archetype } }) as CharacterProfile;
+    const french = parsePromptTemplate(readScript('script.txt'));
+    const english = parsePromptTemplate(readScript('script.en.txt'));
+
+    expect(buildSystemPrompt(french, flirty('Dragueur & direct', 'fr')).text).toContain('Tu mènes la conversation');
+    expect(buildSystemPrompt(french, profile).text).not.toContain('Tu mènes la conversation');
+    expect(buildSystemPrompt(english, flirty('Flirty & direct', 'en')).text).toContain('You lead the conversation');
+  });
+});
@@ -0,0 +1,52 @@
+import { Message } from '../../types/chat';
+import { GHOSTING_AFTER_MS, getPendingReply, isGhosting, latePenalty, REPLY_WINDOW_MS } from '../replyTimer';
+
+const MINUTE = 60 * 1000;
+const NOW = Date.UTC(2026, 9, 19, 12);
+
+const opened = { green: 1, red: 0, hardNo: false, score: 1 };
+
+describe('getPendingReply', () => {
+  it('waits for a reply to the last character message only', () => {
+    const answered: Message[] = [
+      { role: 'assistant', content: 'Salut', sentAt: NOW - MINUTE },
+      { role: 'user', content: 'Hello', sentAt: NOW },
+    ];
+    expect(getPendingReply(answered)).toBeNull();
+    expect(getPendingReply([{ role: 'assistant', content: 'Salut' }])).toBeNull();
+    expect(getPendingReply([])).toBeNull();
+  });
+
+  it('keeps the saved timestamp of a reply loaded after a restart', () => {
+    // Historique relu depuis le stockage : le message date d'avant la fermeture de l'app
+    const saved: Message[] = JSON.parse(
+      JSON.stringify([
+        { role: 'user', content: 'Hello', sentAt: NOW - 21 * MINUTE },
+        { role: 'assistant', content: 'Tu fais quoi ce soir ?', sentAt: NOW - 20 * MINUTE },
+      ])
+    );
+    const pending = getPendingReply(saved);
+    expect(pending).toEqual({ sentAt: NOW - 20 * MINUTE });
+
+    const idleMs = NOW - (pending?.sentAt ?? NOW);
+    expect(latePenalty(idleMs)).toBe(2);
+    expect(isGhosting(opened, idleMs)).toBe(true);
+  });
+});
+
+describe('latePenalty', () => {
+  it('costs one red flag per window overrun, two at most', () => {
+    expect(latePenalty(REPLY_WINDOW_MS)).toBe(0);
+    expect(latePenalty(REPLY_WINDOW_MS + 1)).toBe(1);
+    expect(latePenalty(2 * REPLY_WINDOW_MS + 1)).toBe(2);
+    expect(latePenalty(10 * REPLY_WINDOW_MS)).toBe(2);
+  });
+});
+
+describe('isGhosting', () => {
+  it('needs a character who opened up and a long enough silence', () => {
+    expect(isGhosting(opened, GHOSTING_AFTER_MS - 1)).toBe(false);
+    expect(isGhosting(opened, GHOSTING_AFTER_MS)).toBe(true);
+    expect(isGhosting({ ...opened, score: 0 }, GHOSTING_AFTER_MS * 2)).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+import { Image, ImageSourcePropType } from 'react-native';
+import { Directory, File, Paths } from 'expo-file-system/next';
+import { CharacterProfile } from '../types/character';
+
+/** Generated characters keep this key until a photo is picked: they show initials. */
+export const PLACEHOLDER_AVATAR_KEY = 'placeholder_avatar';
+
+// Bundled images, by avatarKey / photoKeys entry
+export const bundledAvatars: { [key: string]: ImageSourcePropType } = {
+  chloe_avatar: require('../assets/chloeimg.jpg'),
+  kilian_avatar: require('../assets/kilianimg.jpeg'),
+  louis_avatar: require('../assets/louisimg.webp'),
+  melina_avatar: require('../assets/melinaimg.jpg'),
+};
+
+const PICKED_AVATARS_DIR = 'avatars';
+
+// Gradients of the generated avatars, picked from the profile id
+const GRADIENTS: [string, string][] = [
+  ['#f472b6', '#8b5cf6'],
+  ['#fb923c', '#ef4444'],
+  ['#38bdf8', '#6366f1'],
+  ['#34d399', '#0ea5e9'],
+  ['#facc15', '#f97316'],
+  ['#a78bfa', '#ec4899'],
+];
+
+export type Avatar =
+  | { kind: 'image'; source: ImageSourcePropType }
+  | { kind: 'generated'; initials: string; colors: [string, string] };
+
+/** Keys a profile may use without a picked image. */
+export const getAvatarKeys = (): Set<string> => new Set([...Object.keys(bundledAvatars), PLACEHOLDER_AVATAR_KEY]);
+
+const initialsOf = (name: string): string => {
+  const words = name.trim().split(/[\s-]+/).filter(Boolean);
+  const letters = words.length > 1 ? [words[0], words[words.length - 1]] : words;
+  return letters.map((word) => Array.from(word)[0]).join('').toUpperCase() || '?';
+};
+
+// Même personnage, même dégradé, d'un lancement à l'autre
+const hashOf = (text: string): number =>
+  Array.from(text).reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7);
+
+const generateAvatar = (profile: CharacterProfile): Avatar => ({
+  kind: 'generated',
+  initials: initialsOf(profile.name),
+  colors: GRADIENTS[hashOf(profile.id) % GRADIENTS.length],
+});
+
+/**
+ * Avatar of the profile: the image picked on the device first, then the
+ * bundled image of its avatarKey, then initials on a gradient.
+ */
+export const resolveAvatar = (profile: CharacterProfile, pickedUri?: string): Avatar => {
+  if (pickedUri) {
+    return { kind: 'image', source: { uri: pickedUri } };
+  }
+  const bundled = bundledAvatars[profile.avatarKey];
+  return bundled ? { kind: 'image', source: bundled } : generateAvatar(profile);
+};
+
+/** Extra bundled photos of the profile; unknown keys are skipped. */
+export const resolvePhotos = (profile: CharacterProfile): Avatar[] =>
+  (profile.photoKeys ?? [])
+    .map((key) => bundledAvatars[key])
+    .filter(Boolean)
+    .map((source) => ({ kind: 'image', source }));
+
+/** Loads the image ahead of time; generated avatars need nothing. */
+export const prefetchAvatar = (avatar: Avatar) => {
+  if (avatar.kind === 'image') {
+    Image.prefetch(Image.resolveAssetSource(avatar.source).uri);
+  }
+};
+
+/** Copies an image picked on the device into the document directory and returns its new uri. */
+export const storePickedAvatar = (profileId: string, pickedUri: string): string => {
+  const directory = new Directory(Paths.document, PICKED_AVATARS_DIR);
+  if (!directory.exists) {
+    directory.create({ intermediates: true });
+  }
+  // A new name on every change, so the image cache never shows the old picture
+  const target = new File(directory, `${profileId}_${Date.now().toString(36)}.jpg`);
+  new File(pickedUri).copy(target);
+  return target.uri;
+};
+
+export const deletePickedAvatar = (uri: string | undefined) => {
+  try {
+    const file = uri ? new File(uri) : null;
+    if (file?.exists) {
+      file.delete();
+    }
+  } catch (error) {
+    console.warn('Avatar deletion error', error);
+  }
+};
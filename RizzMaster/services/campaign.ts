@@ -0,0 +1,138 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CharacterProfile, DifficultyLevel } from '../types/character';
+import { FlagStats } from '../hooks/useGameState';
+import { DIFFICULTY_LEVELS } from './playerPreferences';
+
+export const CAMPAIGN_KEY = 'rizzmaster_campaign';
+
+// Distinct wins at the previous level needed to play each level
+const WINS_TO_UNLOCK: Record<DifficultyLevel, number> = {
+  easy: 0,
+  medium: 1,
+  hard: 2,
+};
+
+const BASE_XP: Record<DifficultyLevel, number> = {
+  easy: 100,
+  medium: 200,
+  hard: 400,
+};
+// Share of the base XP added for a game without any red flag
+const CLEAN_GAME_BONUS = 0.5;
+// Share of the XP still given when the profile was already beaten, so
+// replaying the same easy profile is not worth it
+const REPEAT_WIN_SHARE = 0.1;
+// XP of level n: XP_PER_LEVEL * (n - 1)², so each level takes longer
+const XP_PER_LEVEL = 100;
+
+export type CampaignProgress = {
+  xp: number;
+  wins: Record<string, DifficultyLevel>; // profile id -> level it was won at
+};
+
+/** What a won game brought, shown on the result screen. */
+export type CampaignReward = {
+  xp: number;
+  level: number;                     // player level after the win
+  levelUp: boolean;
+  unlocked: DifficultyLevel | null;  // difficulty this win made playable
+  repeat: boolean;                   // profile already beaten: reduced XP
+};
+
+export type LevelProgress = {
+  level: number;
+  xpIntoLevel: number;
+  xpForNextLevel: number; // XP between this level and the next one
+};
+
+export const EMPTY_CAMPAIGN: CampaignProgress = { xp: 0, wins: {} };
+
+export const loadCampaign = async (): Promise<CampaignProgress> => {
+  try {
+    const raw = await AsyncStorage.getItem(CAMPAIGN_KEY);
+    return raw ? { ...EMPTY_CAMPAIGN, ...JSON.parse(raw) } : EMPTY_CAMPAIGN;
+  } catch (error) {
+    console.warn('Campaign loading error', error);
+    return EMPTY_CAMPAIGN;
+  }
+};
+
+const levelAt = (xp: number): number => Math.floor(Math.sqrt(Math.max(0, xp) / XP_PER_LEVEL)) + 1;
+
+const xpOfLevel = (level: number): number => XP_PER_LEVEL * (level - 1) ** 2;
+
+export const getLevelProgress = (xp: number): LevelProgress => {
+  const level = levelAt(xp);
+  return {
+    level,
+    xpIntoLevel: xp - xpOfLevel(level),
+    xpForNextLevel: xpOfLevel(level + 1) - xpOfLevel(level),
+  };
+};
+
+const winsAt = (progress: CampaignProgress, level: DifficultyLevel): number =>
+  Object.values(progress.wins).filter((won) => won === level).length;
+
+export type UnlockRequirement = {
+  level: DifficultyLevel; // level to win at
+  wins: number;           // distinct wins still missing there
+};
+
+/**
+ * First thing standing between the player and `level`, null once it can be
+ * played. Hard needs medium to be unlocked first, and so on.
+ */
+export const getUnlockRequirement = (
+  progress: CampaignProgress,
+  level: DifficultyLevel
+): UnlockRequirement | null => {
+  for (const step of DIFFICULTY_LEVELS.slice(1, DIFFICULTY_LEVELS.indexOf(level) + 1)) {
+    const previous = DIFFICULTY_LEVELS[DIFFICULTY_LEVELS.indexOf(step) - 1];
+    const wins = WINS_TO_UNLOCK[step] - winsAt(progress, previous);
+    if (wins > 0) {
+      return { level: previous, wins };
+    }
+  }
+  return null;
+};
+
+export const isLevelUnlocked = (progress: CampaignProgress, level: DifficultyLevel): boolean =>
+  getUnlockRequirement(progress, level) === null;
+
+export const isProfileUnlocked = (progress: CampaignProgress, profile: CharacterProfile): boolean =>
+  isLevelUnlocked(progress, profile.difficulty.level);
+
+/**
+ * XP of a win: the level's base XP, up to CLEAN_GAME_BONUS more the fewer red
+ * flags were taken. Only REPEAT_WIN_SHARE of it once the profile was beaten.
+ */
+export const computeWinXp = (profile: CharacterProfile, stats: FlagStats, repeat = false): number => {
+  const tolerance = Math.max(1, profile.difficulty.toleranceRed);
+  const clean = Math.max(0, 1 - stats.red / tolerance);
+  const xp = BASE_XP[profile.difficulty.level] * (1 + CLEAN_GAME_BONUS * clean);
+  return Math.round(repeat ? xp * REPEAT_WIN_SHARE : xp);
+};
+
+/**
+ * Adds a won game to the campaign. The first win against a profile gives
+ * full XP and counts towards unlocking the next difficulty; later ones only
+ * give reduced XP.
+ */
+export const recordWin = async (profile: CharacterProfile, stats: FlagStats): Promise<CampaignReward> => {
+  const before = await loadCampaign();
+  const repeat = before.wins[profile.id] !== undefined;
+  const xp = computeWinXp(profile, stats, repeat);
+  const after: CampaignProgress = {
+    xp: before.xp + xp,
+    wins: { ...before.wins, [profile.id]: before.wins[profile.id] ?? profile.difficulty.level },
+  };
+  try {
+    await AsyncStorage.setItem(CAMPAIGN_KEY, JSON.stringify(after));
+  } catch (error) {
+    console.warn('Campaign saving error', error);
+  }
+  const unlocked = DIFFICULTY_LEVELS.find(
+    (level) => !isLevelUnlocked(before, level) && isLevelUnlocked(after, level)
+  ) ?? null;
+  return { xp, level: levelAt(after.xp), levelUp: levelAt(after.xp) > levelAt(before.xp), unlocked, repeat };
+};
@@ -0,0 +1,100 @@
+import { Locale } from '../i18n/locales';
+import { STRINGS } from '../i18n/strings';
+import { CharacterProfile } from '../types/character';
+import { Message } from '../types/chat';
+import { scoreMessage } from './judge';
+import { extractJsonObject } from './llm/contract';
+import { LLMProvider, ResponseSchema } from './llm/types';
+
+// Last messages the coach reads along with the draft
+const COACH_HISTORY = 6;
+
+export type CoachVerdict = 'good' | 'neutral' | 'risky';
+
+export type CoachTip = {
+  verdict: CoachVerdict;
+  text: string; // one short hint that never quotes the character's flags
+};
+
+/** JSON schema of the coach's reply, sent to providers that support structured output. */
+export const COACH_TIP_SCHEMA: ResponseSchema = {
+  name: 'rizzmaster_coach',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['verdict', 'tip'],
+    properties: {
+      verdict: { type: 'string', enum: ['good', 'neutral', 'risky'] },
+      tip: { type: 'string' },
+    },
+  },
+};
+
+const isVerdict = (value: unknown): value is CoachVerdict =>
+  value === 'good' || value === 'neutral' || value === 'risky';
+
+const parseCoachTip = (raw: string): CoachTip | null => {
+  try {
+    const parsed = JSON.parse(extractJsonObject(raw) ?? raw);
+    if (parsed && isVerdict(parsed.verdict) && typeof parsed.tip === 'string' && parsed.tip.trim()) {
+      return { verdict: parsed.verdict, text: parsed.tip.trim() };
+    }
+  } catch {
+    // Réponse illisible : le juge hors ligne prend le relais
+  }
+  return null;
+};
+
+/**
+ * Offline review: the judge scores the draft and the tip only says which way
+ * it leans, so the flags stay hidden.
+ */
+export const judgeDraft = (profile: CharacterProfile, draft: string, locale: Locale): CoachTip => {
+  const t = STRINGS[locale].coach;
+  const matches = scoreMessage(profile, draft);
+  if (matches.blocked || matches.hardNo.length > 0) {
+    return { verdict: 'risky', text: t.offlineLimit(profile.name) };
+  }
+  if (matches.red.length > matches.green.length) {
+    return { verdict: 'risky', text: t.offlineRed(profile.name) };
+  }
+  if (matches.green.length > 0) {
+    return { verdict: 'good', text: t.offlineGreen(profile.name) };
+  }
+  return { verdict: 'neutral', text: t.offlineNeutral(profile.personality.tone) };
+};
+
+/**
+ * Review of the player's `draft` before it is sent. Asks `provider` when
+ * there is one and falls back to the offline judge when there is none or
+ * when its reply cannot be read. Aborts with `signal` like any completion.
+ */
+export const reviewDraft = async (
+  provider: LLMProvider | null,
+  profile: CharacterProfile,
+  messages: Message[],
+  draft: string,
+  locale: Locale,
+  readMessage: (content: string) => string,
+  signal?: AbortSignal
+): Promise<CoachTip> => {
+  if (!provider) {
+    return judgeDraft(profile, draft, locale);
+  }
+
+  const t = STRINGS[locale].model;
+  const transcript = messages
+    .filter((msg) => !msg.failed)
+    .slice(-COACH_HISTORY)
+    .map((msg) => `${msg.role === 'user' ? t.player : profile.name}: ${msg.role === 'user' ? msg.content : readMessage(msg.content)}`)
+    .join('\n');
+
+  const reply = await provider.complete({
+    task: { kind: 'coach', profile, locale },
+    messages: [{ role: 'user', content: t.coachDraft(transcript, draft) }],
+    temperature: 0.4,
+    responseSchema: COACH_TIP_SCHEMA,
+    signal,
+  });
+  return parseCoachTip(reply.content) ?? judgeDraft(profile, draft, locale);
+};
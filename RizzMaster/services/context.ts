@@ -0,0 +1,107 @@
+import { STRINGS } from '../i18n/strings';
+import { CharacterProfile } from '../types/character';
+import { Message } from '../types/chat';
+import { LLMProvider } from './llm';
+import { getProfileLanguage } from './profileLocale';
+
+// ~4 characters per token is close enough for French and English prose;
+// each message also pays a few tokens of role/formatting overhead.
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Once over budget, history is cut down to this share of the budget so that
+// a summary is not regenerated on every single turn.
+const TARGET_BUDGET_RATIO = 0.6;
+
+export type ConversationSummary = {
+  text: string;
+  coveredCount: number; // number of leading messages the summary replaces
+};
+
+export type ContextPlan = {
+  summaryUpdate: { toSummarize: Message[]; coveredCount: number } | null;
+  estimatedTokens: number;
+};
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const estimateMessagesTokens = (messages: { content: string }[]): number =>
+  messages.reduce((sum, msg) => sum + estimateTokens(msg.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+
+/**
+ * Checks whether a request fits `budget` tokens. When it does not, returns
+ * the older messages to fold into the summary: at least `keepRecent` messages
+ * stay verbatim and the kept history always starts with a player message.
+ */
+export const planContext = ({
+  systemTokens,
+  messages,
+  summary,
+  budget,
+  keepRecent,
+}: {
+  systemTokens: number;
+  messages: Message[];
+  summary: ConversationSummary | null;
+  budget: number;
+  keepRecent: number;
+}): ContextPlan => {
+  const coveredCount = summary?.coveredCount ?? 0;
+  const summaryTokens = summary ? estimateTokens(summary.text) + MESSAGE_OVERHEAD_TOKENS : 0;
+  const pending = messages.slice(coveredCount);
+  const estimatedTokens = systemTokens + summaryTokens + estimateMessagesTokens(pending);
+
+  if (estimatedTokens <= budget) {
+    return { summaryUpdate: null, estimatedTokens };
+  }
+
+  const target = budget * TARGET_BUDGET_RATIO;
+  const lastCuttable = messages.length - keepRecent;
+  let cut = coveredCount;
+  let remaining = estimatedTokens;
+  while (cut < lastCuttable && remaining > target) {
+    remaining -= estimateTokens(messages[cut].content) + MESSAGE_OVERHEAD_TOKENS;
+    cut += 1;
+  }
+  while (cut < lastCuttable && messages[cut].role !== 'user') {
+    cut += 1;
+  }
+
+  if (cut <= coveredCount) {
+    return { summaryUpdate: null, estimatedTokens };
+  }
+  return {
+    summaryUpdate: { toSummarize: messages.slice(coveredCount, cut), coveredCount: cut },
+    estimatedTokens,
+  };
+};
+
+/**
+ * Asks the model for an in-character summary of `toSummarize`, merged with
+ * the previous summary if there is one.
+ */
+export const summarizeConversation = async (
+  provider: LLMProvider,
+  profile: CharacterProfile,
+  previous: ConversationSummary | null,
+  toSummarize: Message[],
+  readMessage: (content: string) => string,
+  signal?: AbortSignal
+): Promise<string> => {
+  const t = STRINGS[getProfileLanguage(profile)].model;
+  const transcript = toSummarize
+    .map((msg) => `${msg.role === 'user' ? t.player : profile.name}: ${msg.role === 'user' ? msg.content : readMessage(msg.content)}`)
+    .join('\n');
+
+  const reply = await provider.complete({
+    task: { kind: 'summary', profile },
+    messages: [
+      {
+        role: 'user',
+        content: `${previous ? t.previousSummary(previous.text) : ''}${t.transcript(transcript)}`,
+      },
+    ],
+    temperature: 0.3,
+    signal,
+  });
+  return reply.content.trim();
+};
@@ -0,0 +1,179 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CharacterProfile } from '../types/character';
+import { FlagStats } from '../hooks/useGameState';
+
+export const DAILY_CHALLENGE_KEY = 'rizzmaster_daily';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Entries shown in the leaderboard
+export const LEADERBOARD_SIZE = 10;
+
+/** Profile and starting scenario of one day. */
+export type DailyChallenge = {
+  date: string;       // local day, YYYY-MM-DD
+  profileId: string;
+  scenario: number;   // index in the `daily.scenarios` strings
+};
+
+export type DailyResult = {
+  date: string;
+  profileId: string;
+  profileName: string;
+  won: boolean;
+  exchanges: number;
+  green: number;
+  red: number;
+  score: number;
+  coached: boolean;   // kept out of the leaderboard and streaks
+};
+
+type DailyRecord = {
+  today: DailyChallenge | null; // pick of the last day the challenge was opened
+  results: DailyResult[];
+};
+
+export type DailyStreaks = {
+  current: number; // days in a row up to today, or yesterday while today is not played
+  best: number;
+};
+
+const EMPTY_RECORD: DailyRecord = { today: null, results: [] };
+
+const loadRecord = async (): Promise<DailyRecord> => {
+  try {
+    const raw = await AsyncStorage.getItem(DAILY_CHALLENGE_KEY);
+    return raw ? { ...EMPTY_RECORD, ...JSON.parse(raw) } : EMPTY_RECORD;
+  } catch (error) {
+    console.warn('Daily challenge loading error', error);
+    return EMPTY_RECORD;
+  }
+};
+
+const saveRecord = async (record: DailyRecord) => {
+  try {
+    await AsyncStorage.setItem(DAILY_CHALLENGE_KEY, JSON.stringify(record));
+  } catch (error) {
+    console.warn('Daily challenge saving error', error);
+  }
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/** Local calendar day of `date`, so the challenge changes at midnight on the device. */
+export const getDateKey = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const dayNumber = (dateKey: string): number => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+};
+
+// Même date, même tirage sur tous les appareils qui ont les mêmes profils. xmur3 avec la finalisation
+// de murmur3 : des dates voisines donnent des tirages sans rapport
+const hashOf = (text: string): number => {
+  let hash = 1779033703 ^ text.length;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 3432918353);
+    hash = (hash << 13) | (hash >>> 19);
+  }
+  hash = Math.imul(hash ^ (hash >>> 16), 2246822507);
+  hash = Math.imul(hash ^ (hash >>> 13), 3266489909);
+  return (hash ^ (hash >>> 16)) >>> 0;
+};
+
+/**
+ * Challenge of `dateKey` among `profiles`, bundled, custom and generated
+ * alike. Profiles are sorted by id first, so the deck order plays no part.
+ */
+export const pickDailyChallenge = (
+  profiles: CharacterProfile[],
+  dateKey: string,
+  scenarioCount: number
+): DailyChallenge | null => {
+  if (profiles.length === 0) {
+    return null;
+  }
+  const pool = [...profiles].sort((a, b) => a.id.localeCompare(b.id));
+  return {
+    date: dateKey,
+    profileId: pool[hashOf(dateKey) % pool.length].id,
+    scenario: hashOf(`${dateKey}:scenario`) % Math.max(1, scenarioCount),
+  };
+};
+
+/**
+ * Today's challenge. The first pick of the day is saved, so creating or
+ * deleting a profile later that day does not change it, unless its profile
+ * is gone.
+ */
+export const getTodayChallenge = async (
+  profiles: CharacterProfile[],
+  scenarioCount: number
+): Promise<DailyChallenge | null> => {
+  const dateKey = getDateKey();
+  const record = await loadRecord();
+  const saved = record.today;
+  if (saved?.date === dateKey && profiles.some((profile) => profile.id === saved.profileId)) {
+    return saved;
+  }
+  const challenge = pickDailyChallenge(profiles, dateKey, scenarioCount);
+  await saveRecord({ ...record, today: challenge });
+  return challenge;
+};
+
+export const loadDailyResults = async (): Promise<DailyResult[]> => (await loadRecord()).results;
+
+export const getDailyResult = (results: DailyResult[], dateKey: string): DailyResult | undefined =>
+  results.find((result) => result.date === dateKey);
+
+/**
+ * Saves how a daily game ended. A day keeps a single result: a later call for
+ * the same date replaces it, so the last state of the game is the one kept.
+ */
+export const recordDailyResult = async (
+  challenge: DailyChallenge,
+  profile: CharacterProfile,
+  outcome: { won: boolean; exchanges: number; stats: FlagStats; coached: boolean }
+): Promise<void> => {
+  const record = await loadRecord();
+  const result: DailyResult = {
+    date: challenge.date,
+    profileId: profile.id,
+    profileName: profile.name,
+    won: outcome.won,
+    exchanges: outcome.exchanges,
+    green: outcome.stats.green,
+    red: outcome.stats.red,
+    score: outcome.stats.score,
+    coached: outcome.coached,
+  };
+  await saveRecord({
+    ...record,
+    results: [...record.results.filter((saved) => saved.date !== challenge.date), result],
+  });
+};
+
+/** Best days first: wins, then the highest score, then the fewest exchanges. */
+export const buildLeaderboard = (results: DailyResult[]): DailyResult[] =>
+  results
+    .filter((result) => !result.coached)
+    .sort((a, b) => Number(b.won) - Number(a.won) || b.score - a.score || a.exchanges - b.exchanges)
+    .slice(0, LEADERBOARD_SIZE);
+
+/** Days in a row with an uncoached daily game. */
+export const getStreaks = (results: DailyResult[], today: string = getDateKey()): DailyStreaks => {
+  const days = Array.from(new Set(results.filter((result) => !result.coached).map((result) => dayNumber(result.date))))
+    .sort((a, b) => a - b);
+
+  let best = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && day === days[index - 1] + 1 ? run + 1 : 1;
+    best = Math.max(best, run);
+  });
+
+  const last = days[days.length - 1];
+  const todayNumber = dayNumber(today);
+  const current = last !== undefined && todayNumber - last <= 1 ? run : 0;
+  return { current, best };
+};
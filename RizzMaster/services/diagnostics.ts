@@ -0,0 +1,64 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const DIAGNOSTICS_KEY = 'rizzmaster_diagnostics';
+const MAX_RECENT_EVENTS = 50;
+
+export type DiagnosticEvent = {
+  type: string;
+  at: number; // timestamp (ms)
+  details?: Record<string, unknown>;
+};
+
+export type Diagnostics = {
+  counters: { [type: string]: number };
+  recent: DiagnosticEvent[]; // newest last
+};
+
+const emptyDiagnostics = (): Diagnostics => ({ counters: {}, recent: [] });
+
+// Writes are chained so concurrent records never overwrite each other.
+let pendingWrite: Promise<void> = Promise.resolve();
+
+const update = (mutate: (diagnostics: Diagnostics) => void): Promise<void> => {
+  pendingWrite = pendingWrite.then(async () => {
+    try {
+      const raw = await AsyncStorage.getItem(DIAGNOSTICS_KEY);
+      const diagnostics: Diagnostics = raw ? JSON.parse(raw) : emptyDiagnostics();
+      mutate(diagnostics);
+      await AsyncStorage.setItem(DIAGNOSTICS_KEY, JSON.stringify(diagnostics));
+    } catch (error) {
+      console.warn('Diagnostics saving error', error);
+    }
+  });
+  return pendingWrite;
+};
+
+/** Increments the counter of `type` without keeping any detail. */
+export const countDiagnostic = (type: string): Promise<void> =>
+  update((diagnostics) => {
+    diagnostics.counters[type] = (diagnostics.counters[type] ?? 0) + 1;
+  });
+
+/**
+ * Increments the counter of `type` and keeps the event in the recent list.
+ * The event is only logged in development builds.
+ */
+export const recordDiagnostic = (type: string, details?: Record<string, unknown>): Promise<void> => {
+  if (__DEV__) {
+    console.warn(`[diagnostics] ${type}`, details ?? '');
+  }
+  return update((diagnostics) => {
+    diagnostics.counters[type] = (diagnostics.counters[type] ?? 0) + 1;
+    diagnostics.recent = [...diagnostics.recent, { type, at: Date.now(), details }].slice(-MAX_RECENT_EVENTS);
+  });
+};
+
+export const getDiagnostics = async (): Promise<Diagnostics> => {
+  try {
+    const raw = await AsyncStorage.getItem(DIAGNOSTICS_KEY);
+    return raw ? JSON.parse(raw) : emptyDiagnostics();
+  } catch (error) {
+    console.warn('Diagnostics loading error', error);
+    return emptyDiagnostics();
+  }
+};
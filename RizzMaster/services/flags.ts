@@ -0,0 +1,94 @@
+import { CharacterProfile } from '../types/character';
+import { FlagIds, Message } from '../types/chat';
+import { FlagStats } from '../hooks/useGameState';
+import { applyFlagDelta } from './gameRules';
+
+export type FlagKind = keyof FlagIds;
+
+export type TriggeredFlag = {
+  kind: FlagKind;
+  index: number; // index in profile.flags[kind]
+  text: string;
+  count: number; // number of player messages that triggered it
+};
+
+const FLAG_KINDS: FlagKind[] = ['hardNo', 'red', 'green'];
+
+/**
+ * Aggregates the flags attributed to the player's messages, for the end of
+ * game screen. Never call this while the game is running: it reveals the
+ * profile's preferences.
+ */
+export const summarizeTriggeredFlags = (messages: Message[], profile: CharacterProfile): TriggeredFlag[] => {
+  const counts = new Map<string, TriggeredFlag>();
+
+  messages.forEach((msg) => {
+    if (msg.role !== 'user' || !msg.flags) return;
+    FLAG_KINDS.forEach((kind) => {
+      msg.flags![kind].forEach((index) => {
+        const text = profile.flags[kind][index];
+        if (text === undefined) return;
+        const key = `${kind}:${index}`;
+        const existing = counts.get(key);
+        if (existing) {
+          existing.count += 1;
+        } else {
+          counts.set(key, { kind, index, text, count: 1 });
+        }
+      });
+    });
+  });
+
+  return Array.from(counts.values()).sort(
+    (a, b) => FLAG_KINDS.indexOf(a.kind) - FLAG_KINDS.indexOf(b.kind) || b.count - a.count
+  );
+};
+
+export type MessageFlag = {
+  kind: FlagKind;
+  index: number;
+  text: string;
+};
+
+// One counted player message of the debrief timeline
+export type TurnBalance = {
+  messageIndex: number; // index in the conversation
+  flags: MessageFlag[];
+  penalty: number;      // red flags of a late reply (timed mode)
+  score: number;        // compatibility score once the turn was counted
+};
+
+/** Flags attributed to one player message, hard no first. Reveals the profile like summarizeTriggeredFlags. */
+export const getMessageFlags = (message: Message, profile: CharacterProfile): MessageFlag[] =>
+  FLAG_KINDS.flatMap((kind) =>
+    (message.flags?.[kind] ?? [])
+      .filter((index) => profile.flags[kind][index] !== undefined)
+      .map((index) => ({ kind, index, text: profile.flags[kind][index] }))
+  );
+
+/**
+ * Score after each counted player message, for the debrief chart. Messages
+ * saved before scores were stored get theirs replayed from their flags.
+ */
+export const buildBalanceTimeline = (messages: Message[], profile: CharacterProfile): TurnBalance[] => {
+  const timeline: TurnBalance[] = [];
+  let totals: FlagStats = { green: 0, red: 0, hardNo: false, score: 0 };
+
+  messages.forEach((msg, messageIndex) => {
+    if (msg.role !== 'user' || msg.failed) return;
+    const penalty = msg.penalty ?? 0;
+    totals = applyFlagDelta(profile, totals, {
+      green: msg.flags?.green.length ?? 0,
+      red: msg.flags?.red.length ?? 0,
+      hardNo: (msg.flags?.hardNo.length ?? 0) > 0,
+      matched: msg.flags,
+      penalty,
+    });
+    if (msg.score !== undefined) {
+      totals = { ...totals, score: msg.score };
+    }
+    timeline.push({ messageIndex, flags: getMessageFlags(msg, profile), penalty, score: totals.score });
+  });
+
+  return timeline;
+};
@@ -0,0 +1,158 @@
+import { CharacterProfile } from '../types/character';
+import { FlagIds } from '../types/chat';
+import { FlagStats, GameStatus } from '../hooks/useGameState';
+
+// Given to the model through the {{rules}} placeholder of the script template
+export const MIN_EXCHANGES_TO_WIN = 5;
+const DEFAULT_MOMENTUM = 0.9;
+const DEFAULT_FLAG_WEIGHT = 1;
+
+export type FlagDelta = {
+  green: number;
+  red: number;
+  hardNo: boolean;
+  matched?: FlagIds; // when present, gives the counts too and lets each flag use its own weight
+  penalty?: number;  // red flags given by the app, not by a profile flag (e.g. a late reply)
+};
+
+export type ScoringRules = {
+  momentum: number;
+  winPoints: number;
+  losePoints: number;
+};
+
+export type StatusConflict =
+  | 'model_game_over_only'           // model ended the game, the score did not
+  | 'model_game_won_rejected'        // model declared a win the rules refuse
+  | 'local_game_won_unannounced'     // rules reached a win, model did not say so
+  | 'local_game_over_unannounced';   // rules reached a loss, model did not say so
+
+export type RuleVerdict = {
+  status: GameStatus;      // authoritative result
+  localStatus: GameStatus; // what the running totals alone say
+  modelStatus: GameStatus; // what the model returned
+  totals: FlagStats;       // running totals after this turn
+  conflict: StatusConflict | null;
+};
+
+export const getScoringRules = (profile: CharacterProfile): ScoringRules => {
+  const momentum = profile.scoring?.momentum;
+  return {
+    momentum: momentum !== undefined && momentum >= 0 && momentum <= 1 ? momentum : DEFAULT_MOMENTUM,
+    winPoints: profile.difficulty.winPoints ?? profile.difficulty.minGreenForSecondDate,
+    losePoints: profile.difficulty.losePoints ?? profile.difficulty.toleranceRed,
+  };
+};
+
+const weightOf = (weights: number[] | undefined, index: number): number =>
+  weights?.[index] ?? DEFAULT_FLAG_WEIGHT;
+
+/**
+ * Points earned on one turn: weighted green flags minus weighted red flags.
+ * Without attribution every flag weighs the default weight, like penalties.
+ */
+export const turnPoints = (profile: CharacterProfile, delta: FlagDelta): number => {
+  const penalty = (delta.penalty ?? 0) * DEFAULT_FLAG_WEIGHT;
+  if (!delta.matched) {
+    return (delta.green - delta.red) * DEFAULT_FLAG_WEIGHT - penalty;
+  }
+  const green = delta.matched.green.reduce((sum, index) => sum + weightOf(profile.scoring?.greenWeights, index), 0);
+  const red = delta.matched.red.reduce((sum, index) => sum + weightOf(profile.scoring?.redWeights, index), 0);
+  return green - red - penalty;
+};
+
+/**
+ * `delta` with its green and red counts taken from `matched` when the flags
+ * are attributed, so the totals and the weighted score come from the same
+ * flags whatever counts the model reported. A matched hardNo ends the game.
+ */
+export const countMatchedFlags = (delta: FlagDelta): FlagDelta =>
+  delta.matched
+    ? {
+        ...delta,
+        green: delta.matched.green.length,
+        red: delta.matched.red.length,
+        hardNo: delta.hardNo || delta.matched.hardNo.length > 0,
+      }
+    : delta;
+
+/**
+ * Adds a turn to the running totals. The score decays by `momentum` before
+ * the new points are added, so recent behaviour weighs more than old one.
+ */
+export const applyFlagDelta = (profile: CharacterProfile, totals: FlagStats, delta: FlagDelta): FlagStats => {
+  const turn = countMatchedFlags(delta);
+  return {
+    green: totals.green + turn.green,
+    red: totals.red + turn.red + (turn.penalty ?? 0),
+    hardNo: totals.hardNo || turn.hardNo,
+    score: totals.score * getScoringRules(profile).momentum + turnPoints(profile, turn),
+  };
+};
+
+/** Result from the running totals alone, per the profile's difficulty. */
+export const computeLocalStatus = (
+  profile: CharacterProfile,
+  totals: FlagStats,
+  exchanges: number
+): GameStatus => {
+  const { winPoints, losePoints } = getScoringRules(profile);
+  if (totals.hardNo || totals.score <= -losePoints) {
+    return 'GAME_OVER';
+  }
+  if (totals.score >= winPoints && exchanges >= MIN_EXCHANGES_TO_WIN) {
+    return 'GAME_WON';
+  }
+  return null;
+};
+
+/**
+ * Decides the outcome of a turn. The local rules are authoritative, with one
+ * exception, as the model's reply has already been shown to the player:
+ *
+ * - a local GAME_OVER always ends the game;
+ * - a model GAME_OVER also ends the game (the character has already left the
+ *   chat in its message), even when the score did not get there;
+ * - a win needs the local rules: a model GAME_WON before enough points or
+ *   before MIN_EXCHANGES_TO_WIN exchanges is ignored;
+ * - a local GAME_WON stands even when the model did not announce it.
+ *
+ * Any disagreement is reported in `conflict` so it can be logged.
+ */
+export const resolveTurn = ({
+  profile,
+  totals,
+  delta,
+  exchanges,
+  modelStatus,
+}: {
+  profile: CharacterProfile;
+  totals: FlagStats;   // running totals before this turn
+  delta: FlagDelta;    // flags detected on this turn
+  exchanges: number;   // player messages sent, this one included
+  modelStatus: GameStatus;
+}): RuleVerdict => {
+  const nextTotals = applyFlagDelta(profile, totals, delta);
+  const localStatus = computeLocalStatus(profile, nextTotals, exchanges);
+  const verdict = (status: GameStatus, conflict: StatusConflict | null): RuleVerdict => ({
+    status,
+    localStatus,
+    modelStatus,
+    totals: nextTotals,
+    conflict,
+  });
+
+  if (localStatus === 'GAME_OVER') {
+    return verdict('GAME_OVER', modelStatus === 'GAME_OVER' ? null : 'local_game_over_unannounced');
+  }
+  if (modelStatus === 'GAME_OVER') {
+    return verdict('GAME_OVER', 'model_game_over_only');
+  }
+  if (localStatus === 'GAME_WON') {
+    return verdict('GAME_WON', modelStatus === 'GAME_WON' ? null : 'local_game_won_unannounced');
+  }
+  if (modelStatus === 'GAME_WON') {
+    return verdict(null, 'model_game_won_rejected');
+  }
+  return verdict(null, null);
+};
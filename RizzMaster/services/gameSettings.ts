@@ -0,0 +1,38 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CharacterProfile } from '../types/character';
+
+export const GAME_SETTINGS_KEY = 'rizzmaster_settings';
+
+export type GameSettings = {
+  characterOpens: boolean; // characters send the first message, unless their profile says otherwise
+  timedMode: boolean;      // replies are timed and idle conversations can end in ghosting, see services/replyTimer
+};
+
+const DEFAULT_SETTINGS: GameSettings = {
+  characterOpens: false,
+  timedMode: false,
+};
+
+export const loadGameSettings = async (): Promise<GameSettings> => {
+  try {
+    const raw = await AsyncStorage.getItem(GAME_SETTINGS_KEY);
+    return { ...DEFAULT_SETTINGS, ...(raw ? JSON.parse(raw) : {}) };
+  } catch (error) {
+    console.warn('Settings loading error', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveGameSettings = async (changes: Partial<GameSettings>): Promise<GameSettings> => {
+  const settings = { ...(await loadGameSettings()), ...changes };
+  try {
+    await AsyncStorage.setItem(GAME_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Settings saving error', error);
+  }
+  return settings;
+};
+
+/** Whether the character writes first: the profile's choice wins over the global setting. */
+export const characterOpensConversation = (profile: CharacterProfile, settings: GameSettings): boolean =>
+  profile.opensConversation ?? settings.characterOpens;
@@ -0,0 +1,2 @@
+export { judgeConversation, scoreMessage } from './judge';
+export type { FlagMatches } from './judge';
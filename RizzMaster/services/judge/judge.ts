@@ -0,0 +1,124 @@
+import { CharacterProfile } from '../../types/character';
+import { Message, ParsedAssistantResponse } from '../../types/chat';
+import { FlagStats, GameStatus } from '../../hooks/useGameState';
+import { applyFlagDelta, computeLocalStatus } from '../gameRules';
+import { canonicalize } from './synonyms';
+import { normalize, styleTokens, tokenize } from './text';
+import { pickReply, ReplyMood } from './replies';
+
+export type FlagMatches = {
+  green: number[];  // indices in profile.flags.green
+  red: number[];    // indices in profile.flags.red
+  hardNo: number[]; // indices in profile.flags.hardNo
+  blocked: boolean; // global deal-breaker (insults, explicit content...)
+};
+
+const MAX_FLAGS_PER_MESSAGE = 2;
+
+// Comportements qui mettent fin à la partie quel que soit le personnage
+// (cf. script.txt). Comparés aux mots normalisés, sans stemming.
+const BLOCKLIST = new Set([
+  'connard', 'connasse', 'conne', 'con', 'salope', 'pute', 'encule', 'batard', 'abruti',
+  'debile', 'pd', 'tapette', 'negro', 'bougnoule', 'nique', 'niquer', 'baiser', 'sucer',
+  'bite', 'chatte', 'nude', 'nudes', 'cul', 'seins', 'frapper', 'tuer', 'crever',
+]);
+
+const toKeys = (tokens: string[]): Set<string> => new Set(tokens.map(canonicalize));
+
+// Distinct stems of each flag, cached since profiles do not change at runtime.
+const flagStemsCache = new Map<string, string[]>();
+
+const getFlagStems = (flag: string): string[] => {
+  let stems = flagStemsCache.get(flag);
+  if (!stems) {
+    stems = Array.from(new Set(tokenize(flag)));
+    flagStemsCache.set(flag, stems);
+  }
+  return stems;
+};
+
+// Each distinct stem of the flag counts once when the message contains it or
+// one of its synonyms.
+const countHits = (flagStems: string[], messageKeys: Set<string>): number =>
+  flagStems.filter((flagStem) => messageKeys.has(canonicalize(flagStem))).length;
+
+const matchFlags = (flags: string[], messageKeys: Set<string>, minHits: number): number[] =>
+  flags
+    .map((flag, index) => ({ index, hits: countHits(getFlagStems(flag), messageKeys) }))
+    .filter(({ index, hits }) => hits > 0 && hits >= Math.min(minHits, getFlagStems(flags[index]).length))
+    .sort((a, b) => b.hits - a.hits)
+    .map(({ index }) => index);
+
+/**
+ * Scores a single player message against the profile's flag lists using
+ * keyword and synonym overlap. Pure and deterministic.
+ */
+export const scoreMessage = (profile: CharacterProfile, text: string): FlagMatches => {
+  const messageKeys = toKeys([...tokenize(text, true), ...styleTokens(text)]);
+  const words = normalize(text).split(/[^a-z0-9]+/);
+
+  return {
+    green: matchFlags(profile.flags.green, messageKeys, 2).slice(0, MAX_FLAGS_PER_MESSAGE),
+    red: matchFlags(profile.flags.red, messageKeys, 2).slice(0, MAX_FLAGS_PER_MESSAGE),
+    hardNo: matchFlags(profile.flags.hardNo, messageKeys, 3),
+    blocked: words.some((word) => BLOCKLIST.has(word)),
+  };
+};
+
+const pickMood = (matches: FlagMatches, gameStatus: GameStatus, hardNo: boolean): ReplyMood => {
+  if (hardNo) return 'hardNo';
+  if (gameStatus === 'GAME_OVER') return 'lost';
+  if (gameStatus === 'GAME_WON') return 'won';
+  if (matches.red.length > matches.green.length) return 'negative';
+  if (matches.green.length > 0) return 'positive';
+  return 'neutral';
+};
+
+/**
+ * Plays the character without any LLM: judges the last player message of
+ * `messages` and answers with the same contract the model is asked to follow.
+ * Running totals are recomputed from the whole history, so the engine keeps
+ * no state between calls.
+ */
+export const judgeConversation = (
+  profile: CharacterProfile,
+  messages: Message[]
+): ParsedAssistantResponse => {
+  const playerMessages = messages.filter((msg) => msg.role === 'user');
+  const last = playerMessages[playerMessages.length - 1];
+
+  if (!last) {
+    return {
+      message: pickReply(profile, 'opener', profile.id),
+      flagsDetected: { green: 0, red: 0, hardNo: false, matched: { green: [], red: [], hardNo: [] } },
+      gameStatus: null,
+    };
+  }
+
+  let totals: FlagStats = { green: 0, red: 0, hardNo: false, score: 0 };
+  let matches: FlagMatches = { green: [], red: [], hardNo: [], blocked: false };
+
+  playerMessages.forEach((msg) => {
+    matches = scoreMessage(profile, msg.content);
+    totals = applyFlagDelta(profile, totals, {
+      green: matches.green.length,
+      red: matches.red.length,
+      hardNo: matches.hardNo.length > 0 || matches.blocked,
+      matched: { green: matches.green, red: matches.red, hardNo: matches.hardNo },
+    });
+  });
+
+  const hardNo = matches.hardNo.length > 0 || matches.blocked;
+  const gameStatus = computeLocalStatus(profile, totals, playerMessages.length);
+
+  return {
+    message: pickReply(profile, pickMood(matches, gameStatus, hardNo), `${playerMessages.length}:${last.content}`),
+    flagsDetected: {
+      green: matches.green.length,
+      red: matches.red.length,
+      hardNo,
+      matched: { green: matches.green, red: matches.red, hardNo: matches.hardNo },
+    },
+    gameStatus,
+  };
+};
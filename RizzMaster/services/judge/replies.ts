@@ -0,0 +1,104 @@
+import { Locale } from '../../i18n/locales';
+import { CharacterProfile } from '../../types/character';
+import { getProfileLanguage } from '../profileLocale';
+
+export type ReplyMood = 'opener' | 'positive' | 'neutral' | 'negative' | 'hardNo' | 'won' | 'lost';
+
+// Le juge hors ligne répond dans la langue du profil joué
+const REPLIES: Record<Locale, Record<ReplyMood, string[]>> = {
+  fr: {
+    opener: [
+      'Hey 👋\nJ\'avoue que ton profil m\'a fait sourire',
+      'Coucou !\nAlors, c\'est quoi ton histoire ?',
+      'Salut 😊\nÇa va depuis le match ?',
+    ],
+    positive: [
+      'Haha j\'aime bien 😄',
+      'Ok là tu marques des points\nContinue',
+      'Ah ouais ?\nT\'es pas comme les autres toi 😏',
+      'Mdr\nJ\'avoue que ça me parle',
+      'J\'adore ta façon de voir les choses',
+    ],
+    neutral: [
+      'Ah ok',
+      'Hmm je vois',
+      'D\'accord...\nEt sinon ?',
+      'Ok ok\nRaconte-moi autre chose',
+      'Ah ouais ?',
+    ],
+    negative: [
+      'Euh...\nOk',
+      'Hmm, pas sûr·e d\'adhérer là',
+      'Ah.\nBon.',
+      'Je sais pas trop quoi répondre à ça 😅',
+    ],
+    hardNo: [
+      'Non là c\'est pas possible.\nJe préfère qu\'on s\'arrête là.',
+      'Wow.\nNon merci, bonne continuation.',
+    ],
+    won: [
+      'Bon j\'avoue, j\'ai vraiment passé un bon moment à te parler 😊\nOn se voit ce week-end ?',
+      'Ok c\'est décidé\nOn se fait un vrai date bientôt ?',
+    ],
+    lost: [
+      'Je crois qu\'on n\'est pas sur la même longueur d\'onde.\nBonne continuation !',
+      'Désolé·e, je le sens pas trop.\nBonne chance pour la suite.',
+    ],
+  },
+  en: {
+    opener: [
+      'Hey 👋\nI have to say your profile made me smile',
+      'Hi!\nSo, what\'s your story?',
+      'Hey 😊\nHow\'s it going since the match?',
+    ],
+    positive: [
+      'Haha I like that 😄',
+      'Ok now you\'re scoring points\nKeep going',
+      'Oh really?\nYou\'re not like the others 😏',
+      'Lol\nOk that speaks to me',
+      'I love the way you see things',
+    ],
+    neutral: [
+      'Oh ok',
+      'Hmm I see',
+      'Alright...\nWhat else?',
+      'Ok ok\nTell me something else',
+      'Oh really?',
+    ],
+    negative: [
+      'Uh...\nOk',
+      'Hmm, not sure I\'m on board with that',
+      'Oh.\nRight.',
+      'I don\'t really know what to say to that 😅',
+    ],
+    hardNo: [
+      'No, that\'s not ok.\nI\'d rather we stop here.',
+      'Wow.\nNo thanks, good luck.',
+    ],
+    won: [
+      'Ok I admit it, I really enjoyed talking to you 😊\nShall we meet this weekend?',
+      'Ok it\'s decided\nWe\'re going on a real date soon?',
+    ],
+    lost: [
+      'I don\'t think we\'re on the same wavelength.\nGood luck!',
+      'Sorry, I\'m not really feeling it.\nGood luck with everything.',
+    ],
+  },
+};
+
+// Petit hash stable (djb2) pour choisir une réponse de façon déterministe.
+const hash = (text: string): number => {
+  let value = 5381;
+  for (let i = 0; i < text.length; i += 1) {
+    value = ((value << 5) + value + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(value);
+};
+
+const genderize = (text: string, profile: CharacterProfile): string =>
+  text.replace(/·e\b/g, profile.gender === 'female' ? 'e' : '');
+
+export const pickReply = (profile: CharacterProfile, mood: ReplyMood, seed: string): string => {
+  const pool = REPLIES[getProfileLanguage(profile)][mood];
+  return genderize(pool[hash(`${profile.id}:${mood}:${seed}`) % pool.length], profile);
+};
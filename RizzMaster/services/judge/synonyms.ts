@@ -0,0 +1,52 @@
+import { normalize, stem } from './text';
+
+// Groupes de mots considérés comme équivalents par le juge hors-ligne.
+// Le premier mot de chaque groupe sert d'identifiant canonique.
+const SYNONYM_GROUPS: string[][] = [
+  ['humour', 'drole', 'marrant', 'rigolo', 'blague', 'rire', 'haha', 'mdr', 'ptdr', 'lol', 'vanne'],
+  ['taquiner', 'chambrer', 'provoquer', 'charrier', 'clash'],
+  ['plan', 'sortie', 'idee', 'defi', 'proposer', 'proposition', 'activite', 'programme'],
+  ['spontane', 'impulsif', 'imprevu', 'improviser', 'impro', 'dernier', 'minute', 'chaud', 'partant', 'folle', 'fou'],
+  ['organiser', 'prevoir', 'planning', 'detail', 'agenda', 'reserver', 'avance', 'precis'],
+  ['enthousiasme', 'genial', 'ouf', 'incroyable', 'grave', 'canon', 'excite'],
+  ['calme', 'tranquille', 'chill', 'zen', 'doux', 'doucement', 'pose', 'paisible', 'cosy'],
+  ['balade', 'promenade', 'marcher', 'randonnee', 'flaner'],
+  ['cafe', 'the', 'chocolat', 'brunch'],
+  ['restaurant', 'resto', 'diner', 'table', 'gastronomie', 'cuisine', 'manger', 'plat', 'chef', 'burger'],
+  ['vin', 'bouteille', 'cave', 'degustation', 'verre', 'cepage'],
+  ['culture', 'expo', 'exposition', 'musee', 'theatre', 'cinema', 'concert', 'livre', 'lire', 'art'],
+  ['voyage', 'voyager', 'vacances', 'trip', 'pays', 'road'],
+  ['anecdote', 'histoire', 'souvenir', 'raconter', 'arrive'],
+  ['politesse', 'bonjour', 'bonsoir', 'salut', 'coucou', 'merci', 'plait', 'svp', 'stp'],
+  ['excuser', 'desole', 'pardon', 'retard', 'prevenir', 'contretemps'],
+  ['personnel', 'serveur', 'serveuse', 'artisan', 'employe', 'metier', 'travail'],
+  ['ecouter', 'ecoute', 'comprendre', 'comprends', 'entends', 'reformuler', 'rebondir'],
+  ['rassurer', 'inquiete', 'normal', 'grave', 'ensemble', 'soutien', 'confiance'],
+  ['sensible', 'sensibilite', 'emotion', 'ressentir', 'ressens', 'anxiete', 'stress', 'angoisse', 'timide'],
+  ['presser', 'vite', 'rapidement', 'accelerer', 'forcer', 'rythme', 'maintenant', 'direct', 'brusque'],
+  ['temps', 'patience', 'lentement', 'tranquillement', 'prendre'],
+  ['foule', 'monde', 'soiree', 'boite', 'fete', 'bruit', 'bruyant'],
+  ['compliment', 'gout', 'personnalite', 'charmant', 'style', 'classe'],
+  ['physique', 'belle', 'beau', 'sexy', 'bonne', 'corps'],
+  ['argent', 'salaire', 'fric', 'thune', 'riche', 'statut', 'euros', 'cher'],
+  ['arnaque', 'magouille', 'escroquerie', 'gratter', 'voler', 'fraude'],
+  ['raisonnable', 'calmer', 'serieux', 'sage', 'mature'],
+  ['moquer', 'ridicule', 'infantile', 'gamin', 'bebe', 'enfantin', 'pathetique', 'nul'],
+  ['juger', 'morale', 'leçon', 'critiquer', 'mepris', 'condescendant', 'snob'],
+  ['ignorer', 'ghoster', 'ghost', 'disparaitre', 'vent'],
+  ['insister', 'relancer', 'harceler', 'allez', 'forcement'],
+];
+
+const canonicalByStem = new Map<string, string>();
+
+for (const group of SYNONYM_GROUPS) {
+  const canonical = stem(normalize(group[0]));
+  for (const word of group) {
+    const key = stem(normalize(word));
+    if (!canonicalByStem.has(key)) {
+      canonicalByStem.set(key, canonical);
+    }
+  }
+}
+
+export const canonicalize = (token: string): string => canonicalByStem.get(token) ?? token;
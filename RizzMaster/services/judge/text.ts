@@ -0,0 +1,80 @@
+// Normalisation très simple du français : minuscules, sans accents, sans
+// ponctuation, avec un stemming grossier pour regrouper les formes proches
+// ("organiser", "organise", "organisation" -> "organis").
+
+const STOPWORDS = new Set([
+  'alors', 'aussi', 'autre', 'avant', 'avec', 'avoir', 'cela', 'cette', 'comme', 'dans',
+  'des', 'donc', 'elle', 'elles', 'encore', 'entre', 'est', 'etre', 'faire', 'fait',
+  'leur', 'leurs', 'lui', 'mais', 'meme', 'mes', 'moi', 'mon', 'nous', 'pas', 'peu',
+  'plus', 'plutot', 'pour', 'quand', 'que', 'quel', 'quelle', 'quelque', 'quelques',
+  'qui', 'sans', 'ses', 'son', 'sont', 'sur', 'tes', 'toi', 'ton', 'tous', 'tout',
+  'toute', 'toutes', 'tres', 'une', 'vos', 'votre', 'vous', 'ceux', 'celle', 'celui',
+  'dont', 'ici', 'juste', 'bien', 'trop', 'apres', 'chez', 'mode', 'facon', 'maniere',
+  'lieu', 'chose', 'choses', 'quelqu', 'quelqu\'un', 'sujet', 'rien', 'jamais', 'toujours',
+]);
+
+const SUFFIXES = [
+  'issements', 'issement', 'ations', 'ation', 'ements', 'ement', 'ments', 'ment',
+  'euses', 'euse', 'eux', 'ites', 'ite', 'ives', 'ive', 'ifs', 'if', 'ees', 'ee',
+  'ant', 'ent', 'ons', 'ez', 'er', 'es', 'e', 's', 'x',
+];
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/u;
+
+export const normalize = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[’`]/g, "'");
+
+export const stem = (word: string): string => {
+  for (const suffix of SUFFIXES) {
+    if (word.length - suffix.length >= 4 && word.endsWith(suffix)) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+};
+
+const NEGATIONS = new Set(['ne', 'n', 'pas', 'jamais', 'rien', 'sans', 'aucun', 'aucune']);
+const NEGATION_SPAN = 3;
+
+/**
+ * Splits a text into stems. With `dropNegated`, words right after a negation
+ * ("rien ne presse", "pas besoin de se presser") are ignored.
+ */
+export const tokenize = (text: string, dropNegated = false): string[] => {
+  const words = normalize(text).split(/[^a-z0-9]+/).filter(Boolean);
+  let negatedUntil = -1;
+
+  return words
+    .filter((word, index) => {
+      if (dropNegated && NEGATIONS.has(word)) {
+        negatedUntil = index + NEGATION_SPAN;
+        return false;
+      }
+      return index > negatedUntil;
+    })
+    .filter((word) => word.length >= 3 && !STOPWORDS.has(word))
+    .map(stem);
+};
+
+/**
+ * Style markers turned into pseudo-tokens so that flags such as
+ * "messages courts remplis d'enthousiasme (emoji, exclamations)" can be
+ * matched on how the player writes, not only on what they write.
+ */
+export const styleTokens = (text: string): string[] => {
+  const tokens: string[] = [];
+  const wordCount = text.trim().split(/\s+/).filter(Boolean).length;
+
+  if (EMOJI_PATTERN.test(text)) tokens.push('emoji');
+  if (text.includes('!')) tokens.push('exclamation', 'enthousiasm');
+  if (text.includes('?')) tokens.push('question');
+  if (wordCount > 0 && wordCount <= 8) tokens.push('court');
+  if (wordCount >= 60) tokens.push('pave', 'monopoliser');
+  if (wordCount >= 8 && !text.includes('!') && !EMOJI_PATTERN.test(text)) tokens.push('pose');
+
+  return tokens.map(stem);
+};
@@ -0,0 +1,127 @@
+import { CharacterProfile } from '../../../types/character';
+import {
+  extractJsonObject,
+  parseAssistantContract,
+  repairAssistantResponse,
+  sanitizeFlagIds,
+  validateAssistantResponse,
+} from '../contract';
+import { CompletionRequest, LLMProvider } from '../types';
+
+const profile: CharacterProfile = {
+  id: 'test',
+  name: 'Test',
+  gender: 'female',
+  avatarKey: 'test_avatar',
+  personality: { archetype: 'test', shortBio: 'Test', tone: 'calme' },
+  flags: { green: ['humour', 'écoute'], red: ['vantardise'], hardNo: ['insulte'] },
+  difficulty: { level: 'easy', toleranceRed: 3, minGreenForSecondDate: 2 },
+};
+
+const VALID_REPLY = {
+  message: '  Salut toi  ',
+  flagsDetected: { green: 1, red: 0, hardNo: false, matched: { green: [0], red: [], hardNo: [] } },
+  gameStatus: null,
+};
+
+// Provider answering every request with `content`, keeping the requests it got
+const replyingProvider = (content: string) => {
+  const requests: CompletionRequest[] = [];
+  const provider: LLMProvider = {
+    id: 'openai',
+    model: 'test-model',
+    complete: async (request) => {
+      requests.push(request);
+      return { role: 'assistant', content };
+    },
+  };
+  return { provider, requests };
+};
+
+describe('extractJsonObject', () => {
+  it('finds the object inside code fences and prose', () => {
+    const raw = 'Voilà :\n```json\n{"message": "a {b}", "n": {"x": 1}}\n```\nBonne journée';
+    expect(extractJsonObject(raw)).toBe('{"message": "a {b}", "n": {"x": 1}}');
+  });
+
+  it('returns null when the object is not closed', () => {
+    expect(extractJsonObject('{"message": "coupé')).toBeNull();
+    expect(extractJsonObject('pas de JSON')).toBeNull();
+  });
+});
+
+describe('validateAssistantResponse', () => {
+  it('accepts the contract and trims the message', () => {
+    const result = validateAssistantResponse(VALID_REPLY);
+    expect(result).toEqual({ ok: true, value: { ...VALID_REPLY, message: 'Salut toi' } });
+  });
+
+  it('keeps replies without matched flags', () => {
+    const { matched, ...flagsDetected } = VALID_REPLY.flagsDetected;
+    const result = validateAssistantResponse({ ...VALID_REPLY, flagsDetected });
+    expect(result.ok && result.value.flagsDetected.matched).toBeUndefined();
+  });
+
+  it('reports every broken field', () => {
+    const result = validateAssistantResponse({
+      message: ' ',
+      flagsDetected: { green: -1, red: 1.5, hardNo: 'non', matched: { green: [0] } },
+      gameStatus: 'WON',
+    });
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors).toHaveLength(6);
+  });
+
+  it('rejects anything but an object', () => {
+    expect(validateAssistantResponse([VALID_REPLY]).ok).toBe(false);
+    expect(validateAssistantResponse('texte').ok).toBe(false);
+  });
+});
+
+describe('parseAssistantContract', () => {
+  it('reads a reply wrapped in prose', () => {
+    const result = parseAssistantContract(`Réponse : ${JSON.stringify(VALID_REPLY)}`);
+    expect(result.ok).toBe(true);
+  });
+
+  it('fails on replies without a valid JSON object', () => {
+    expect(parseAssistantContract('')).toEqual({ ok: false, errors: ['aucun objet JSON trouvé'] });
+    expect(parseAssistantContract('{"message": "a",}')).toEqual({ ok: false, errors: ['JSON invalide'] });
+  });
+});
+
+describe('sanitizeFlagIds', () => {
+  it('drops duplicates and indices outside the profile lists', () => {
+    expect(sanitizeFlagIds({ green: [1, 1, 5], red: [0, 1], hardNo: [0] }, profile)).toEqual({
+      green: [1],
+      red: [0],
+      hardNo: [0],
+    });
+  });
+
+  it('leaves unattributed flags undefined', () => {
+    expect(sanitizeFlagIds(undefined, profile)).toBeUndefined();
+  });
+});
+
+describe('repairAssistantResponse', () => {
+  it('sends a repair task with the errors and the raw reply only', async () => {
+    const { provider, requests } = replyingProvider(JSON.stringify(VALID_REPLY));
+    const repair = await repairAssistantResponse(provider, profile, 'Salut toi', ['aucun objet JSON trouvé']);
+
+    expect(repair.result.ok).toBe(true);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].task).toEqual({ kind: 'repair', profile });
+    expect(requests[0].persona).toBeUndefined();
+    expect(requests[0].temperature).toBe(0);
+    expect(requests[0].messages).toHaveLength(1);
+    expect(requests[0].messages[0].content).toContain('aucun objet JSON trouvé');
+    expect(requests[0].messages[0].content).toContain('Salut toi');
+  });
+
+  it('reports a repair that is still invalid', async () => {
+    const { provider } = replyingProvider('toujours pas de JSON');
+    const repair = await repairAssistantResponse(provider, profile, 'Salut toi', ['aucun objet JSON trouvé']);
+    expect(repair).toEqual({ content: 'toujours pas de JSON', result: { ok: false, errors: ['aucun objet JSON trouvé'] } });
+  });
+});
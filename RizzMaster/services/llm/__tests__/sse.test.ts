@@ -0,0 +1,45 @@
+import { readServerSentEvents } from '../sse';
+
+// Native streaming fetch, not loadable under Jest and not used here
+jest.mock('expo/fetch', () => ({ fetch: jest.fn() }));
+
+const encoder = new TextEncoder();
+
+// Stream giving `chunks` one by one, then staying open until it is cancelled
+const openStream = (chunks: string[]) => {
+  let cancelled = false;
+  const pending = [...chunks];
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = pending.shift();
+      if (chunk !== undefined) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+  return { body, isCancelled: () => cancelled };
+};
+
+describe('readServerSentEvents', () => {
+  it('reads data lines split across chunks', async () => {
+    const { body } = openStream(['data: {"a":', '1}\n\n: ping\ndata: {"b":2}\n', 'data: [DONE]\n']);
+    const received: string[] = [];
+    await readServerSentEvents(body, (data) => received.push(data));
+    expect(received).toEqual(['{"a":1}', '{"b":2}']);
+  });
+
+  it('closes the stream at the [DONE] sentinel', async () => {
+    const stream = openStream(['data: x\n\ndata: [DONE]\n\n']);
+    await readServerSentEvents(stream.body, () => {});
+    expect(stream.isCancelled()).toBe(true);
+  });
+
+  it('ignores a missing body', async () => {
+    const onData = jest.fn();
+    await readServerSentEvents(null, onData);
+    expect(onData).not.toHaveBeenCalled();
+  });
+});
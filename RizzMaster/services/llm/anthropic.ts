@@ -0,0 +1,96 @@
+import { LLMConfig } from '../../config/llm';
+import { Locale } from '../../i18n/locales';
+import { STRINGS } from '../../i18n/strings';
+import { Message } from '../../types/chat';
+import { ensureOk } from './errors';
+import { readServerSentEvents, streamingFetch } from './sse';
+import { getTaskLanguage } from './tasks';
+import { CompletionRequest, LLMProvider, systemMessages } from './types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const MAX_TOKENS = 1024;
+
+// The Messages API wants the conversation to start with a user turn and to
+// alternate roles, so consecutive turns of the same role are merged. A
+// placeholder user turn in the request's `language` opens it when needed.
+const toAnthropicMessages = (messages: Message[], language: Locale): Message[] => {
+  const merged: Message[] = [];
+  for (const msg of messages) {
+    const last = merged[merged.length - 1];
+    if (last && last.role === msg.role) {
+      last.content = `${last.content}\n\n${msg.content}`;
+    } else {
+      merged.push({ role: msg.role, content: msg.content });
+    }
+  }
+  if (merged.length === 0 || merged[0].role !== 'user') {
+    merged.unshift({ role: 'user', content: STRINGS[language].model.conversationStart });
+  }
+  return merged;
+};
+
+// No native JSON mode: prefilling the reply with "{" keeps the model on the
+// JSON contract. The prefill is added back to the returned content.
+const jsonPrefill = (config: LLMConfig, request: CompletionRequest, messages: Message[]): string =>
+  request.responseSchema && config.structuredOutput && messages[messages.length - 1]?.role === 'user'
+    ? '{'
+    : '';
+
+export const createAnthropicProvider = (config: LLMConfig): LLMProvider => {
+  const post = async (request: CompletionRequest, stream: boolean) => {
+    const messages = toAnthropicMessages(request.messages, getTaskLanguage(request.task, request.persona?.profile));
+    const prefill = jsonPrefill(config, request, messages);
+    if (prefill) {
+      messages.push({ role: 'assistant', content: prefill });
+    }
+
+    const response = await (stream ? streamingFetch : fetch)(`${config.baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey ?? '',
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: config.model,
+        max_tokens: MAX_TOKENS,
+        system: systemMessages(request).join('\n\n'),
+        messages,
+        temperature: Math.min(1, request.temperature ?? config.temperature),
+        stream,
+      }),
+      signal: request.signal,
+    });
+
+    await ensureOk(response);
+    return { response, prefill };
+  };
+
+  return {
+    id: config.provider,
+    model: config.model,
+    complete: async (request) => {
+      const { response, prefill } = await post(request, false);
+      const payload = await response.json();
+      const text = Array.isArray(payload?.content)
+        ? payload.content
+            .filter((block: { type?: string }) => block?.type === 'text')
+            .map((block: { text: string }) => block.text)
+            .join('')
+        : '';
+      return { role: 'assistant', content: `${prefill}${text}` };
+    },
+    stream: async (request, onPartial) => {
+      const { response, prefill } = await post(request, true);
+      let content = prefill;
+      await readServerSentEvents(response.body, (data) => {
+        const event = JSON.parse(data);
+        if (event?.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          content += event.delta.text;
+          onPartial(content);
+        }
+      });
+      return { role: 'assistant', content };
+    },
+  };
+};
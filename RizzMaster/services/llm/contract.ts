@@ -0,0 +1,190 @@
+import { CharacterProfile } from '../../types/character';
+import { FlagIds, ParsedAssistantResponse } from '../../types/chat';
+import { LLMProvider, ResponseSchema } from './types';
+
+export type ContractResult =
+  | { ok: true; value: ParsedAssistantResponse }
+  | { ok: false; errors: string[] };
+
+/**
+ * JSON schema of the `{message, flagsDetected, gameStatus}` contract described
+ * in script.txt, sent to providers that support structured output.
+ */
+export const ASSISTANT_RESPONSE_SCHEMA: ResponseSchema = {
+  name: 'rizzmaster_reply',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['message', 'flagsDetected', 'gameStatus'],
+    properties: {
+      message: { type: 'string' },
+      flagsDetected: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['green', 'red', 'hardNo', 'matched'],
+        properties: {
+          green: { type: 'integer', minimum: 0 },
+          red: { type: 'integer', minimum: 0 },
+          hardNo: { type: 'boolean' },
+          matched: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['green', 'red', 'hardNo'],
+            properties: {
+              green: { type: 'array', items: { type: 'integer', minimum: 0 } },
+              red: { type: 'array', items: { type: 'integer', minimum: 0 } },
+              hardNo: { type: 'array', items: { type: 'integer', minimum: 0 } },
+            },
+          },
+        },
+      },
+      gameStatus: { type: ['string', 'null'], enum: ['GAME_OVER', 'GAME_WON', null] },
+    },
+  },
+};
+
+export const REPAIR_PROMPT = `Tu corriges le format d'une réponse de personnage pour un jeu de dating.
+Renvoie uniquement un JSON valide, sans texte autour ni bloc de code, au format exact :
+{"message": string, "flagsDetected": {"green": entier >= 0, "red": entier >= 0, "hardNo": booléen, "matched": {"green": [entiers], "red": [entiers], "hardNo": [entiers]}}, "gameStatus": "GAME_OVER" | "GAME_WON" | null}
+Garde le texte du message et les valeurs d'origine autant que possible. Si une valeur manque, utilise 0, false ou null.`;
+
+/**
+ * Pulls the first JSON object out of a model reply, ignoring code fences and
+ * any prose before or after it. Returns null when no balanced object exists.
+ */
+export const extractJsonObject = (raw: string): string | null => {
+  const text = raw.replace(/```(?:json)?/gi, '');
+  const start = text.indexOf('{');
+  if (start === -1) {
+    return null;
+  }
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i += 1) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i += 1;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth += 1;
+    } else if (char === '}') {
+      depth -= 1;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+};
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const isIdList = (value: unknown): value is number[] => Array.isArray(value) && value.every(isCount);
+
+const isFlagIds = (value: unknown): value is FlagIds => {
+  const ids = value as FlagIds | undefined;
+  return !!ids && typeof ids === 'object' && isIdList(ids.green) && isIdList(ids.red) && isIdList(ids.hardNo);
+};
+
+export const validateAssistantResponse = (value: unknown): ContractResult => {
+  const errors: string[] = [];
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ok: false, errors: ['la réponse n\'est pas un objet JSON'] };
+  }
+
+  const candidate = value as Record<string, unknown>;
+  const flags = candidate.flagsDetected as Record<string, unknown> | undefined;
+
+  if (typeof candidate.message !== 'string' || !candidate.message.trim()) {
+    errors.push('"message" doit être une chaîne non vide');
+  }
+  if (!flags || typeof flags !== 'object' || Array.isArray(flags)) {
+    errors.push('"flagsDetected" doit être un objet');
+  } else {
+    if (!isCount(flags.green)) errors.push('"flagsDetected.green" doit être un entier >= 0');
+    if (!isCount(flags.red)) errors.push('"flagsDetected.red" doit être un entier >= 0');
+    if (typeof flags.hardNo !== 'boolean') errors.push('"flagsDetected.hardNo" doit être un booléen');
+    // "matched" reste optionnel : anciens historiques et petits modèles locaux
+    if (flags.matched !== undefined && !isFlagIds(flags.matched)) {
+      errors.push('"flagsDetected.matched" doit contenir trois listes d\'entiers (green, red, hardNo)');
+    }
+  }
+  if (!(candidate.gameStatus === null || candidate.gameStatus === 'GAME_OVER' || candidate.gameStatus === 'GAME_WON')) {
+    errors.push('"gameStatus" doit valoir "GAME_OVER", "GAME_WON" ou null');
+  }
+
+  if (errors.length > 0 || !flags) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      message: (candidate.message as string).trim(),
+      flagsDetected: {
+        green: flags.green as number,
+        red: flags.red as number,
+        hardNo: flags.hardNo as boolean,
+        ...(isFlagIds(flags.matched) ? { matched: flags.matched } : {}),
+      },
+      gameStatus: candidate.gameStatus as ParsedAssistantResponse['gameStatus'],
+    },
+  };
+};
+
+/**
+ * Keeps only the indices that exist in the profile's flag lists, without
+ * duplicates. Returns undefined when the reply did not attribute any flag.
+ */
+export const sanitizeFlagIds = (ids: FlagIds | undefined, profile: CharacterProfile): FlagIds | undefined => {
+  if (!ids) {
+    return undefined;
+  }
+  const keep = (list: number[], size: number) =>
+    Array.from(new Set(list)).filter((index) => index < size);
+  return {
+    green: keep(ids.green, profile.flags.green.length),
+    red: keep(ids.red, profile.flags.red.length),
+    hardNo: keep(ids.hardNo, profile.flags.hardNo.length),
+  };
+};
+
+export const parseAssistantContract = (raw: string): ContractResult => {
+  const json = raw ? extractJsonObject(raw) : null;
+  if (!json) {
+    return { ok: false, errors: ['aucun objet JSON trouvé'] };
+  }
+  try {
+    return validateAssistantResponse(JSON.parse(json));
+  } catch {
+    return { ok: false, errors: ['JSON invalide'] };
+  }
+};
+
+/**
+ * Asks the provider once to rewrite an invalid reply into the contract.
+ * This is a standalone formatting task: the conversation is not resent.
+ */
+export const repairAssistantResponse = async (
+  provider: LLMProvider,
+  profile: CharacterProfile,
+  raw: string,
+  errors: string[],
+  signal?: AbortSignal
+): Promise<{ content: string; result: ContractResult }> => {
+  const reply = await provider.complete({
+    task: { kind: 'repair', profile },
+    messages: [
+      {
+        role: 'user',
+        content: `Problèmes détectés : ${errors.join('; ')}\n\nRéponse à corriger :\n${raw}`,
+      },
+    ],
+    temperature: 0,
+    responseSchema: ASSISTANT_RESPONSE_SCHEMA,
+    signal,
+  });
+  return { content: reply.content, result: parseAssistantContract(reply.content) };
+};
@@ -0,0 +1,49 @@
+/** Non-2xx answer from a model API or from the proxy server. */
+export class LLMHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'LLMHttpError';
+  }
+}
+
+// Rate limits and server-side failures are worth another try; any other
+// status means the request itself is wrong.
+export const isRetryableError = (error: unknown): error is LLMHttpError =>
+  error instanceof LLMHttpError && (error.status === 429 || error.status >= 500);
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/** Throws an LLMHttpError carrying the status and Retry-After of a failed response. */
+export const ensureOk = async (response: {
+  ok: boolean;
+  status: number;
+  headers: { get: (name: string) => string | null };
+  text: () => Promise<string>;
+}): Promise<void> => {
+  if (response.ok) {
+    return;
+  }
+  const errorText = await response.text();
+  throw new LLMHttpError(
+    response.status,
+    `HTTP ${response.status}: ${errorText}`,
+    parseRetryAfter(response.headers.get('Retry-After'))
+  );
+};
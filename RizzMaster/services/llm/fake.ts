@@ -0,0 +1,29 @@
+import { CharacterProfile } from '../../types/character';
+import { LLMProvider } from './types';
+
+/**
+ * In-process provider that never touches the network. Replies cycle through
+ * `replies` (or a neutral default) and never report any flag.
+ */
+export const createFakeProvider = (
+  profile: CharacterProfile,
+  replies: string[] = ['Haha ok 😄', 'Ah ouais ? Raconte', 'Intéressant...']
+): LLMProvider => {
+  let turn = 0;
+  return {
+    id: 'fake',
+    model: 'fake',
+    complete: async () => {
+      const message = replies[turn % replies.length] || `${profile.name} est là.`;
+      turn += 1;
+      return {
+        role: 'assistant',
+        content: JSON.stringify({
+          message,
+          flagsDetected: { green: 0, red: 0, hardNo: false, matched: { green: [], red: [], hardNo: [] } },
+          gameStatus: null,
+        }),
+      };
+    },
+  };
+};
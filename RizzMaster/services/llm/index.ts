@@ -0,0 +1,44 @@
+import { LLMConfig } from '../../config/llm';
+import { CharacterProfile } from '../../types/character';
+import { createAnthropicProvider } from './anthropic';
+import { createFakeProvider } from './fake';
+import { createOfflineProvider } from './offline';
+import { createOpenAIProvider } from './openai';
+import { createProxyProvider } from './proxy';
+import { withRetry } from './retry';
+import { LLMProvider } from './types';
+
+export type { CompletionRequest, LLMProvider } from './types';
+export { isAbortError, LLMHttpError } from './errors';
+
+const createModelBackend = (config: LLMConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'proxy':
+      return withRetry(createProxyProvider(config));
+    case 'anthropic':
+      return withRetry(createAnthropicProvider(config));
+    case 'openai':
+    case 'local':
+    default:
+      return withRetry(createOpenAIProvider(config));
+  }
+};
+
+export const createLLMProvider = (config: LLMConfig, profile: CharacterProfile): LLMProvider => {
+  switch (config.provider) {
+    case 'offline':
+      return createOfflineProvider(profile);
+    case 'fake':
+      return createFakeProvider(profile);
+    default:
+      return createModelBackend(config);
+  }
+};
+
+/**
+ * Provider for tasks that involve no character, such as writing a new
+ * profile. Null when the configured backend only plays characters in the
+ * app (offline judge, fake replies).
+ */
+export const createModelProvider = (config: LLMConfig): LLMProvider | null =>
+  config.provider === 'offline' || config.provider === 'fake' ? null : createModelBackend(config);
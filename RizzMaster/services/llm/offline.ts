@@ -0,0 +1,16 @@
+import { CharacterProfile } from '../../types/character';
+import { judgeConversation } from '../judge';
+import { LLMProvider } from './types';
+
+/**
+ * Backend running the rule-based judge in-process: no network, no API key,
+ * same JSON contract as the real models.
+ */
+export const createOfflineProvider = (profile: CharacterProfile): LLMProvider => ({
+  id: 'offline',
+  model: 'rule-based-judge',
+  complete: async (request) => ({
+    role: 'assistant',
+    content: JSON.stringify(judgeConversation(profile, request.messages)),
+  }),
+});
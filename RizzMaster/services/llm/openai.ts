@@ -0,0 +1,82 @@
+import { LLMConfig } from '../../config/llm';
+import { ensureOk } from './errors';
+import { readServerSentEvents, streamingFetch } from './sse';
+import { CompletionRequest, LLMProvider, systemMessages } from './types';
+
+type OpenAIChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+// OpenAI itself enforces JSON schemas; OpenAI-compatible local servers
+// usually only understand the plain JSON mode.
+const toResponseFormat = (config: LLMConfig, request: CompletionRequest) => {
+  if (!request.responseSchema || !config.structuredOutput) {
+    return undefined;
+  }
+  if (config.provider === 'openai') {
+    return {
+      type: 'json_schema',
+      json_schema: { name: request.responseSchema.name, schema: request.responseSchema.schema, strict: true },
+    };
+  }
+  return { type: 'json_object' };
+};
+
+const toOpenAIMessages = (request: CompletionRequest): OpenAIChatMessage[] => [
+  ...systemMessages(request).map((content) => ({ role: 'system' as const, content })),
+  ...request.messages.map((msg) => ({ role: msg.role, content: msg.content })),
+];
+
+/**
+ * Talks to the OpenAI chat completions API, or to any server exposing the
+ * same shape (Ollama, llama.cpp server, LM Studio...).
+ */
+export const createOpenAIProvider = (config: LLMConfig): LLMProvider => {
+  const post = async (request: CompletionRequest, stream: boolean) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await (stream ? streamingFetch : fetch)(`${config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        messages: toOpenAIMessages(request),
+        temperature: request.temperature ?? config.temperature,
+        response_format: toResponseFormat(config, request),
+        stream,
+      }),
+      signal: request.signal,
+    });
+
+    await ensureOk(response);
+    return response;
+  };
+
+  return {
+    id: config.provider,
+    model: config.model,
+    complete: async (request) => {
+      const payload = await (await post(request, false)).json();
+      return {
+        role: 'assistant',
+        content: payload?.choices?.[0]?.message?.content ?? '',
+      };
+    },
+    stream: async (request, onPartial) => {
+      const response = await post(request, true);
+      let content = '';
+      await readServerSentEvents(response.body, (data) => {
+        const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) {
+          content += delta;
+          onPartial(content);
+        }
+      });
+      return { role: 'assistant', content };
+    },
+  };
+};
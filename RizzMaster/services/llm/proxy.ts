@@ -0,0 +1,59 @@
+import { LLMConfig } from '../../config/llm';
+import { ensureOk } from './errors';
+import { readServerSentEvents, streamingFetch } from './sse';
+import { CompletionRequest, LLMProvider } from './types';
+
+/**
+ * Talks to the companion server in `server/`, which holds the API key and
+ * builds the character prompt and the task instructions itself: only the
+ * profile and the task travel, never a prompt or the key.
+ */
+export const createProxyProvider = (config: LLMConfig): LLMProvider => {
+  const post = async (request: CompletionRequest, stream: boolean) => {
+    const response = await (stream ? streamingFetch : fetch)(`${config.baseUrl}/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        profile: request.persona?.profile,
+        task: request.task,
+        messages: request.messages.map((msg) => ({ role: msg.role, content: msg.content })),
+        temperature: request.temperature ?? config.temperature,
+        stream,
+      }),
+      signal: request.signal,
+    });
+
+    await ensureOk(response);
+    return response;
+  };
+
+  // Version of the script template the server built the prompt from
+  const promptVersion = (response: { headers: { get: (name: string) => string | null } }) =>
+    response.headers.get('X-Prompt-Version') ?? undefined;
+
+  return {
+    id: 'proxy',
+    model: config.model,
+    complete: async (request) => {
+      const response = await post(request, false);
+      const payload = await response.json();
+      return {
+        role: 'assistant',
+        content: typeof payload?.content === 'string' ? payload.content : '',
+        promptVersion: promptVersion(response),
+      };
+    },
+    stream: async (request, onPartial) => {
+      const response = await post(request, true);
+      let content = '';
+      await readServerSentEvents(response.body, (data) => {
+        const delta = JSON.parse(data)?.content;
+        if (typeof delta === 'string' && delta) {
+          content += delta;
+          onPartial(content);
+        }
+      });
+      return { role: 'assistant', content, promptVersion: promptVersion(response) };
+    },
+  };
+};
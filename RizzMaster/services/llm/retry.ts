@@ -0,0 +1,67 @@
+import { countDiagnostic } from '../diagnostics';
+import { isRetryableError } from './errors';
+import { CompletionRequest, LLMProvider } from './types';
+
+export type RetryOptions = {
+  retries: number;     // attempts after the first one
+  baseDelayMs: number; // delay before the first retry, doubled each time
+  maxDelayMs: number;
+};
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = { retries: 3, baseDelayMs: 1000, maxDelayMs: 8000 };
+
+const abortError = () => {
+  const error = new Error('Request aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Wraps a provider so that 429 and 5xx answers are retried with exponential
+ * backoff (plus jitter), honouring Retry-After when the server sends one.
+ * Those errors happen before any streamed content, so a retried stream never
+ * shows the same text twice. Aborting the request also stops the waiting.
+ */
+export const withRetry = (provider: LLMProvider, options: RetryOptions = DEFAULT_RETRY_OPTIONS): LLMProvider => {
+  const attempt = async <T>(request: CompletionRequest, call: () => Promise<T>): Promise<T> => {
+    for (let retry = 0; ; retry += 1) {
+      try {
+        return await call();
+      } catch (error) {
+        if (retry >= options.retries || !isRetryableError(error) || request.signal?.aborted) {
+          throw error;
+        }
+        const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** retry);
+        const delay = error.retryAfterMs ?? backoff * (0.5 + Math.random() / 2);
+        countDiagnostic('llm_retry');
+        await sleep(Math.min(delay, options.maxDelayMs), request.signal);
+      }
+    }
+  };
+
+  const stream = provider.stream;
+  return {
+    ...provider,
+    complete: (request) => attempt(request, () => provider.complete(request)),
+    ...(stream
+      ? { stream: (request, onPartial) => attempt(request, () => stream(request, onPartial)) }
+      : {}),
+  };
+};
@@ -0,0 +1,45 @@
+import { fetch as streamingFetch } from 'expo/fetch';
+
+// React Native's global fetch buffers the whole body; expo/fetch exposes a
+// ReadableStream so completions can be read as they arrive.
+export { streamingFetch };
+
+/**
+ * Reads a `text/event-stream` body and calls `onData` with the payload of
+ * every `data:` line. Stops at the OpenAI-style `[DONE]` sentinel, closing
+ * the stream.
+ */
+export const readServerSentEvents = async (
+  body: ReadableStream<Uint8Array> | null,
+  onData: (data: string) => void
+): Promise<void> => {
+  if (!body) {
+    return;
+  }
+
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex !== -1) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+      newlineIndex = buffer.indexOf('\n');
+
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') {
+        // The server may keep the connection open after the sentinel
+        await reader.cancel();
+        return;
+      }
+      if (data) onData(data);
+    }
+  }
+};
@@ -0,0 +1,183 @@
+// Plain data only: shared with the proxy server.
+import { DEFAULT_LOCALE, Locale } from '../../i18n/locales';
+import { STRINGS } from '../../i18n/strings';
+import { CharacterProfile } from '../../types/character';
+import { COACH_TIP_SCHEMA } from '../coach';
+import { getScoringRules } from '../gameRules';
+import { getProfileLanguage } from '../profileLocale';
+import type { GeneratorSeeds } from '../profileGenerator';
+import { ASSISTANT_RESPONSE_SCHEMA, REPAIR_PROMPT } from './contract';
+import type { ResponseSchema } from './types';
+
+// Running totals the character is reminded of on every turn
+export type TurnContext = {
+  green: number;
+  red: number;
+  score: number;
+  exchanges: number;
+};
+
+/**
+ * What a request is for. Its system instructions are built from this, by the
+ * app for direct providers and by the proxy server for itself, so the server
+ * never forwards instructions written by the client.
+ */
+export type CompletionTask =
+  | { kind: 'opener'; scenario?: number }  // character's first message
+  | {
+      kind: 'turn';                          // character's reply to the player
+      context: TurnContext;
+      summary?: string;                      // summary of the messages left out
+      lateReplySeconds?: number;             // timed mode: the player answered late
+      scenario?: number;                     // daily challenge: index in `daily.scenarios`
+    }
+  | { kind: 'summary'; profile: CharacterProfile }
+  | { kind: 'repair'; profile: CharacterProfile }
+  | { kind: 'coach'; profile: CharacterProfile; locale: Locale }
+  | { kind: 'generator'; locale: Locale; seeds: GeneratorSeeds };
+
+export const TASK_KINDS: CompletionTask['kind'][] = ['opener', 'turn', 'summary', 'repair', 'coach', 'generator'];
+
+/** A character task without the character to play. */
+export class TaskError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaskError';
+  }
+}
+
+const textList = { type: 'array', items: { type: 'string' } };
+
+/** JSON schema of the texts the model writes, sent to providers that support structured output. */
+export const GENERATED_PROFILE_SCHEMA: ResponseSchema = {
+  name: 'rizzmaster_profile',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['name', 'age', 'city', 'interests', 'prompts', 'personality', 'flags'],
+    properties: {
+      name: { type: 'string' },
+      age: { type: 'integer' },
+      city: { type: 'string' },
+      interests: textList,
+      prompts: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['question', 'answer'],
+          properties: { question: { type: 'string' }, answer: { type: 'string' } },
+        },
+      },
+      personality: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['archetype', 'shortBio', 'tone'],
+        properties: {
+          archetype: { type: 'string' },
+          shortBio: { type: 'string' },
+          tone: { type: 'string' },
+        },
+      },
+      flags: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['green', 'red', 'hardNo'],
+        properties: { green: textList, red: textList, hardNo: textList },
+      },
+    },
+  },
+};
+
+const scenarioNote = (language: Locale, scenario: number | undefined): string[] => {
+  const text = scenario === undefined ? undefined : STRINGS[language].daily.scenarios[scenario];
+  return text ? [STRINGS[language].model.scenario(text)] : [];
+};
+
+/** Language `task` is carried out in, that of the character or of the player. */
+export const getTaskLanguage = (task: CompletionTask, persona?: CharacterProfile): Locale => {
+  switch (task.kind) {
+    case 'opener':
+    case 'turn':
+      return persona ? getProfileLanguage(persona) : DEFAULT_LOCALE;
+    case 'summary':
+    case 'repair':
+      return getProfileLanguage(task.profile);
+    case 'coach':
+    case 'generator':
+      return task.locale;
+  }
+};
+
+/**
+ * System instructions of `task`, in order. `persona` is the character being
+ * played: required by the opener and turn tasks, whose notes come after the
+ * character prompt.
+ */
+export const buildTaskSystem = (task: CompletionTask, persona?: CharacterProfile): string[] => {
+  switch (task.kind) {
+    case 'opener':
+    case 'turn': {
+      if (!persona) {
+        throw new TaskError(`The ${task.kind} task needs a character`);
+      }
+      const language = getProfileLanguage(persona);
+      const t = STRINGS[language].model;
+      if (task.kind === 'opener') {
+        return [...scenarioNote(language, task.scenario), t.opener];
+      }
+      const { winPoints, losePoints } = getScoringRules(persona);
+      return [
+        ...(task.summary ? [t.summary(persona.name, task.summary)] : []),
+        ...scenarioNote(language, task.scenario),
+        t.context({
+          green: task.context.green,
+          red: task.context.red,
+          score: task.context.score.toFixed(1),
+          winPoints,
+          losePoints,
+          exchanges: task.context.exchanges,
+        }),
+        ...(task.lateReplySeconds ? [t.lateReply(task.lateReplySeconds)] : []),
+      ];
+    }
+    case 'summary': {
+      const t = STRINGS[getProfileLanguage(task.profile)].model;
+      return [t.summarizer(task.profile.name, task.profile.personality.tone)];
+    }
+    case 'repair':
+      return [REPAIR_PROMPT];
+    case 'coach':
+      return [
+        STRINGS[task.locale].model.coach({
+          name: task.profile.name,
+          archetype: task.profile.personality.archetype,
+          tone: task.profile.personality.tone,
+          green: task.profile.flags.green,
+          red: task.profile.flags.red,
+          hardNo: task.profile.flags.hardNo,
+        }),
+      ];
+    case 'generator':
+      return [STRINGS[task.locale].model.generator];
+  }
+};
+
+/**
+ * Structured output schema of `task`'s reply, if it has one. The proxy server
+ * takes it from here rather than from the request.
+ */
+export const getTaskResponseSchema = (task: CompletionTask): ResponseSchema | undefined => {
+  switch (task.kind) {
+    case 'opener':
+    case 'turn':
+    case 'repair':
+      return ASSISTANT_RESPONSE_SCHEMA;
+    case 'coach':
+      return COACH_TIP_SCHEMA;
+    case 'generator':
+      return GENERATED_PROFILE_SCHEMA;
+    case 'summary':
+      return undefined;
+  }
+};
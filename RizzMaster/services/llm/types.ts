@@ -0,0 +1,36 @@
+import { CharacterProfile } from '../../types/character';
+import { Message } from '../../types/chat';
+import { LLMProviderId } from '../../config/llm';
+import { buildTaskSystem, CompletionTask } from './tasks';
+
+export type ResponseSchema = {
+  name: string;
+  schema: Record<string, unknown>; // JSON schema of the expected reply
+};
+
+export type CompletionRequest = {
+  // Character to play. Direct providers send `prompt` as the first system
+  // message; the proxy rebuilds it server-side from the profile.
+  persona?: { profile: CharacterProfile; prompt: string };
+  task: CompletionTask; // gives the other system instructions, see buildTaskSystem
+  messages: Message[];  // conversation history, oldest first
+  temperature?: number;
+  responseSchema?: ResponseSchema; // ask for structured output when supported
+  signal?: AbortSignal; // cancels the request, retries included
+};
+
+// Called with the whole assistant content received so far.
+export type PartialContentHandler = (contentSoFar: string) => void;
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  model: string;
+  complete: (request: CompletionRequest) => Promise<Message>;
+  stream?: (request: CompletionRequest, onPartial: PartialContentHandler) => Promise<Message>;
+}
+
+/** System messages to send to a model that receives the prompt from the app. */
+export const systemMessages = (request: CompletionRequest): string[] => [
+  ...(request.persona ? [request.persona.prompt] : []),
+  ...buildTaskSystem(request.task, request.persona?.profile),
+];
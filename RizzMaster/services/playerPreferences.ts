@@ -0,0 +1,85 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CharacterProfile, DifficultyLevel } from '../types/character';
+
+export const PLAYER_PREFERENCES_KEY = 'rizzmaster_preferences';
+
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = ['easy', 'medium', 'hard'];
+
+// Who the player wants to see in the swipe deck
+export type PlayerPreferences = {
+  genders: CharacterProfile['gender'][]; // at least one
+  minLevel: DifficultyLevel;
+  maxLevel: DifficultyLevel;
+  archetypes: string[]; // favourite archetypes, shown first (empty: no preference)
+};
+
+export const DEFAULT_PREFERENCES: PlayerPreferences = {
+  genders: ['female', 'male'],
+  minLevel: 'easy',
+  maxLevel: 'hard',
+  archetypes: [],
+};
+
+export const loadPlayerPreferences = async (): Promise<PlayerPreferences> => {
+  try {
+    const raw = await AsyncStorage.getItem(PLAYER_PREFERENCES_KEY);
+    const stored: Partial<PlayerPreferences> = raw ? JSON.parse(raw) : {};
+    const preferences = { ...DEFAULT_PREFERENCES, ...stored };
+    // Preferences without any gender would empty the deck for good
+    return preferences.genders.length > 0 ? preferences : { ...preferences, genders: DEFAULT_PREFERENCES.genders };
+  } catch (error) {
+    console.warn('Preferences loading error', error);
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const savePlayerPreferences = async (preferences: PlayerPreferences): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(PLAYER_PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.warn('Preferences saving error', error);
+  }
+};
+
+const levelRank = (level: DifficultyLevel) => DIFFICULTY_LEVELS.indexOf(level);
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+/** Archetype of the profile in every language it is written in. */
+export const getArchetypes = (profile: CharacterProfile): string[] => [
+  profile.personality.archetype,
+  ...Object.values(profile.locales ?? {}).flatMap((translation) =>
+    translation?.personality?.archetype ? [translation.personality.archetype] : []
+  ),
+];
+
+// Archetypes are free text: a favourite picked in one language still matches in the other
+const isFavourite = (profile: CharacterProfile, favourites: Set<string>) =>
+  getArchetypes(profile).some((archetype) => favourites.has(normalize(archetype)));
+
+/**
+ * Swipe deck for `preferences`: profiles of the wanted genders within the
+ * difficulty range, favourite archetypes first, then from easiest to hardest.
+ * Profiles keep their original order otherwise.
+ */
+export const applyPreferences = (
+  profiles: CharacterProfile[],
+  preferences: PlayerPreferences
+): CharacterProfile[] => {
+  const min = levelRank(preferences.minLevel);
+  const max = levelRank(preferences.maxLevel);
+  const favourites = new Set(preferences.archetypes.map(normalize));
+
+  return profiles
+    .filter((profile) => {
+      const rank = levelRank(profile.difficulty.level);
+      return preferences.genders.includes(profile.gender) && rank >= Math.min(min, max) && rank <= Math.max(min, max);
+    })
+    .map((profile, index) => ({ profile, index, favourite: isFavourite(profile, favourites) }))
+    .sort((a, b) =>
+      Number(b.favourite) - Number(a.favourite)
+      || levelRank(a.profile.difficulty.level) - levelRank(b.profile.difficulty.level)
+      || a.index - b.index
+    )
+    .map(({ profile }) => profile);
+};
@@ -0,0 +1,127 @@
+import { Locale } from '../i18n/locales';
+import { STRINGS } from '../i18n/strings';
+import { CharacterProfile, DifficultyLevel } from '../types/character';
+import { PLACEHOLDER_AVATAR_KEY } from './avatars';
+import { extractJsonObject } from './llm/contract';
+import { GENERATED_PROFILE_SCHEMA } from './llm/tasks';
+import { LLMProvider } from './llm/types';
+import { ProfileIssue } from './profileSchema';
+import { createProfileId, validateCustomProfile } from './profiles';
+
+// Choices the player makes before asking for a new character
+export type GeneratorSeeds = {
+  archetype: string;
+  level: DifficultyLevel;
+  gender: CharacterProfile['gender'];
+};
+
+export type GeneratedProfile = {
+  profile: CharacterProfile;
+  issues: ProfileIssue[]; // same checks as any custom profile
+};
+
+/** The model's reply holds no profile at all. */
+export class ProfileGenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProfileGenerationError';
+  }
+}
+
+// Rules of each level; the model only writes the character
+const LEVEL_RULES: Record<DifficultyLevel, CharacterProfile['difficulty']> = {
+  easy: { level: 'easy', toleranceRed: 3, minGreenForSecondDate: 4 },
+  medium: { level: 'medium', toleranceRed: 2, minGreenForSecondDate: 5 },
+  hard: { level: 'hard', toleranceRed: 1, minGreenForSecondDate: 6 },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const texts = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(text).filter(Boolean) : [];
+
+// Card details are optional: whatever is unusable is dropped rather than reported
+const cardDetails = (value: Record<string, unknown>): Partial<CharacterProfile> => {
+  const age = typeof value.age === 'number' && Number.isInteger(value.age) && value.age >= 18 && value.age <= 99
+    ? value.age
+    : undefined;
+  const city = text(value.city);
+  const interests = texts(value.interests);
+  const prompts = (Array.isArray(value.prompts) ? value.prompts : [])
+    .filter(isRecord)
+    .map((prompt) => ({ question: text(prompt.question), answer: text(prompt.answer) }))
+    .filter((prompt) => prompt.question && prompt.answer);
+  return {
+    ...(age !== undefined ? { age } : {}),
+    ...(city ? { city } : {}),
+    ...(interests.length > 0 ? { interests } : {}),
+    ...(prompts.length > 0 ? { prompts } : {}),
+  };
+};
+
+/**
+ * Turns the model's JSON into a custom profile: seeds, rules and avatar come
+ * from the app, whatever the model wrote for them. Missing texts are left
+ * empty so that validation reports them.
+ */
+export const toGeneratedProfile = (raw: string, seeds: GeneratorSeeds, locale: Locale): CharacterProfile => {
+  const json = extractJsonObject(raw);
+  let value: unknown;
+  try {
+    value = json ? JSON.parse(json) : null;
+  } catch {
+    value = null;
+  }
+  if (!isRecord(value)) {
+    throw new ProfileGenerationError('No profile JSON in the reply');
+  }
+
+  const personality = isRecord(value.personality) ? value.personality : {};
+  const flags = isRecord(value.flags) ? value.flags : {};
+  const name = text(value.name);
+  const id = createProfileId(name);
+  return {
+    id,
+    name,
+    gender: seeds.gender,
+    avatarKey: PLACEHOLDER_AVATAR_KEY,
+    language: locale,
+    ...cardDetails(value),
+    personality: {
+      archetype: text(personality.archetype) || seeds.archetype.trim(),
+      shortBio: text(personality.shortBio),
+      tone: text(personality.tone),
+    },
+    flags: {
+      green: texts(flags.green),
+      red: texts(flags.red),
+      hardNo: texts(flags.hardNo),
+    },
+    difficulty: { ...LEVEL_RULES[seeds.level] },
+  };
+};
+
+/**
+ * Asks `provider` for a brand-new character written in `locale`. The result
+ * is not saved: it goes through saveCustomProfile once the player keeps it.
+ */
+export const generateProfile = async (
+  provider: LLMProvider,
+  seeds: GeneratorSeeds,
+  locale: Locale,
+  signal?: AbortSignal
+): Promise<GeneratedProfile> => {
+  const t = STRINGS[locale].model;
+  const reply = await provider.complete({
+    task: { kind: 'generator', locale, seeds },
+    messages: [{ role: 'user', content: t.generatorSeeds(seeds) }],
+    temperature: 1,
+    responseSchema: GENERATED_PROFILE_SCHEMA,
+    signal,
+  });
+  const profile = toGeneratedProfile(reply.content, seeds, locale);
+  return { profile, issues: validateCustomProfile(profile, false) };
+};
@@ -0,0 +1,48 @@
+import { DEFAULT_LOCALE, Locale } from '../i18n/locales';
+import { CharacterProfile, ProfileTranslation } from '../types/character';
+
+const FLAG_KINDS = ['green', 'red', 'hardNo'] as const;
+
+export const getProfileLanguage = (profile: CharacterProfile): Locale => profile.language ?? DEFAULT_LOCALE;
+
+/**
+ * Profile as shown and played in `locale`: translated texts replace the
+ * originals, anything untranslated stays as written. The original texts move
+ * into `locales`, so the result can be localized again into any language.
+ */
+export const localizeProfile = (profile: CharacterProfile, locale: Locale): CharacterProfile => {
+  const language = getProfileLanguage(profile);
+  const translation = profile.locales?.[locale];
+  if (language === locale || !translation) {
+    return profile;
+  }
+
+  const flags = { ...profile.flags };
+  for (const kind of FLAG_KINDS) {
+    const texts = translation.flags?.[kind];
+    // Une traduction incomplète décalerait les numéros de flags
+    if (texts && texts.length === profile.flags[kind].length) {
+      flags[kind] = texts;
+    }
+  }
+  const original: ProfileTranslation = {
+    personality: profile.personality,
+    flags: profile.flags,
+    ...(profile.interests ? { interests: profile.interests } : {}),
+    ...(profile.prompts ? { prompts: profile.prompts } : {}),
+    ...(profile.promptSections ? { promptSections: profile.promptSections } : {}),
+  };
+
+  return {
+    ...profile,
+    language: locale,
+    personality: { ...profile.personality, ...translation.personality },
+    flags,
+    ...(profile.interests && translation.interests ? { interests: translation.interests } : {}),
+    ...(profile.prompts && translation.prompts ? { prompts: translation.prompts } : {}),
+    ...(profile.promptSections && translation.promptSections
+      ? { promptSections: { ...profile.promptSections, ...translation.promptSections } }
+      : {}),
+    locales: { ...profile.locales, [language]: original },
+  };
+};
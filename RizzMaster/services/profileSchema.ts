@@ -0,0 +1,245 @@
+import { DEFAULT_LOCALE, isLocale, Locale, SUPPORTED_LOCALES } from '../i18n/locales';
+import { STRINGS, Strings } from '../i18n/strings';
+import { CharacterProfile, DifficultyLevel } from '../types/character';
+import { OVERRIDABLE_SECTIONS } from './prompt';
+
+export type ProfileIssue = {
+  severity: 'error' | 'warning'; // errors keep the profile out of the game
+  field: string;                 // e.g. "difficulty.minGreenForSecondDate"
+  message: string;
+};
+
+const DIFFICULTY_LEVELS: DifficultyLevel[] = ['easy', 'medium', 'hard'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isNonEmptyString);
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isPromptList = (value: unknown): boolean =>
+  Array.isArray(value) &&
+  value.every((prompt) => isRecord(prompt) && isNonEmptyString(prompt.question) && isNonEmptyString(prompt.answer));
+
+// Section overrides of the script template, by section id: only the
+// overridable ones, so a profile cannot drop the safety or format rules
+const isSectionMap = (value: unknown): boolean =>
+  isRecord(value) &&
+  Object.entries(value).every(
+    ([id, text]) => (OVERRIDABLE_SECTIONS as string[]).includes(id) && isNonEmptyString(text)
+  );
+
+const MIN_AGE = 18;
+const MAX_AGE = 99;
+
+/**
+ * Checks a profile against the CharacterProfile type and the game rules.
+ * Pass the known avatar keys to also report profiles without an image.
+ * Issue messages are written in `locale`.
+ */
+export const validateProfile = (
+  value: unknown,
+  avatarKeys?: ReadonlySet<string>,
+  locale: Locale = DEFAULT_LOCALE
+): ProfileIssue[] => {
+  const t = STRINGS[locale].issues;
+  const issues: ProfileIssue[] = [];
+  const error = (field: string, message: string) => issues.push({ severity: 'error', field, message });
+  const warning = (field: string, message: string) => issues.push({ severity: 'warning', field, message });
+
+  if (!isRecord(value)) {
+    error('', t.notAnObject);
+    return issues;
+  }
+
+  if (!isNonEmptyString(value.id)) error('id', t.missingId);
+  if (!isNonEmptyString(value.name)) error('name', t.missingName);
+  if (value.gender !== 'male' && value.gender !== 'female') error('gender', t.invalidGender);
+  if (!isNonEmptyString(value.avatarKey)) {
+    error('avatarKey', t.missingAvatarKey);
+  } else if (avatarKeys && !avatarKeys.has(value.avatarKey)) {
+    warning('avatarKey', t.unknownAvatar(value.avatarKey));
+  }
+
+  const personality = value.personality;
+  if (!isRecord(personality)) {
+    error('personality', t.notAnObjectField);
+  } else {
+    for (const field of ['archetype', 'shortBio', 'tone']) {
+      if (!isNonEmptyString(personality[field])) error(`personality.${field}`, t.missingText);
+    }
+  }
+
+  const flags = value.flags;
+  const flagCounts = { green: 0, red: 0, hardNo: 0 };
+  if (!isRecord(flags)) {
+    error('flags', t.notAnObjectField);
+  } else {
+    for (const kind of ['green', 'red', 'hardNo'] as const) {
+      const list = flags[kind];
+      if (!isStringList(list)) {
+        error(`flags.${kind}`, t.invalidFlagList);
+      } else {
+        flagCounts[kind] = list.length;
+        // Sans green flag la partie est impossible à gagner
+        if (list.length === 0) {
+          (kind === 'green' ? error : warning)(`flags.${kind}`, t.emptyList);
+        }
+      }
+    }
+  }
+
+  const difficulty = value.difficulty;
+  if (!isRecord(difficulty)) {
+    error('difficulty', t.notAnObjectField);
+  } else {
+    if (!DIFFICULTY_LEVELS.includes(difficulty.level as DifficultyLevel)) {
+      error('difficulty.level', t.invalidLevel);
+    }
+    if (!isPositiveInteger(difficulty.toleranceRed)) {
+      error('difficulty.toleranceRed', t.notPositiveInteger);
+    }
+    if (!isPositiveInteger(difficulty.minGreenForSecondDate)) {
+      error('difficulty.minGreenForSecondDate', t.notPositiveInteger);
+    } else if (difficulty.minGreenForSecondDate > flagCounts.green) {
+      error(
+        'difficulty.minGreenForSecondDate',
+        t.tooManyGreenRequired(difficulty.minGreenForSecondDate, flagCounts.green)
+      );
+    }
+    for (const field of ['winPoints', 'losePoints']) {
+      const points = difficulty[field];
+      if (points !== undefined && !(typeof points === 'number' && points > 0)) {
+        error(`difficulty.${field}`, t.notPositiveNumber);
+      }
+    }
+  }
+
+  const scoring = value.scoring;
+  if (scoring !== undefined) {
+    if (!isRecord(scoring)) {
+      error('scoring', t.notAnObjectField);
+    } else {
+      for (const [field, size] of [['greenWeights', flagCounts.green], ['redWeights', flagCounts.red]] as const) {
+        const weights = scoring[field];
+        if (weights === undefined) continue;
+        if (!Array.isArray(weights) || !weights.every((w) => typeof w === 'number' && w >= 0)) {
+          error(`scoring.${field}`, t.invalidWeights);
+        } else if (weights.length > size) {
+          warning(`scoring.${field}`, t.extraWeights(weights.length, size));
+        }
+      }
+      const momentum = scoring.momentum;
+      if (momentum !== undefined && !(typeof momentum === 'number' && momentum >= 0 && momentum <= 1)) {
+        error('scoring.momentum', t.invalidMomentum);
+      }
+    }
+  }
+
+  if (value.age !== undefined && !(isPositiveInteger(value.age) && value.age >= MIN_AGE && value.age <= MAX_AGE)) {
+    error('age', t.invalidAge(MIN_AGE, MAX_AGE));
+  }
+  if (value.city !== undefined && !isNonEmptyString(value.city)) error('city', t.missingText);
+  if (value.interests !== undefined && !isStringList(value.interests)) error('interests', t.invalidTextList);
+  if (value.prompts !== undefined && !isPromptList(value.prompts)) error('prompts', t.invalidPrompts);
+  if (value.photoKeys !== undefined) {
+    if (!isStringList(value.photoKeys)) {
+      error('photoKeys', t.invalidTextList);
+    } else if (avatarKeys) {
+      value.photoKeys
+        .filter((key) => !avatarKeys.has(key))
+        .forEach((key) => warning('photoKeys', t.unknownAvatar(key)));
+    }
+  }
+
+  if (value.promptSections !== undefined && !isSectionMap(value.promptSections)) {
+    error('promptSections', t.invalidSections(OVERRIDABLE_SECTIONS));
+  }
+
+  if (value.opensConversation !== undefined && typeof value.opensConversation !== 'boolean') {
+    error('opensConversation', t.notABoolean);
+  }
+
+  if (value.language !== undefined && !isLocale(value.language)) {
+    error('language', t.invalidLanguage(SUPPORTED_LOCALES));
+  }
+
+  const locales = value.locales;
+  if (locales !== undefined) {
+    if (!isRecord(locales)) {
+      error('locales', t.notAnObjectField);
+    } else {
+      for (const [code, translation] of Object.entries(locales)) {
+        const field = `locales.${code}`;
+        if (!isLocale(code)) {
+          warning(field, t.unknownLocale);
+        } else if (!isRecord(translation)) {
+          error(field, t.notAnObjectField);
+        } else {
+          validateTranslation(translation, field, flagCounts, t, error, warning);
+        }
+      }
+    }
+  }
+
+  return issues;
+};
+
+type IssueReporter = (field: string, message: string) => void;
+
+const validateTranslation = (
+  translation: Record<string, unknown>,
+  prefix: string,
+  flagCounts: Record<'green' | 'red' | 'hardNo', number>,
+  t: Strings['issues'],
+  error: IssueReporter,
+  warning: IssueReporter
+) => {
+  const { personality, flags, interests, prompts, promptSections } = translation;
+  if (interests !== undefined && !isStringList(interests)) error(`${prefix}.interests`, t.invalidTextList);
+  if (prompts !== undefined && !isPromptList(prompts)) error(`${prefix}.prompts`, t.invalidPrompts);
+  if (promptSections !== undefined && !isSectionMap(promptSections)) {
+    error(`${prefix}.promptSections`, t.invalidSections(OVERRIDABLE_SECTIONS));
+  }
+  if (personality !== undefined) {
+    if (!isRecord(personality)) {
+      error(`${prefix}.personality`, t.notAnObjectField);
+    } else {
+      for (const field of ['archetype', 'shortBio', 'tone']) {
+        if (personality[field] !== undefined && !isNonEmptyString(personality[field])) {
+          error(`${prefix}.personality.${field}`, t.missingText);
+        }
+      }
+    }
+  }
+  if (flags !== undefined) {
+    if (!isRecord(flags)) {
+      error(`${prefix}.flags`, t.notAnObjectField);
+      return;
+    }
+    for (const kind of ['green', 'red', 'hardNo'] as const) {
+      const list = flags[kind];
+      if (list === undefined) continue;
+      if (!isStringList(list)) {
+        error(`${prefix}.flags.${kind}`, t.invalidFlagList);
+      } else if (list.length !== flagCounts[kind]) {
+        warning(`${prefix}.flags.${kind}`, t.translationLength(list.length, flagCounts[kind]));
+      }
+    }
+  }
+};
+
+export const hasErrors = (issues: ProfileIssue[]): boolean =>
+  issues.some((issue) => issue.severity === 'error');
+
+export const isCharacterProfile = (value: unknown): value is CharacterProfile =>
+  !hasErrors(validateProfile(value));
+
+export const formatIssue = (issue: ProfileIssue): string =>
+  issue.field ? `${issue.field} : ${issue.message}` : issue.message;
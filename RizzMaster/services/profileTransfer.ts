@@ -0,0 +1,182 @@
+import { Asset } from 'expo-asset';
+import { File, Paths } from 'expo-file-system/next';
+import * as Linking from 'expo-linking';
+import * as Sharing from 'expo-sharing';
+import { getLocale, getStrings } from '../i18n';
+import { CharacterProfile } from '../types/character';
+import { bundledAvatars } from './avatars';
+import { formatIssue, hasErrors, ProfileIssue, validateProfile } from './profileSchema';
+import {
+  createProfileId,
+  getCustomAvatarUri,
+  getProfile,
+  isCustomProfile,
+  saveCustomProfile,
+  validateCustomProfile,
+} from './profiles';
+
+export const PROFILE_FILE_EXTENSION = '.rizz.json';
+const PROFILE_FILE_FORMAT = 'rizzmaster-profile';
+const PROFILE_FILE_VERSION = 1;
+const PROFILE_LINK_PATH = 'profile';
+
+// Content of a .rizz.json file
+type ProfileFile = {
+  format: typeof PROFILE_FILE_FORMAT;
+  version: number;
+  profile: CharacterProfile;
+  avatar?: { base64: string }; // JPEG/PNG/WebP bytes of the avatar
+};
+
+export type ImportCollision =
+  | 'none'
+  | 'bundled' // same id as a bundled profile: imported as a copy
+  | 'custom'; // same id as a custom profile: copy or replace
+
+export type ImportPreview = {
+  profile: CharacterProfile;
+  avatarBase64?: string;
+  collision: ImportCollision;
+  issues: ProfileIssue[]; // issues of the profile as it would be added
+};
+
+export type ImportResult = { ok: true; preview: ImportPreview } | { ok: false; error: string };
+
+const readAvatarBase64 = async (profile: CharacterProfile): Promise<string | undefined> => {
+  const customUri = getCustomAvatarUri(profile.id);
+  if (customUri) {
+    return new File(customUri).base64();
+  }
+  const bundled = bundledAvatars[profile.avatarKey];
+  if (typeof bundled !== 'number') {
+    return undefined;
+  }
+  const asset = Asset.fromModule(bundled);
+  await asset.downloadAsync();
+  return asset.localUri ? new File(asset.localUri).base64() : undefined;
+};
+
+/** Writes the profile (and optionally its avatar) to a .rizz.json file and opens the share sheet. */
+export const exportProfile = async (
+  profile: CharacterProfile,
+  { includeAvatar }: { includeAvatar: boolean }
+): Promise<void> => {
+  const avatarBase64 = includeAvatar ? await readAvatarBase64(profile) : undefined;
+  const content: ProfileFile = {
+    format: PROFILE_FILE_FORMAT,
+    version: PROFILE_FILE_VERSION,
+    profile,
+    ...(avatarBase64 ? { avatar: { base64: avatarBase64 } } : {}),
+  };
+
+  const file = new File(Paths.cache, `${profile.id}${PROFILE_FILE_EXTENSION}`);
+  if (file.exists) {
+    file.delete();
+  }
+  file.create();
+  file.write(JSON.stringify(content));
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'application/json',
+    UTI: 'public.json',
+    dialogTitle: getStrings().select.share(profile.name),
+  });
+};
+
+/** `rizzmaster://profile?data=...` link carrying the profile, without its avatar. */
+export const buildProfileLink = (profile: CharacterProfile): string =>
+  Linking.createURL(PROFILE_LINK_PATH, { queryParams: { data: JSON.stringify(profile) } });
+
+/**
+ * Checks an incoming profile and works out how it would be added: an id
+ * already in use gets a fresh one unless the player replaces their own copy.
+ */
+const toPreview = (candidate: unknown, avatarBase64?: string): ImportResult => {
+  const issues = validateProfile(candidate, undefined, getLocale());
+  if (hasErrors(issues)) {
+    const errors = issues.filter((issue) => issue.severity === 'error');
+    return { ok: false, error: errors.map(formatIssue).join('\n') };
+  }
+
+  const incoming = candidate as CharacterProfile;
+  const existing = getProfile(incoming.id);
+  const collision: ImportCollision = !existing ? 'none' : isCustomProfile(incoming.id) ? 'custom' : 'bundled';
+  const profile = collision === 'bundled' ? asCopy(incoming, !!avatarBase64) : withAvatarKey(incoming, !!avatarBase64);
+  return {
+    ok: true,
+    preview: {
+      profile,
+      avatarBase64,
+      collision,
+      issues: validateCustomProfile(profile, !!avatarBase64),
+    },
+  };
+};
+
+// An imported avatar is stored like a picked one, under the profile's own key
+const withAvatarKey = (profile: CharacterProfile, hasAvatar: boolean): CharacterProfile =>
+  hasAvatar ? { ...profile, avatarKey: `${profile.id}_avatar` } : profile;
+
+const asCopy = (profile: CharacterProfile, hasAvatar: boolean): CharacterProfile =>
+  withAvatarKey({ ...profile, id: createProfileId(profile.name) }, hasAvatar);
+
+/** Accepts a .rizz.json file as well as a bare CharacterProfile JSON. */
+export const readProfileFile = async (uri: string): Promise<ImportResult> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await new File(uri).text());
+  } catch {
+    return { ok: false, error: getStrings().importer.invalidJson };
+  }
+
+  const content = parsed as Partial<ProfileFile> | undefined;
+  if (content?.format === PROFILE_FILE_FORMAT) {
+    if (typeof content.version !== 'number' || content.version > PROFILE_FILE_VERSION) {
+      return { ok: false, error: getStrings().importer.newerVersion };
+    }
+    const avatarBase64 = typeof content.avatar?.base64 === 'string' ? content.avatar.base64 : undefined;
+    return toPreview(content.profile, avatarBase64);
+  }
+  return toPreview(parsed);
+};
+
+/** Reads the `data` parameter of a profile link. */
+export const readProfileLinkData = (data: string | undefined): ImportResult => {
+  if (!data) {
+    return { ok: false, error: getStrings().importer.emptyLink };
+  }
+  try {
+    return toPreview(JSON.parse(data));
+  } catch {
+    return { ok: false, error: getStrings().importer.unreadableLink };
+  }
+};
+
+/**
+ * Adds the previewed profile to the deck. `replace` overwrites the custom
+ * profile with the same id; otherwise a colliding profile becomes a copy.
+ */
+export const importProfile = async (preview: ImportPreview, replace: boolean): Promise<ProfileIssue[]> => {
+  const profile = preview.collision === 'custom' && !replace
+    ? asCopy(preview.profile, !!preview.avatarBase64)
+    : preview.profile;
+
+  let avatarUri: string | undefined;
+  if (preview.avatarBase64) {
+    const file = new File(Paths.cache, `${profile.id}_import.jpg`);
+    if (file.exists) {
+      file.delete();
+    }
+    file.create();
+    file.write(preview.avatarBase64, { encoding: 'base64' });
+    avatarUri = file.uri;
+  }
+
+  try {
+    return await saveCustomProfile(profile, avatarUri);
+  } finally {
+    if (avatarUri) {
+      new File(avatarUri).delete();
+    }
+  }
+};
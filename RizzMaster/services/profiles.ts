@@ -0,0 +1,206 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getLocale, Locale } from '../i18n';
+import { STRINGS } from '../i18n/strings';
+import { CharacterProfile } from '../types/character';
+import { Avatar, deletePickedAvatar, getAvatarKeys, resolveAvatar, resolvePhotos, storePickedAvatar } from './avatars';
+import { localizeProfile } from './profileLocale';
+import { formatIssue, hasErrors, ProfileIssue, validateProfile } from './profileSchema';
+
+// Every bundled character: add new JSON files here only.
+const BUNDLED_PROFILES: unknown[] = [
+  require('../data/profiles/chloe_spontanee.json'),
+  require('../data/profiles/fanny_douce.json'),
+  require('../data/profiles/kilian_bobo.json'),
+  require('../data/profiles/louis_charo.json'),
+  require('../data/profiles/melina_pickme.json'),
+];
+
+export const CUSTOM_PROFILES_KEY = 'rizzmaster_custom_profiles';
+// Keys cleared along with a deleted custom profile
+const PROFILE_STORAGE_KEY_PREFIXES = ['rizzmaster_chat_', 'rizzmaster_flags_', 'rizzmaster_summary_'];
+
+export type ProfileReport = {
+  id: string; // profile id, or "#<index>" when it has none
+  issues: ProfileIssue[];
+};
+
+export type ProfileRegistry = {
+  profiles: CharacterProfile[]; // valid profiles, in load order
+  reports: ProfileReport[];     // only profiles with at least one issue
+};
+
+// Profiles created in the app, stored as a list under CUSTOM_PROFILES_KEY
+type CustomProfileRecord = {
+  profile: CharacterProfile;
+  avatarUri?: string; // picked image, copied into the document directory
+  updatedAt: number;
+};
+
+/**
+ * Validates candidate profiles and drops the ones with errors. An id already
+ * taken (by `takenIds` or an earlier candidate) is an error too.
+ */
+export const buildProfileRegistry = (
+  candidates: unknown[],
+  { takenIds = new Set<string>(), avatarKeys = getAvatarKeys(), locale = getLocale() }: {
+    takenIds?: ReadonlySet<string>;
+    avatarKeys?: ReadonlySet<string>;
+    locale?: Locale; // language of the issue messages
+  } = {}
+): ProfileRegistry => {
+  const seen = new Set(takenIds);
+  const registry: ProfileRegistry = { profiles: [], reports: [] };
+
+  candidates.forEach((candidate, index) => {
+    const issues = validateProfile(candidate, avatarKeys, locale);
+    const id = (candidate as CharacterProfile | undefined)?.id;
+    if (typeof id === 'string' && seen.has(id)) {
+      issues.push({ severity: 'error', field: 'id', message: STRINGS[locale].issues.duplicateId(id) });
+    }
+    if (typeof id === 'string') {
+      seen.add(id);
+    }
+    if (issues.length > 0) {
+      registry.reports.push({ id: typeof id === 'string' ? id : `#${index}`, issues });
+    }
+    if (!hasErrors(issues)) {
+      registry.profiles.push(candidate as CharacterProfile);
+    }
+  });
+  return registry;
+};
+
+const logReports = (reports: ProfileReport[]) => {
+  reports.forEach((report) => {
+    console.warn(`Profile ${report.id}:\n${report.issues.map((issue) => `- [${issue.severity}] ${formatIssue(issue)}`).join('\n')}`);
+  });
+};
+
+const bundled = buildProfileRegistry(BUNDLED_PROFILES);
+const bundledIds = new Set(bundled.profiles.map((profile) => profile.id));
+logReports(bundled.reports);
+
+let customRecords: CustomProfileRecord[] = [];
+let custom: ProfileRegistry = { profiles: [], reports: [] };
+
+const customAvatarKeys = (records: CustomProfileRecord[]) =>
+  new Set([
+    ...getAvatarKeys(),
+    ...records.filter((record) => record.avatarUri).map((record) => record.profile.avatarKey),
+  ]);
+
+const readCustomRecords = async (): Promise<CustomProfileRecord[]> => {
+  const raw = await AsyncStorage.getItem(CUSTOM_PROFILES_KEY);
+  const parsed = raw ? JSON.parse(raw) : [];
+  return Array.isArray(parsed) ? parsed : [];
+};
+
+const writeCustomRecords = async (records: CustomProfileRecord[]) => {
+  await AsyncStorage.setItem(CUSTOM_PROFILES_KEY, JSON.stringify(records));
+  applyCustomRecords(records);
+};
+
+const applyCustomRecords = (records: CustomProfileRecord[]) => {
+  customRecords = records;
+  custom = buildProfileRegistry(records.map((record) => record.profile), {
+    takenIds: bundledIds,
+    avatarKeys: customAvatarKeys(records),
+  });
+};
+
+/** Loads the profiles created on this device; invalid ones are reported and skipped. */
+export const loadCustomProfiles = async (): Promise<CharacterProfile[]> => {
+  try {
+    applyCustomRecords(await readCustomRecords());
+    logReports(custom.reports.filter((report) => hasErrors(report.issues)));
+  } catch (error) {
+    console.warn('Custom profiles loading error', error);
+  }
+  return custom.profiles;
+};
+
+/** Every playable profile, translated into the current language where possible. */
+export const getProfiles = (): CharacterProfile[] =>
+  [...bundled.profiles, ...custom.profiles].map((profile) => localizeProfile(profile, getLocale()));
+
+export const getProfile = (id: string): CharacterProfile | undefined =>
+  getProfiles().find((profile) => profile.id === id);
+
+export const getProfileReports = (): ProfileReport[] => [...bundled.reports, ...custom.reports];
+
+export const isCustomProfile = (id: string): boolean =>
+  custom.profiles.some((profile) => profile.id === id);
+
+export const getCustomAvatarUri = (id: string): string | undefined =>
+  customRecords.find((record) => record.profile.id === id)?.avatarUri;
+
+/** Picked image, bundled image or generated initials: always something to show. */
+export const getAvatar = (profile: CharacterProfile): Avatar =>
+  resolveAvatar(profile, getCustomAvatarUri(profile.id));
+
+/** Every photo of the profile for the card carousel, avatar first. */
+export const getPhotos = (profile: CharacterProfile): Avatar[] => [getAvatar(profile), ...resolvePhotos(profile)];
+
+/** New id for a custom profile, derived from its name. */
+export const createProfileId = (name: string): string => {
+  const slug = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return `custom_${slug || 'perso'}_${Date.now().toString(36)}`;
+};
+
+/**
+ * Same checks as the bundled profiles, plus the id must not belong to a
+ * bundled profile or to another custom one.
+ */
+export const validateCustomProfile = (profile: CharacterProfile, hasAvatar: boolean): ProfileIssue[] => {
+  const others = customRecords.filter((record) => record.profile.id !== profile.id);
+  const avatarKeys = customAvatarKeys(others);
+  if (hasAvatar) {
+    avatarKeys.add(profile.avatarKey);
+  }
+  const takenIds = new Set([...bundledIds, ...others.map((record) => record.profile.id)]);
+  return buildProfileRegistry([profile], { takenIds, avatarKeys }).reports[0]?.issues ?? [];
+};
+
+/**
+ * Creates or updates a custom profile. `pickedImageUri` replaces the current
+ * avatar when given. Returns the validation issues; nothing is saved when one
+ * of them is an error.
+ */
+export const saveCustomProfile = async (
+  profile: CharacterProfile,
+  pickedImageUri?: string
+): Promise<ProfileIssue[]> => {
+  const records = await readCustomRecords();
+  applyCustomRecords(records);
+  const existing = records.find((record) => record.profile.id === profile.id);
+
+  const issues = validateCustomProfile(profile, !!(pickedImageUri || existing?.avatarUri));
+  if (hasErrors(issues)) {
+    return issues;
+  }
+
+  const avatarUri = pickedImageUri ? storePickedAvatar(profile.id, pickedImageUri) : existing?.avatarUri;
+  if (pickedImageUri && existing?.avatarUri) {
+    deletePickedAvatar(existing.avatarUri);
+  }
+  const record: CustomProfileRecord = { profile, avatarUri, updatedAt: Date.now() };
+  await writeCustomRecords(
+    existing
+      ? records.map((item) => (item.profile.id === profile.id ? record : item))
+      : [...records, record]
+  );
+  return issues;
+};
+
+/** Removes a custom profile, its avatar and its saved conversation. */
+export const deleteCustomProfile = async (id: string): Promise<void> => {
+  const records = await readCustomRecords();
+  deletePickedAvatar(records.find((record) => record.profile.id === id)?.avatarUri);
+  await writeCustomRecords(records.filter((record) => record.profile.id !== id));
+  await Promise.all(PROFILE_STORAGE_KEY_PREFIXES.map((prefix) => AsyncStorage.removeItem(`${prefix}${id}`)));
+};
@@ -0,0 +1,141 @@
+import { STRINGS, Strings } from '../i18n/strings';
+import { CharacterProfile, OverridableSection } from '../types/character';
+import { getScoringRules, MIN_EXCHANGES_TO_WIN } from './gameRules';
+import { getProfileLanguage } from './profileLocale';
+
+/**
+ * Script of one conversation language, split into named sections. In the
+ * source file, `@version <id>` comes first and every `@section <id>` line
+ * starts a section; `@section <id> archetype: <archetype>` only applies to
+ * characters of that archetype.
+ */
+export type PromptTemplate = {
+  version: string;
+  sections: PromptSection[];
+};
+
+type PromptSection = {
+  id: string;
+  archetype?: string; // variant replacing the base section for this archetype
+  text: string;
+};
+
+export type SystemPrompt = {
+  text: string;
+  version: string; // version of the template it was built from
+};
+
+/** The template source cannot be used. */
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+const DIRECTIVE = /^@(version|section)\s+(\S+)(?:\s+archetype:\s*(.+?))?\s*$/;
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+export const parsePromptTemplate = (source: string): PromptTemplate => {
+  let version: string | undefined;
+  const sections: PromptSection[] = [];
+
+  for (const line of source.split(/\r?\n/)) {
+    const directive = line.match(DIRECTIVE);
+    if (directive?.[1] === 'version') {
+      version = directive[2];
+    } else if (directive) {
+      sections.push({ id: directive[2], archetype: directive[3], text: '' });
+    } else if (sections.length > 0) {
+      const section = sections[sections.length - 1];
+      section.text = section.text ? `${section.text}\n${line}` : line;
+    } else if (line.trim()) {
+      throw new PromptTemplateError('Text found before the first @section');
+    }
+  }
+
+  if (!version) {
+    throw new PromptTemplateError('Missing @version');
+  }
+  if (sections.length === 0) {
+    throw new PromptTemplateError('No @section');
+  }
+  return { version, sections: sections.map((section) => ({ ...section, text: section.text.trim() })) };
+};
+
+// Numbered flag lists the model refers to in flagsDetected.matched
+const buildFlagIndex = (profile: CharacterProfile, t: Strings['model']): string => {
+  const section = (label: string, flags: string[]) =>
+    `${label}:\n${flags.map((flag, index) => `  ${index} = ${flag}`).join('\n')}`;
+  return [
+    t.flagIndexHeader,
+    section('green', profile.flags.green),
+    section('red', profile.flags.red),
+    section('hardNo', profile.flags.hardNo),
+  ].join('\n');
+};
+
+// Values of the {{placeholders}} a template may use
+const buildPlaceholders = (profile: CharacterProfile, strings: Strings): Record<string, string> => {
+  const t = strings.model;
+  const { winPoints, losePoints } = getScoringRules(profile);
+  // Les traductions, les photos et les réglages de l'app ne servent pas au personnage
+  const { language, locales, opensConversation, photoKeys, promptSections, ...played } = profile;
+  return {
+    name: profile.name,
+    tone: profile.personality.tone,
+    archetype: profile.personality.archetype,
+    bio: profile.personality.shortBio,
+    language: t.languageName,
+    difficulty: t.difficulty({
+      level: strings.difficulty[profile.difficulty.level] ?? profile.difficulty.level,
+      toleranceRed: profile.difficulty.toleranceRed,
+      minGreen: profile.difficulty.minGreenForSecondDate,
+    }),
+    rules: t.rules({ winPoints, losePoints, minExchanges: MIN_EXCHANGES_TO_WIN }),
+    flags: buildFlagIndex(profile, t),
+    profile: JSON.stringify(played, null, 2),
+  };
+};
+
+/** Sections a profile may replace with `promptSections`. */
+export const OVERRIDABLE_SECTIONS: OverridableSection[] = ['intro', 'style', 'profile'];
+
+const isOverridable = (id: string): id is OverridableSection =>
+  OVERRIDABLE_SECTIONS.includes(id as OverridableSection);
+
+/**
+ * Text of section `id` for this profile: the profile's own override first
+ * (only for the overridable sections), then the variant for its archetype,
+ * then the base section.
+ */
+const resolveSection = (template: PromptTemplate, id: string, profile: CharacterProfile): string => {
+  const override = isOverridable(id) ? profile.promptSections?.[id] : undefined;
+  if (override?.trim()) {
+    return override.trim();
+  }
+  const archetype = normalize(profile.personality.archetype);
+  const variant = template.sections.find(
+    (section) => section.id === id && section.archetype !== undefined && normalize(section.archetype) === archetype
+  );
+  return (variant ?? template.sections.find((section) => section.id === id && section.archetype === undefined))
+    ?.text ?? '';
+};
+
+/**
+ * Builds the character system prompt from the template of the profile's
+ * language and the profile (already localized). Shared with the proxy server
+ * so both sides send the same prompt.
+ */
+export const buildSystemPrompt = (template: PromptTemplate, profile: CharacterProfile): SystemPrompt => {
+  const values = buildPlaceholders(profile, STRINGS[getProfileLanguage(profile)]);
+  // Chaque section n'est rendue qu'une fois, à la place de sa version de base
+  const ids = Array.from(new Set(template.sections.map((section) => section.id)));
+  const text = ids
+    .map((id) => resolveSection(template, id, profile).replace(PLACEHOLDER, (match, key: string) => values[key] ?? match))
+    .filter(Boolean)
+    .join('\n\n');
+  return { text, version: template.version };
+};
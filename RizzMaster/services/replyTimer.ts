@@ -0,0 +1,30 @@
+import { FlagStats } from '../hooks/useGameState';
+import { Message } from '../types/chat';
+
+// Time the player has to answer each character message in timed mode
+export const REPLY_WINDOW_MS = 60 * 1000;
+// Idle time after which a character who opened up feels ghosted
+export const GHOSTING_AFTER_MS = 15 * 60 * 1000;
+// Most red flags a single late reply can cost
+const MAX_LATE_PENALTY = 2;
+
+/**
+ * Character message the player has to answer, with the time it was shown.
+ * Timestamps are saved with the history, so the countdown goes on across
+ * restarts and while the conversation is left idle outside the chat.
+ */
+export const getPendingReply = (messages: Message[]): { sentAt: number } | null => {
+  const last = messages[messages.length - 1];
+  return last?.role === 'assistant' && last.sentAt !== undefined ? { sentAt: last.sentAt } : null;
+};
+
+/** Red flags for a reply sent `elapsedMs` after the character's message: one per window overrun. */
+export const latePenalty = (elapsedMs: number): number =>
+  elapsedMs <= REPLY_WINDOW_MS ? 0 : Math.min(MAX_LATE_PENALTY, Math.ceil((elapsedMs - REPLY_WINDOW_MS) / REPLY_WINDOW_MS));
+
+/**
+ * Leaving the character on read is ghosting once they have opened up, i.e.
+ * once the compatibility score is positive.
+ */
+export const isGhosting = (stats: FlagStats, elapsedMs: number): boolean =>
+  stats.score > 0 && elapsedMs >= GHOSTING_AFTER_MS;
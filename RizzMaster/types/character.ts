@@ -1,10 +1,43 @@
+import { Locale } from '../i18n/locales';
+
 export type DifficultyLevel = 'easy' | 'medium' | 'hard';
 
+// Sections of the script template a profile may replace; the others (rules,
+// secrecy, safety, format) always come from the script
+export type OverridableSection = 'intro' | 'style' | 'profile';
+
+// Texts of a profile in another language. Flag lists keep the same order
+// and length as the originals, since the model refers to flags by index.
+export type ProfileTranslation = {
+  personality?: Partial<CharacterProfile['personality']>;
+  flags?: Partial<CharacterProfile['flags']>;
+  interests?: string[];
+  prompts?: ProfilePrompt[];
+  promptSections?: Partial<Record<OverridableSection, string>>;
+};
+
+// Question of the dating app and the character's answer, shown on the card
+export type ProfilePrompt = {
+  question: string;
+  answer: string;
+};
+
 export type CharacterProfile = {
   id: string;
   name: string;
   gender: 'male' | 'female';
   avatarKey: string;      // key for the character avatar asset
+  language?: Locale;      // language of the texts below (default: fr)
+  locales?: Partial<Record<Locale, ProfileTranslation>>;
+  opensConversation?: boolean; // sends the first message (default: global setting)
+  promptSections?: Partial<Record<OverridableSection, string>>; // replaces sections of the script template, by section id
+
+  // Card details, all optional; the character knows them too
+  age?: number;
+  city?: string;
+  interests?: string[];
+  prompts?: ProfilePrompt[];
+  photoKeys?: string[];   // extra photos after the avatar, keys of bundled images
 
   personality: {
     archetype: string;    // e.g. "romantic_funny"
@@ -22,5 +55,13 @@ export type CharacterProfile = {
     level: DifficultyLevel;
     toleranceRed: number;         // max red flags tolerated
     minGreenForSecondDate: number; // min green flags for "Second Date"
+    winPoints?: number;           // score needed to win (default: minGreenForSecondDate)
+    losePoints?: number;          // score at or below -losePoints ends the game (default: toleranceRed)
+  };
+
+  scoring?: {
+    greenWeights?: number[];      // points of each flags.green entry (default 1)
+    redWeights?: number[];        // points lost for each flags.red entry (default 1)
+    momentum?: number;            // share of the previous score kept each turn, 0-1 (default 0.9)
   };
 };
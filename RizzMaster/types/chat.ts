@@ -0,0 +1,31 @@
+import { GameStatus } from '../hooks/useGameState';
+
+// Indices into the profile's flags.green / flags.red / flags.hardNo lists
+export type FlagIds = {
+  green: number[];
+  red: number[];
+  hardNo: number[];
+};
+
+export type Message = {
+  role: 'user' | 'assistant';
+  content: string;
+  flags?: FlagIds; // player messages only: flags this message triggered
+  failed?: boolean; // player messages only: no reply came back, the message can be resent
+  opener?: boolean; // character messages only: sent before the player wrote anything, never scored
+  promptVersion?: string; // character messages only: version of the script template used
+  sentAt?: number; // ms timestamp: sent by the player, or fully shown for a character message
+  penalty?: number; // player messages only: red flags taken for replying too late (timed mode)
+  score?: number; // player messages only: compatibility score once this turn was counted
+};
+
+export type ParsedAssistantResponse = {
+  message: string;
+  flagsDetected: {
+    green: number;
+    red: number;
+    hardNo: boolean;
+    matched?: FlagIds;
+  };
+  gameStatus: GameStatus;
+};
@@ -0,0 +1,33 @@
+import path from 'node:path';
+
+export type ServerConfig = {
+  port: number;
+  upstreamBaseUrl: string; // OpenAI-compatible API (OpenAI, Ollama, stub...)
+  upstreamApiKey?: string;
+  upstreamModel: string;
+  structuredOutput: boolean;
+  rateLimit: { max: number; windowMs: number };
+  scriptsDir: string; // one script template per locale, see SCRIPT_FILES
+  profilesDir: string;
+};
+
+const APP_DIR = path.resolve(__dirname, '../../RizzMaster');
+
+const toNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => ({
+  port: toNumber(env.PORT, 8787),
+  upstreamBaseUrl: (env.UPSTREAM_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, ''),
+  upstreamApiKey: env.UPSTREAM_API_KEY || env.OPENAI_API_KEY,
+  upstreamModel: env.UPSTREAM_MODEL || 'gpt-4o-mini',
+  structuredOutput: env.UPSTREAM_STRUCTURED_OUTPUT !== 'false',
+  rateLimit: {
+    max: toNumber(env.RATE_LIMIT_MAX, 20),
+    windowMs: toNumber(env.RATE_LIMIT_WINDOW_MS, 60_000),
+  },
+  scriptsDir: env.SCRIPTS_DIR || path.join(APP_DIR, 'data/scripts'),
+  profilesDir: env.PROFILES_DIR || path.join(APP_DIR, 'data/profiles'),
+});
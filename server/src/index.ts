@@ -0,0 +1,229 @@
+import http from 'node:http';
+import { STRINGS } from '../../RizzMaster/i18n/strings';
+import { buildTaskSystem, CompletionTask, getTaskResponseSchema } from '../../RizzMaster/services/llm/tasks';
+import { buildSystemPrompt } from '../../RizzMaster/services/prompt';
+import { getProfileLanguage, localizeProfile } from '../../RizzMaster/services/profileLocale';
+import type { CharacterProfile } from '../../RizzMaster/types/character';
+import { loadConfig } from './config';
+import { isCharacterProfile, loadProfiles, loadScripts } from './profiles';
+import { createRateLimiter } from './rateLimit';
+import { isCompletionTask } from './tasks';
+import { callUpstream, readCompletionDeltas, UpstreamMessage } from './upstream';
+
+const MAX_BODY_BYTES = 256 * 1024;
+const MAX_MESSAGES = 200;
+const MAX_MESSAGE_LENGTH = 4000;
+const DEFAULT_TEMPERATURE = 0.8;
+const MAX_TEMPERATURE = 1;
+
+type ChatBody = {
+  profile?: CharacterProfile; // character played by the opener and turn tasks
+  task: CompletionTask;
+  messages: { role: 'user' | 'assistant'; content: string }[];
+  temperature?: number; // clamped to [0, MAX_TEMPERATURE]
+  stream?: boolean;
+};
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const config = loadConfig();
+const scripts = loadScripts(config.scriptsDir);
+const bundledProfiles = loadProfiles(config.profilesDir);
+const rateLimiter = createRateLimiter(config.rateLimit);
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Expose-Headers': 'X-Prompt-Version',
+};
+
+const sendJson = (res: http.ServerResponse, status: number, payload: unknown, headers = {}) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+};
+
+const readBody = (req: http.IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const parseChatBody = (raw: string): ChatBody => {
+  let body: ChatBody;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, 'Invalid JSON');
+  }
+
+  const validMessages =
+    Array.isArray(body?.messages) &&
+    body.messages.length <= MAX_MESSAGES &&
+    body.messages.every(
+      (msg) =>
+        (msg?.role === 'user' || msg?.role === 'assistant') &&
+        typeof msg.content === 'string' &&
+        msg.content.length <= MAX_MESSAGE_LENGTH
+    );
+  if (!validMessages) {
+    throw new HttpError(400, '"messages" must be a list of {role, content}');
+  }
+  if (!isCompletionTask(body.task)) {
+    throw new HttpError(400, '"task" is not a known task');
+  }
+  const playsCharacter = body.task.kind === 'opener' || body.task.kind === 'turn';
+  if (playsCharacter ? !isCharacterProfile(body.profile) : body.profile !== undefined) {
+    throw new HttpError(400, `"profile" must be a valid character profile for the ${body.task.kind} task, and only then`);
+  }
+  return body;
+};
+
+// Bundled characters always use the server copy, in the language the app
+// plays them in; custom ones come from the app.
+const resolveProfile = (profile: CharacterProfile): CharacterProfile => {
+  const bundled = bundledProfiles.get(profile.id);
+  return bundled ? localizeProfile(bundled, getProfileLanguage(profile)) : profile;
+};
+
+// Same task with its profiles resolved, so the templates read the server copies
+const resolveTask = (task: CompletionTask): CompletionTask =>
+  task.kind === 'summary' || task.kind === 'repair' || task.kind === 'coach'
+    ? { ...task, profile: resolveProfile(task.profile) }
+    : task;
+
+// The system messages are built here only, from the character prompt and the
+// task template. Also returns the version of the script template, when a
+// character is played.
+const buildUpstreamMessages = (body: ChatBody): { messages: UpstreamMessage[]; promptVersion?: string } => {
+  const task = resolveTask(body.task);
+  const profile = body.profile && resolveProfile(body.profile);
+  const prompt = profile ? buildSystemPrompt(scripts[getProfileLanguage(profile)], profile) : undefined;
+  const system = [...(prompt ? [prompt.text] : []), ...buildTaskSystem(task, profile)];
+  // The generator's request is rebuilt from its seeds as well
+  const messages =
+    task.kind === 'generator'
+      ? [{ role: 'user' as const, content: STRINGS[task.locale].model.generatorSeeds(task.seeds) }]
+      : body.messages.map((msg) => ({ role: msg.role, content: msg.content }));
+  return {
+    messages: [...system.map((content) => ({ role: 'system' as const, content })), ...messages],
+    promptVersion: prompt?.version,
+  };
+};
+
+const clampTemperature = (value: unknown): number =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(MAX_TEMPERATURE, Math.max(0, value))
+    : DEFAULT_TEMPERATURE;
+
+const handleChat = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  // Limited per remote address, which the client cannot choose
+  const limit = rateLimiter.check(req.socket.remoteAddress ?? 'unknown');
+  if (!limit.allowed) {
+    const retryAfter = Math.ceil(limit.retryAfterMs / 1000);
+    sendJson(res, 429, { error: 'Too many requests' }, { 'Retry-After': String(retryAfter) });
+    return;
+  }
+
+  const body = parseChatBody(await readBody(req));
+  const stream = body.stream === true;
+  const { messages, promptVersion } = buildUpstreamMessages(body);
+  const versionHeader = promptVersion ? { 'X-Prompt-Version': promptVersion } : {};
+
+  // The app cancels by closing the connection (new message, unmount...):
+  // the upstream request stops too instead of being paid for nothing
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const upstream = await callUpstream(config, {
+    messages,
+    temperature: clampTemperature(body.temperature),
+    // The schema follows the task too, whatever the client would like
+    responseSchema: getTaskResponseSchema(body.task),
+    stream,
+    signal: controller.signal,
+  });
+
+  if (!upstream.ok) {
+    const errorText = await upstream.text();
+    console.warn(`Upstream error ${upstream.status}: ${errorText.slice(0, 300)}`);
+    // 429 / 5xx are passed through so the app can decide to retry
+    const status = upstream.status === 429 || upstream.status >= 500 ? upstream.status : 502;
+    sendJson(res, status, { error: `Upstream HTTP ${upstream.status}` });
+    return;
+  }
+
+  if (!stream) {
+    const payload = await upstream.json();
+    sendJson(res, 200, { content: payload?.choices?.[0]?.message?.content ?? '' }, versionHeader);
+    return;
+  }
+
+  res.writeHead(200, {
+    ...CORS_HEADERS,
+    ...versionHeader,
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  if (upstream.body) {
+    for await (const delta of readCompletionDeltas(upstream.body)) {
+      res.write(`data: ${JSON.stringify({ content: delta })}\n\n`);
+    }
+  }
+  res.write('data: [DONE]\n\n');
+  res.end();
+};
+
+const server = http.createServer(async (req, res) => {
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+    } else if (req.method === 'GET' && req.url === '/health') {
+      sendJson(res, 200, { ok: true, profiles: bundledProfiles.size });
+    } else if (req.method === 'POST' && req.url === '/chat') {
+      await handleChat(req, res);
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  } catch (error) {
+    if (res.destroyed) {
+      // L'app est partie : rien à lui répondre
+    } else if (res.headersSent) {
+      res.end();
+    } else if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message });
+    } else {
+      console.warn('Chat error', error);
+      sendJson(res, 500, { error: 'Internal error' });
+    }
+  }
+});
+
+setInterval(() => rateLimiter.prune(), config.rateLimit.windowMs).unref();
+
+server.listen(config.port, () => {
+  console.log(`RizzMaster proxy listening on http://localhost:${config.port}`);
+  console.log(`Upstream: ${config.upstreamBaseUrl} (${config.upstreamModel}), ${bundledProfiles.size} profiles`);
+  if (!config.upstreamApiKey) {
+    console.log('No UPSTREAM_API_KEY / OPENAI_API_KEY set: requests go out without Authorization.');
+  }
+});
@@ -0,0 +1,33 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { Locale, SCRIPT_FILES, SUPPORTED_LOCALES } from '../../RizzMaster/i18n/locales';
+import { formatIssue, hasErrors, validateProfile } from '../../RizzMaster/services/profileSchema';
+import { parsePromptTemplate, PromptTemplate } from '../../RizzMaster/services/prompt';
+import type { CharacterProfile } from '../../RizzMaster/types/character';
+
+export { isCharacterProfile } from '../../RizzMaster/services/profileSchema';
+
+// A broken template stops the server at startup rather than on the first chat
+export const loadScripts = (scriptsDir: string): Record<Locale, PromptTemplate> =>
+  Object.fromEntries(
+    SUPPORTED_LOCALES.map((locale) => [
+      locale,
+      parsePromptTemplate(fs.readFileSync(path.join(scriptsDir, SCRIPT_FILES[locale]), 'utf8')),
+    ])
+  ) as Record<Locale, PromptTemplate>;
+
+export const loadProfiles = (profilesDir: string): Map<string, CharacterProfile> => {
+  const profiles = new Map<string, CharacterProfile>();
+  for (const file of fs.readdirSync(profilesDir)) {
+    if (!file.endsWith('.json')) continue;
+    const candidate = JSON.parse(fs.readFileSync(path.join(profilesDir, file), 'utf8'));
+    const issues = validateProfile(candidate, undefined, 'en');
+    if (hasErrors(issues)) {
+      console.warn(`Skipping ${file}: ${issues.map(formatIssue).join('; ')}`);
+      continue;
+    }
+    const profile = candidate as CharacterProfile;
+    profiles.set(profile.id, profile);
+  }
+  return profiles;
+};
@@ -0,0 +1,36 @@
+export type RateLimitResult = {
+  allowed: boolean;
+  retryAfterMs: number;
+};
+
+/**
+ * Sliding-window limiter: at most `max` requests per `windowMs` for each key
+ * (the remote address of the client).
+ */
+export const createRateLimiter = ({ max, windowMs }: { max: number; windowMs: number }) => {
+  const hits = new Map<string, number[]>();
+
+  const check = (key: string, now = Date.now()): RateLimitResult => {
+    const recent = (hits.get(key) ?? []).filter((at) => now - at < windowMs);
+
+    if (recent.length >= max) {
+      hits.set(key, recent);
+      return { allowed: false, retryAfterMs: windowMs - (now - recent[0]) };
+    }
+
+    recent.push(now);
+    hits.set(key, recent);
+    return { allowed: true, retryAfterMs: 0 };
+  };
+
+  // Forget clients that have been idle for a whole window
+  const prune = (now = Date.now()) => {
+    hits.forEach((timestamps, key) => {
+      if (timestamps.every((at) => now - at >= windowMs)) {
+        hits.delete(key);
+      }
+    });
+  };
+
+  return { check, prune };
+};
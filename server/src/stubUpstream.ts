@@ -0,0 +1,50 @@
+import http from 'node:http';
+
+// Minimal OpenAI-compatible upstream for running the proxy locally without
+// any API key: answers every completion with a valid game reply.
+const PORT = Number(process.env.STUB_PORT) || 8788;
+
+const REPLIES = ['Haha ok 😄\nEt toi alors ?', 'Ah ouais ?\nRaconte', 'Intéressant...'];
+
+let turn = 0;
+
+const nextReply = () =>
+  JSON.stringify({
+    message: REPLIES[turn++ % REPLIES.length],
+    flagsDetected: { green: 0, red: 0, hardNo: false, matched: { green: [], red: [], hardNo: [] } },
+    gameStatus: null,
+  });
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST' || req.url !== '/v1/chat/completions') {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Not found' }));
+    return;
+  }
+
+  let raw = '';
+  req.on('data', (chunk) => {
+    raw += chunk;
+  });
+  req.on('end', () => {
+    const body = JSON.parse(raw || '{}');
+    const content = nextReply();
+
+    if (!body.stream) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content } }] }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    for (let i = 0; i < content.length; i += 12) {
+      const chunk = { choices: [{ delta: { content: content.slice(i, i + 12) } }] };
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    }
+    res.end('data: [DONE]\n\n');
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Stub upstream listening on http://localhost:${PORT}/v1`);
+});
@@ -0,0 +1,68 @@
+import { isLocale } from '../../RizzMaster/i18n/locales';
+import { STRINGS } from '../../RizzMaster/i18n/strings';
+import { CompletionTask, TASK_KINDS } from '../../RizzMaster/services/llm/tasks';
+import { isCharacterProfile } from './profiles';
+
+const MAX_SUMMARY_LENGTH = 4000;
+const MAX_ARCHETYPE_LENGTH = 80;
+const GENERATOR_LEVELS = ['easy', 'medium', 'hard'];
+const GENERATOR_GENDERS = ['male', 'female'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean): boolean =>
+  value === undefined || check(value);
+
+const isScenario = (value: unknown): boolean =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < STRINGS.fr.daily.scenarios.length;
+
+const isText = (max: number) => (value: unknown): boolean => typeof value === 'string' && value.length <= max;
+
+/**
+ * Checks a task sent by the app. Only the known kinds get through, with the
+ * data their server-side template needs and nothing else.
+ */
+export const isCompletionTask = (value: unknown): value is CompletionTask => {
+  if (!isRecord(value) || !TASK_KINDS.includes(value.kind as CompletionTask['kind'])) {
+    return false;
+  }
+  switch (value.kind) {
+    case 'opener':
+      return isOptional(value.scenario, isScenario);
+    case 'turn': {
+      const context = value.context;
+      return (
+        isRecord(context) &&
+        isCount(context.green) &&
+        isCount(context.red) &&
+        typeof context.score === 'number' &&
+        Number.isFinite(context.score) &&
+        isCount(context.exchanges) &&
+        isOptional(value.summary, isText(MAX_SUMMARY_LENGTH)) &&
+        isOptional(value.lateReplySeconds, isCount) &&
+        isOptional(value.scenario, isScenario)
+      );
+    }
+    case 'summary':
+    case 'repair':
+      return isCharacterProfile(value.profile);
+    case 'coach':
+      return isCharacterProfile(value.profile) && isLocale(value.locale);
+    case 'generator': {
+      const seeds = value.seeds;
+      return (
+        isLocale(value.locale) &&
+        isRecord(seeds) &&
+        GENERATOR_GENDERS.includes(seeds.gender as string) &&
+        GENERATOR_LEVELS.includes(seeds.level as string) &&
+        isText(MAX_ARCHETYPE_LENGTH)(seeds.archetype)
+      );
+    }
+    default:
+      return false;
+  }
+};
@@ -0,0 +1,61 @@
+import type { ServerConfig } from './config';
+
+export type UpstreamMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+export type UpstreamRequest = {
+  messages: UpstreamMessage[];
+  temperature: number;
+  responseSchema?: { name: string; schema: Record<string, unknown> };
+  stream: boolean;
+  signal?: AbortSignal; // aborted when the app goes away
+};
+
+export const callUpstream = async (config: ServerConfig, request: UpstreamRequest): Promise<Response> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.upstreamApiKey) {
+    headers.Authorization = `Bearer ${config.upstreamApiKey}`;
+  }
+
+  return fetch(`${config.upstreamBaseUrl}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: config.upstreamModel,
+      messages: request.messages,
+      temperature: request.temperature,
+      response_format:
+        request.responseSchema && config.structuredOutput
+          ? { type: 'json_schema', json_schema: { ...request.responseSchema, strict: true } }
+          : undefined,
+      stream: request.stream,
+    }),
+    signal: request.signal,
+  });
+};
+
+/** Yields the text deltas of an OpenAI-style SSE completion stream. */
+export async function* readCompletionDeltas(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const rawLine of lines) {
+      const line = rawLine.trim();
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+      const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+      if (typeof delta === 'string' && delta) yield delta;
+    }
+  }
+}